@@ -39,7 +39,7 @@ const securityHeaders = [
       `default-src 'self'`,
       `script-src ${scriptSrcDirectives.join(' ')}`,
       `style-src 'self' 'unsafe-inline'`, // 'unsafe-inline' for NextUI/ShadCN and other UI libs that use inline styles
-      `img-src 'self' data: https://picsum.photos`, // Allow data URIs for image previews and picsum.photos for placeholders
+      `img-src 'self' data: blob: https://picsum.photos`, // Allow data/blob URIs for image previews and picsum.photos for placeholders
       `font-src 'self'`, // Assuming fonts are self-hosted or managed via 'self'
       `object-src 'none'`,
       `frame-ancestors 'none'`,
@@ -0,0 +1,78 @@
+/**
+ * Writes the JPEG fixtures the image-metadata tests run against: small photos carrying
+ * everything an upload must not publish (GPS position, serial numbers, XMP, IPTC) next to
+ * camera details that may be kept. gps-rotated.jpg also has an EXIF orientation that isn't 1.
+ *
+ * The left half of each image is red and the right half blue, so tests can tell which way the
+ * pixels were turned. Usage: npx tsx scripts/generate-metadata-fixtures.ts
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import sharp from 'sharp';
+
+const FIXTURES_DIR = path.join(process.cwd(), 'src/lib/__fixtures__');
+const WIDTH = 64;
+const HEIGHT = 32;
+
+const XMP = `<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:creator><rdf:Seq><rdf:li>Fixture Photographer</rdf:li></rdf:Seq></dc:creator></rdf:Description>
+</rdf:RDF></x:xmpmeta><?xpacket end="w"?>`;
+
+// JPEG marker segment: 0xFF, the marker, then a big-endian length that counts itself
+function segment(marker: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt8(0xff, 0);
+  header.writeUInt8(marker, 1);
+  header.writeUInt16BE(data.length + 2, 2);
+  return Buffer.concat([header, data]);
+}
+
+const xmpSegment = () => segment(0xe1, Buffer.concat([Buffer.from('http://ns.adobe.com/xap/1.0/\0'), Buffer.from(XMP)]));
+
+// IPTC travels in a Photoshop APP13 segment as an 8BIM resource 0x0404 of IIM datasets
+function iptcSegment(): Buffer {
+  const dataset = (record: number, tag: number, value: string) => {
+    const header = Buffer.from([0x1c, record, tag, 0, 0]);
+    header.writeUInt16BE(Buffer.byteLength(value), 3);
+    return Buffer.concat([header, Buffer.from(value)]);
+  };
+  let iim = Buffer.concat([dataset(2, 80, 'Fixture Byline'), dataset(2, 90, 'Fixture City')]);
+  if (iim.length % 2) iim = Buffer.concat([iim, Buffer.alloc(1)]);
+  const resourceHeader = Buffer.concat([Buffer.from('8BIM'), Buffer.from([0x04, 0x04, 0, 0]), Buffer.alloc(4)]);
+  resourceHeader.writeUInt32BE(iim.length, 8);
+  return segment(0xed, Buffer.concat([Buffer.from('Photoshop 3.0\0'), resourceHeader, iim]));
+}
+
+async function createPhoto(orientation: number): Promise<Buffer> {
+  const half = (color: { r: number; g: number; b: number }) =>
+    sharp({ create: { width: WIDTH / 2, height: HEIGHT, channels: 3, background: color } }).png().toBuffer();
+  const jpeg = await sharp({ create: { width: WIDTH, height: HEIGHT, channels: 3, background: '#000' } })
+    .composite([
+      { input: await half({ r: 255, g: 0, b: 0 }), left: 0, top: 0 },
+      { input: await half({ r: 0, g: 0, b: 255 }), left: WIDTH / 2, top: 0 },
+    ])
+    .withExif({
+      IFD0: { Make: 'FixtureCam', Model: 'FC-1', Artist: 'Fixture Owner' },
+      IFD2: { ExposureTime: '1/250', FNumber: '28/10', ISOSpeedRatings: '200', BodySerialNumber: 'SN-0042', DateTimeOriginal: '2024:05:01 12:00:00' },
+      IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '51/1 30/1 0/1', GPSLongitudeRef: 'W', GPSLongitude: '0/1 7/1 0/1' },
+    })
+    .withMetadata({ orientation })
+    .jpeg({ quality: 90 })
+    .toBuffer();
+  // sharp can't write XMP or IPTC itself, so they are spliced in right after the SOI marker
+  return Buffer.concat([jpeg.subarray(0, 2), xmpSegment(), iptcSegment(), jpeg.subarray(2)]);
+}
+
+async function main() {
+  await fs.mkdir(FIXTURES_DIR, { recursive: true });
+  await fs.writeFile(path.join(FIXTURES_DIR, 'gps-upright.jpg'), await createPhoto(1));
+  // Orientation 6 means "rotate 90° clockwise to display"
+  await fs.writeFile(path.join(FIXTURES_DIR, 'gps-rotated.jpg'), await createPhoto(6));
+  console.log(`Wrote fixtures to ${FIXTURES_DIR}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
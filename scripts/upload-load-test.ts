@@ -0,0 +1,112 @@
+/**
+ * Memory load test for the streaming upload path.
+ *
+ * Sends CONCURRENCY near-10MB images at once to the POST /api/v1/images route handler, each
+ * as a streamed request body, while sampling the process's memory. With whole files buffered
+ * in memory, ten uploads would hold ~200MB of ArrayBuffers; streaming keeps the growth to a
+ * few stream buffers per upload. Exits non-zero if growth exceeds the budget.
+ *
+ * Usage: npm run loadtest:upload [-- <concurrency> <rounds>]
+ */
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import sharp from 'sharp';
+
+const CONCURRENCY = Number(process.argv[2] ?? 10);
+const ROUNDS = Number(process.argv[3] ?? 3);
+const MEMORY_BUDGET_BYTES = 64 * 1024 * 1024; // Allowed growth of heap + ArrayBuffers over the baseline
+const SAMPLE_INTERVAL_MS = 20;
+
+const mb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+const trackedMemory = () => {
+  const { heapUsed, arrayBuffers } = process.memoryUsage();
+  return heapUsed + arrayBuffers;
+};
+
+async function createFixture(dir: string): Promise<string> {
+  // Random noise barely compresses, so this PNG lands just under the 10MB limit
+  const width = 1800;
+  const height = 1780;
+  const noise = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < noise.length; i++) noise[i] = Math.floor(Math.random() * 256);
+  const fixturePath = path.join(dir, 'noise.png');
+  await sharp(noise, { raw: { width, height, channels: 3 } }).png({ compressionLevel: 0 }).toFile(fixturePath);
+  return fixturePath;
+}
+
+async function main() {
+  const workDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'imagedrop-loadtest-'));
+  // Point the app at throwaway storage before its modules read the environment
+  process.env.DATABASE_PATH = path.join(workDir, 'db.sqlite');
+  process.env.LOCAL_STORAGE_DIR = path.join(workDir, 'uploads');
+  process.env.UPLOAD_TMP_DIR = path.join(workDir, 'tmp');
+  process.env.STORAGE_DRIVER = 'local';
+
+  try {
+    const { POST } = await import('@/app/api/v1/images/route');
+    const { createApiKey } = await import('@/lib/api-keys');
+    const { insertUser } = await import('@/lib/auth-store');
+    const fixturePath = await createFixture(workDir);
+    const fixtureSize = (await fsp.stat(fixturePath)).size;
+
+    // Uploads are authenticated with an API key: outside Next.js there is no session cookie to read
+    const userId = crypto.randomUUID();
+    insertUser({ id: userId, email: 'loadtest@example.com', passwordHash: '', createdAt: new Date().toISOString() });
+    const apiKey = createApiKey(userId, { name: 'Load test', scopes: ['upload'] });
+    if (!apiKey.success) throw new Error(apiKey.error);
+
+    const upload = async () => {
+      const response = await POST(
+        new Request('http://localhost:9002/api/v1/images', {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${apiKey.key}`, 'Content-Type': 'image/png', 'Content-Length': String(fixtureSize) },
+          body: Readable.toWeb(fs.createReadStream(fixturePath)) as ReadableStream<Uint8Array>,
+          duplex: 'half',
+        } as RequestInit)
+      );
+      return response.ok ? null : `HTTP ${response.status}: ${await response.text()}`;
+    };
+
+    global.gc?.();
+    const baseline = trackedMemory();
+    let peak = baseline;
+    const sampler = setInterval(() => {
+      peak = Math.max(peak, trackedMemory());
+    }, SAMPLE_INTERVAL_MS);
+
+    let failures = 0;
+    const startedAt = Date.now();
+    for (let round = 0; round < ROUNDS; round++) {
+      const errors = (await Promise.all(Array.from({ length: CONCURRENCY }, upload))).filter((error) => error !== null);
+      failures += errors.length;
+      errors.forEach((error) => console.error('Upload failed:', error));
+    }
+    clearInterval(sampler);
+
+    const growth = peak - baseline;
+    console.log(`${ROUNDS} rounds x ${CONCURRENCY} concurrent uploads of ${mb(fixtureSize)} in ${Date.now() - startedAt}ms`);
+    console.log(`Baseline heap+ArrayBuffers: ${mb(baseline)}, peak: ${mb(peak)}, growth: ${mb(growth)} (budget ${mb(MEMORY_BUDGET_BYTES)})`);
+    console.log(`Buffering every file would need at least ${mb(fixtureSize * CONCURRENCY)}`);
+
+    if (failures > 0) {
+      console.error(`FAIL: ${failures} uploads failed`);
+      process.exitCode = 1;
+    } else if (growth > MEMORY_BUDGET_BYTES) {
+      console.error('FAIL: memory grew beyond the budget');
+      process.exitCode = 1;
+    } else {
+      console.log('PASS: memory stayed bounded');
+    }
+  } finally {
+    await fsp.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,17 @@
+// Which model provider the Genkit instance talks to. "stub" is a local, deterministic model
+// (see plugins/stub-model.ts) for development and tests without network access or API keys.
+export type AiProvider = 'googleai' | 'stub';
+
+export const AI_PROVIDER: AiProvider = process.env.AI_PROVIDER === 'stub' ? 'stub' : 'googleai';
+
+const DEFAULT_MODELS: Record<AiProvider, string> = {
+  googleai: 'googleai/gemini-2.0-flash',
+  stub: 'stub/image-model',
+};
+
+export const AI_MODEL = process.env.AI_MODEL || DEFAULT_MODELS[AI_PROVIDER];
+
+// Without a key the Google AI plugin can't make any calls, so AI features stay switched off
+export function isAiConfigured(): boolean {
+  return AI_PROVIDER === 'stub' || !!(process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY || process.env.GOOGLE_GENAI_API_KEY);
+}
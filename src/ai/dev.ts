@@ -1 +1,4 @@
 // Flows will be imported for their side effects in this file.
+import '@/ai/flows/describe-image';
+import '@/ai/flows/suggest-image-tags';
+import '@/ai/flows/moderate-image';
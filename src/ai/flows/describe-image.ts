@@ -0,0 +1,56 @@
+/**
+ * @fileOverview Writes alt text and a caption for an uploaded image.
+ *
+ * - describeImage - Describes one image.
+ * - DescribeImageInput - The input type for the describeImage function.
+ * - DescribeImageOutput - The return type for the describeImage function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+
+const DescribeImageInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .describe("The image, as a data URI that must include a MIME type and use Base64 encoding: 'data:<mimetype>;base64,<encoded_data>'."),
+  fileName: z.string().describe('The name the image was uploaded with, which may hint at its subject.'),
+});
+export type DescribeImageInput = z.infer<typeof DescribeImageInputSchema>;
+
+const DescribeImageOutputSchema = z.object({
+  altText: z.string().describe('Concise alt text for screen readers, at most 125 characters.'),
+  caption: z.string().describe('A caption of one to three sentences describing the image in more detail.'),
+});
+export type DescribeImageOutput = z.infer<typeof DescribeImageOutputSchema>;
+
+export async function describeImage(input: DescribeImageInput): Promise<DescribeImageOutput> {
+  return describeImageFlow(input);
+}
+
+const describeImagePrompt = ai.definePrompt({
+  name: 'describeImagePrompt',
+  input: {schema: DescribeImageInputSchema},
+  output: {schema: DescribeImageOutputSchema},
+  prompt: `You describe images for people who can't see them.
+
+Write alt text that says what the image shows in at most 125 characters. Don't start with "Image of" or "Picture of", and don't mention the file name.
+Then write a caption of one to three sentences with more detail: the subject, the setting, and anything notable about the composition or mood.
+
+File name: {{{fileName}}}
+Image: {{media url=photoDataUri}}`,
+});
+
+const describeImageFlow = ai.defineFlow(
+  {
+    name: 'describeImageFlow',
+    inputSchema: DescribeImageInputSchema,
+    outputSchema: DescribeImageOutputSchema,
+  },
+  async (input) => {
+    const {output} = await describeImagePrompt(input);
+    if (!output) {
+      throw new Error('The model did not return a description.');
+    }
+    return output;
+  }
+);
@@ -0,0 +1,62 @@
+/**
+ * @fileOverview Checks an upload for content that shouldn't be published without review.
+ *
+ * - moderateImage - Classifies one image.
+ * - ModerateImageInput - The input type for the moderateImage function.
+ * - ModerateImageOutput - The return type for the moderateImage function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+
+export const MODERATION_CATEGORIES = ['sexual', 'violence', 'hate', 'self-harm', 'illegal', 'other'] as const;
+
+const ModerateImageInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .describe("The image, as a data URI that must include a MIME type and use Base64 encoding: 'data:<mimetype>;base64,<encoded_data>'."),
+  fileName: z.string().describe('The name the image was uploaded with.'),
+});
+export type ModerateImageInput = z.infer<typeof ModerateImageInputSchema>;
+
+const ModerateImageOutputSchema = z.object({
+  flagged: z.boolean().describe('Whether the image needs a human to review it before it is published.'),
+  categories: z
+    .array(z.enum(MODERATION_CATEGORIES))
+    .describe('Every category the image falls into; empty when it is not flagged.'),
+  reason: z.string().describe('One sentence explaining the decision, for the reviewer.'),
+});
+export type ModerateImageOutput = z.infer<typeof ModerateImageOutputSchema>;
+
+export async function moderateImage(input: ModerateImageInput): Promise<ModerateImageOutput> {
+  return moderateImageFlow(input);
+}
+
+const moderateImagePrompt = ai.definePrompt({
+  name: 'moderateImagePrompt',
+  input: {schema: ModerateImageInputSchema},
+  output: {schema: ModerateImageOutputSchema},
+  prompt: `You review images uploaded to a public image host before they are published.
+
+Flag the image if it contains sexual content or nudity, graphic violence or gore, hateful symbols or slurs, depictions or encouragement of self-harm, or anything illegal to publish. Ordinary photos, artwork, screenshots and memes are fine. When in doubt, flag the image; a person will make the final call.
+
+List every category that applies, and give a one-sentence reason either way. Don't guess at the identity of anyone shown.
+
+File name: {{{fileName}}}
+Image: {{media url=photoDataUri}}`,
+});
+
+const moderateImageFlow = ai.defineFlow(
+  {
+    name: 'moderateImageFlow',
+    inputSchema: ModerateImageInputSchema,
+    outputSchema: ModerateImageOutputSchema,
+  },
+  async (input) => {
+    const {output} = await moderateImagePrompt(input);
+    if (!output) {
+      throw new Error('The model did not return a moderation verdict.');
+    }
+    return output;
+  }
+);
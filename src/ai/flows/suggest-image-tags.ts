@@ -0,0 +1,61 @@
+/**
+ * @fileOverview Proposes search tags for an uploaded image.
+ *
+ * - suggestImageTags - Suggests tags for one image.
+ * - SuggestImageTagsInput - The input type for the suggestImageTags function.
+ * - SuggestImageTagsOutput - The return type for the suggestImageTags function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+
+export const MIN_SUGGESTED_TAGS = 3;
+export const MAX_SUGGESTED_TAGS = 10;
+
+const SuggestImageTagsInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .describe("The image, as a data URI that must include a MIME type and use Base64 encoding: 'data:<mimetype>;base64,<encoded_data>'."),
+  fileName: z.string().describe('The name the image was uploaded with, which may hint at its subject.'),
+});
+export type SuggestImageTagsInput = z.infer<typeof SuggestImageTagsInputSchema>;
+
+const SuggestImageTagsOutputSchema = z.object({
+  tags: z
+    .array(z.string().describe('A single lower-case tag of one or two words, e.g. "beach" or "golden hour".'))
+    .min(MIN_SUGGESTED_TAGS)
+    .max(MAX_SUGGESTED_TAGS)
+    .describe(`Between ${MIN_SUGGESTED_TAGS} and ${MAX_SUGGESTED_TAGS} tags, most relevant first.`),
+});
+export type SuggestImageTagsOutput = z.infer<typeof SuggestImageTagsOutputSchema>;
+
+export async function suggestImageTags(input: SuggestImageTagsInput): Promise<SuggestImageTagsOutput> {
+  return suggestImageTagsFlow(input);
+}
+
+const suggestImageTagsPrompt = ai.definePrompt({
+  name: 'suggestImageTagsPrompt',
+  input: {schema: SuggestImageTagsInputSchema},
+  output: {schema: SuggestImageTagsOutputSchema},
+  prompt: `You tag images so people can find them again by searching.
+
+Suggest between ${MIN_SUGGESTED_TAGS} and ${MAX_SUGGESTED_TAGS} tags for this image, most relevant first. Cover the main subject, the setting, notable objects, colours or the style of the image. Use common, lower-case words someone would type into a search box, and no more than two words per tag. Don't tag people by name or guess at anyone's identity.
+
+File name: {{{fileName}}}
+Image: {{media url=photoDataUri}}`,
+});
+
+const suggestImageTagsFlow = ai.defineFlow(
+  {
+    name: 'suggestImageTagsFlow',
+    inputSchema: SuggestImageTagsInputSchema,
+    outputSchema: SuggestImageTagsOutputSchema,
+  },
+  async (input) => {
+    const {output} = await suggestImageTagsPrompt(input);
+    if (!output) {
+      throw new Error('The model did not return any tags.');
+    }
+    return output;
+  }
+);
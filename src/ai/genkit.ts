@@ -1,5 +1,7 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/googleai';
+import {AI_MODEL, AI_PROVIDER} from '@/ai/config';
+import {stubModel} from '@/ai/plugins/stub-model';
 
 // SECURITY NOTE:
 // API keys for AI services (like Google AI) should be managed securely.
@@ -10,6 +12,6 @@ import {googleAI} from '@genkit-ai/googleai';
 // The googleAI() plugin typically picks up the GOOGLE_API_KEY from the environment automatically.
 
 export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.0-flash',
+  plugins: [AI_PROVIDER === 'stub' ? stubModel() : googleAI()],
+  model: AI_MODEL,
 });
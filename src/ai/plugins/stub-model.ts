@@ -0,0 +1,52 @@
+import crypto from 'node:crypto';
+import {genkitPlugin} from 'genkit/plugin';
+
+const STUB_TAG_VOCABULARY = ['landscape', 'portrait', 'nature', 'city', 'people', 'animal', 'food', 'night', 'sky', 'water', 'architecture', 'abstract'];
+
+// Between 3 and 10 distinct words from STUB_TAG_VOCABULARY, picked by the fingerprint's hex digits
+function stubTags(fingerprint: string): string[] {
+  const digits = [...fingerprint].map((digit) => parseInt(digit, 16));
+  const count = 3 + (digits[0] % 8);
+  const remaining = [...STUB_TAG_VOCABULARY];
+  return digits.slice(1).concat(digits).slice(0, count).map((digit) => remaining.splice(digit % remaining.length, 1)[0]);
+}
+
+// Canned values for each output field the app's flows ask for, varied by a fingerprint of the request
+const STUB_FIELDS: Record<string, (fingerprint: string) => unknown> = {
+  altText: (fingerprint) => `Placeholder description of image ${fingerprint}`,
+  caption: (fingerprint) => `A placeholder caption for image ${fingerprint}, written by the stub model.`,
+  tags: stubTags,
+  // The stub passes everything; use the rules classifier to try out quarantine offline
+  flagged: () => false,
+  categories: () => [],
+  reason: () => 'The stub model does not look at images.',
+};
+
+/**
+ * A model that never leaves the process: it answers every request with the fields its output
+ * schema asks for, filled from STUB_FIELDS. The same request always gets the same answer, so
+ * flows can be exercised offline and their results asserted on.
+ */
+export function stubModel() {
+  return genkitPlugin('stub', async (ai) => {
+    ai.defineModel(
+      {
+        name: 'stub/image-model',
+        label: 'Stub image model',
+        // Genkit only passes the output schema on to models that say they can be constrained by one
+        supports: {media: true, multiturn: false, systemRole: true, output: ['json', 'text'], constrained: 'all'},
+      },
+      async (request) => {
+        const fingerprint = crypto.createHash('sha256').update(JSON.stringify(request.messages)).digest('hex').slice(0, 8);
+        const requested = Object.keys(request.output?.schema?.properties ?? STUB_FIELDS);
+        const output = Object.fromEntries(
+          requested.filter((field) => field in STUB_FIELDS).map((field) => [field, STUB_FIELDS[field](fingerprint)])
+        );
+        return {
+          message: {role: 'model', content: [{text: JSON.stringify(output)}]},
+          finishReason: 'stop',
+        };
+      }
+    );
+  });
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+import { ForgotPasswordForm } from '@/components/auth-forms';
+
+export const metadata: Metadata = {
+  title: 'Reset password - ImageDrop',
+};
+
+export default function ForgotPasswordPage() {
+  return <ForgotPasswordForm />;
+}
@@ -0,0 +1,11 @@
+export default function AuthLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <main className="flex-grow container mx-auto flex items-start justify-center px-4 py-16 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md">{children}</div>
+    </main>
+  );
+}
@@ -0,0 +1,19 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { ResetPasswordForm } from '@/components/auth-forms';
+
+export const metadata: Metadata = {
+  title: 'Choose a new password - ImageDrop',
+};
+
+export default async function ResetPasswordPage({ searchParams }: { searchParams: Promise<{ token?: string }> }) {
+  const { token } = await searchParams;
+  if (!token) {
+    return (
+      <p className="text-center text-muted-foreground">
+        This reset link is incomplete. <Link href="/forgot-password" className="text-primary hover:underline">Request a new one.</Link>
+      </p>
+    );
+  }
+  return <ResetPasswordForm token={token} />;
+}
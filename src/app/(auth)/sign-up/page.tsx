@@ -0,0 +1,16 @@
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { SignUpForm } from '@/components/auth-forms';
+import { getCurrentUser } from '@/lib/session';
+
+export const metadata: Metadata = {
+  title: 'Sign up - ImageDrop',
+};
+
+export default async function SignUpPage({ searchParams }: { searchParams: Promise<{ next?: string }> }) {
+  if (await getCurrentUser()) {
+    redirect('/');
+  }
+  const { next } = await searchParams;
+  return <SignUpForm redirectTo={next} />;
+}
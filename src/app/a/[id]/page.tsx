@@ -0,0 +1,37 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { AlbumGallery } from '@/components/album-gallery';
+import { getAlbum } from '@/lib/album-store';
+import { listAlbumImages } from '@/lib/image-store';
+import { toStoredImages } from '@/lib/stored-image';
+
+type AlbumPageProps = { params: Promise<{ id: string }> };
+
+export async function generateMetadata({ params }: AlbumPageProps): Promise<Metadata> {
+  const album = getAlbum((await params).id);
+  return { title: album ? `${album.title} - ImageDrop` : 'Album not found - ImageDrop' };
+}
+
+// Public album page: anyone with the link can view it
+export default async function AlbumPage({ params }: AlbumPageProps) {
+  const album = getAlbum((await params).id);
+  if (!album) {
+    notFound();
+  }
+  // Anyone can open this page, so images waiting for review are left out
+  const images = toStoredImages(listAlbumImages(album.id).filter((image) => image.moderationStatus === 'approved'));
+
+  return (
+    <main className="flex-grow container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-semibold text-foreground">{album.title}</h2>
+        <p className="text-sm text-muted-foreground">{images.length === 1 ? '1 image' : `${images.length} images`}</p>
+      </div>
+      {images.length === 0 ? (
+        <p className="py-10 text-center text-lg text-muted-foreground">This album is empty.</p>
+      ) : (
+        <AlbumGallery images={images} />
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,147 @@
+'use server';
+
+import { z } from 'zod';
+import {
+  addAlbumImages,
+  albumContainsImage,
+  deleteAlbum,
+  getAlbum,
+  insertAlbum,
+  listUserAlbums,
+  removeAlbumImage,
+  reorderAlbumImages,
+  updateAlbum,
+  type AlbumRecord,
+} from '@/lib/album-store';
+import { getImage } from '@/lib/image-store';
+import { getCurrentUser } from '@/lib/session';
+import { generateShortId } from '@/lib/short-id';
+
+export interface AlbumActionResult {
+  success: boolean;
+  albumId?: string;
+  error?: string;
+}
+
+// Enough to offer an album in a picker
+export interface AlbumOption {
+  id: string;
+  title: string;
+  imageCount: number;
+}
+
+const AlbumTitleSchema = z.string().trim().min(1, 'Album title cannot be empty.').max(100, 'Album title must be at most 100 characters.');
+const IdListSchema = z.array(z.string().min(1)).max(1000);
+
+type OwnedAlbum = { ok: true; userId: string; album: AlbumRecord } | { ok: false; error: string };
+
+// Albums can only be changed by the account that created them
+async function getOwnedAlbum(albumId: string): Promise<OwnedAlbum> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { ok: false, error: 'Please sign in to manage albums.' };
+  }
+  const album = getAlbum(albumId);
+  if (!album || album.userId !== user.id) {
+    return { ok: false, error: 'Album not found.' };
+  }
+  return { ok: true, userId: user.id, album };
+}
+
+// Only the user's own images can be put into their albums
+function allImagesOwnedBy(userId: string, imageIds: string[]) {
+  return imageIds.every((imageId) => getImage(imageId)?.userId === userId);
+}
+
+function firstIssue(error: z.ZodError) {
+  return error.issues[0]?.message ?? 'Invalid input.';
+}
+
+// The signed-in user's albums, or null for anonymous visitors (who can't have albums)
+export async function listMyAlbumsAction(): Promise<AlbumOption[] | null> {
+  const user = await getCurrentUser();
+  if (!user) return null;
+  return listUserAlbums(user.id).map(({ id, title, imageCount }) => ({ id, title, imageCount }));
+}
+
+export async function createAlbumAction(title: string, imageIds: string[] = []): Promise<AlbumActionResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { success: false, error: 'Please sign in to create albums.' };
+  }
+  const parsedTitle = AlbumTitleSchema.safeParse(title);
+  if (!parsedTitle.success) {
+    return { success: false, error: firstIssue(parsedTitle.error) };
+  }
+  const parsedIds = IdListSchema.safeParse(imageIds);
+  if (!parsedIds.success || !allImagesOwnedBy(user.id, parsedIds.data)) {
+    return { success: false, error: 'Only your own images can be added to an album.' };
+  }
+
+  const now = new Date().toISOString();
+  const album: AlbumRecord = { id: generateShortId(), userId: user.id, title: parsedTitle.data, coverImageId: null, createdAt: now, updatedAt: now };
+  insertAlbum(album);
+  if (parsedIds.data.length > 0) {
+    addAlbumImages(album.id, parsedIds.data);
+  }
+  return { success: true, albumId: album.id };
+}
+
+export async function renameAlbumAction(albumId: string, title: string): Promise<AlbumActionResult> {
+  const owned = await getOwnedAlbum(albumId);
+  if (!owned.ok) return { success: false, error: owned.error };
+  const parsedTitle = AlbumTitleSchema.safeParse(title);
+  if (!parsedTitle.success) {
+    return { success: false, error: firstIssue(parsedTitle.error) };
+  }
+  updateAlbum(albumId, { title: parsedTitle.data });
+  return { success: true, albumId };
+}
+
+export async function deleteAlbumAction(albumId: string): Promise<AlbumActionResult> {
+  const owned = await getOwnedAlbum(albumId);
+  if (!owned.ok) return { success: false, error: owned.error };
+  // Only the album goes; its images stay in the library
+  deleteAlbum(albumId);
+  return { success: true };
+}
+
+export async function addImagesToAlbumAction(albumId: string, imageIds: string[]): Promise<AlbumActionResult> {
+  const owned = await getOwnedAlbum(albumId);
+  if (!owned.ok) return { success: false, error: owned.error };
+  const parsedIds = IdListSchema.safeParse(imageIds);
+  if (!parsedIds.success || !allImagesOwnedBy(owned.userId, parsedIds.data)) {
+    return { success: false, error: 'Only your own images can be added to an album.' };
+  }
+  addAlbumImages(albumId, parsedIds.data);
+  return { success: true, albumId };
+}
+
+export async function removeImageFromAlbumAction(albumId: string, imageId: string): Promise<AlbumActionResult> {
+  const owned = await getOwnedAlbum(albumId);
+  if (!owned.ok) return { success: false, error: owned.error };
+  removeAlbumImage(albumId, String(imageId));
+  return { success: true, albumId };
+}
+
+export async function reorderAlbumAction(albumId: string, imageIds: string[]): Promise<AlbumActionResult> {
+  const owned = await getOwnedAlbum(albumId);
+  if (!owned.ok) return { success: false, error: owned.error };
+  const parsedIds = IdListSchema.safeParse(imageIds);
+  if (!parsedIds.success || !reorderAlbumImages(albumId, parsedIds.data)) {
+    // Most likely the album changed in another tab since the page was loaded
+    return { success: false, error: 'The album has changed. Reload the page and try again.' };
+  }
+  return { success: true, albumId };
+}
+
+// Pass null to go back to using the first image as the cover
+export async function setAlbumCoverAction(albumId: string, imageId: string | null): Promise<AlbumActionResult> {
+  const owned = await getOwnedAlbum(albumId);
+  if (!owned.ok) return { success: false, error: owned.error };
+  if (imageId !== null && !albumContainsImage(albumId, String(imageId))) {
+    return { success: false, error: 'The cover has to be one of the album\'s images.' };
+  }
+  updateAlbum(albumId, { coverImageId: imageId });
+  return { success: true, albumId };
+}
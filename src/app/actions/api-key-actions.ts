@@ -0,0 +1,39 @@
+'use server';
+
+import { deleteApiKey } from '@/lib/api-key-store';
+import type { ApiKeyScope } from '@/lib/api-key-scopes';
+import { createApiKey, toApiKeySummary, type ApiKeySummary } from '@/lib/api-keys';
+import { getCurrentUser } from '@/lib/session';
+
+export type { ApiKeySummary } from '@/lib/api-keys';
+
+export interface ApiKeyActionResult {
+  success: boolean;
+  apiKey?: ApiKeySummary;
+  key?: string; // The new key, returned once on creation and never again
+  error?: string;
+}
+
+export async function createApiKeyAction(name: string, scopes: ApiKeyScope[]): Promise<ApiKeyActionResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { success: false, error: 'Please sign in to manage API keys.' };
+  }
+  const result = createApiKey(user.id, { name: String(name), scopes });
+  if (!result.success) {
+    return result;
+  }
+  return { success: true, apiKey: toApiKeySummary(result.apiKey), key: result.key };
+}
+
+// Takes effect on the key's next request
+export async function revokeApiKeyAction(id: string): Promise<ApiKeyActionResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { success: false, error: 'Please sign in to manage API keys.' };
+  }
+  if (!deleteApiKey(String(id), user.id)) {
+    return { success: false, error: 'API key not found.' };
+  }
+  return { success: true };
+}
@@ -0,0 +1,55 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { requestPasswordReset, resetPassword, signIn, signUp, type AuthFormState } from '@/lib/auth-service';
+import { getTrustedAppOrigin, safeRedirectPath } from '@/lib/request-origin';
+import { endSession, startSession } from '@/lib/session';
+
+export type { AuthFormState } from '@/lib/auth-service';
+
+export async function signUpAction(prevState: AuthFormState | undefined, formData: FormData): Promise<AuthFormState> {
+  const result = await signUp({ email: String(formData.get('email') ?? ''), password: String(formData.get('password') ?? '') });
+  if (!result.success) {
+    return result;
+  }
+  await startSession(result.user.id);
+  redirect(safeRedirectPath(formData.get('redirectTo')));
+}
+
+export async function signInAction(prevState: AuthFormState | undefined, formData: FormData): Promise<AuthFormState> {
+  const result = await signIn({ email: String(formData.get('email') ?? ''), password: String(formData.get('password') ?? '') });
+  if (!result.success) {
+    return result;
+  }
+  await startSession(result.user.id);
+  redirect(safeRedirectPath(formData.get('redirectTo')));
+}
+
+export async function signOutAction(): Promise<void> {
+  await endSession();
+  redirect('/');
+}
+
+export async function requestPasswordResetAction(prevState: AuthFormState | undefined, formData: FormData): Promise<AuthFormState> {
+  const appOrigin = getTrustedAppOrigin(await headers());
+  if (!appOrigin) {
+    console.error('Not sending a password reset link: set APP_URL, or list this host in APP_TRUSTED_ORIGINS.');
+    return { success: false, error: 'Password resets are not set up on this server. Please contact the administrator.' };
+  }
+  try {
+    return await requestPasswordReset({ email: String(formData.get('email') ?? '') }, appOrigin);
+  } catch (e) {
+    console.error('Error requesting password reset:', e);
+    return { success: false, error: 'Could not send the reset email. Please try again later.' };
+  }
+}
+
+export async function resetPasswordAction(prevState: AuthFormState | undefined, formData: FormData): Promise<AuthFormState> {
+  const result = await resetPassword({ token: String(formData.get('token') ?? ''), password: String(formData.get('password') ?? '') });
+  if (!result.success) {
+    return result;
+  }
+  await startSession(result.user.id);
+  redirect('/');
+}
@@ -0,0 +1,139 @@
+'use server';
+
+import { z } from 'zod';
+import { isValidDeletionToken } from '@/lib/image-deletion';
+import {
+  getImage,
+  listImages,
+  listImageTags,
+  listTagCounts,
+  reviewSuggestedImageTag,
+  searchImages,
+  setImageTags,
+  updateImageDescription,
+  type ImageRecord,
+} from '@/lib/image-store';
+import { normalizeTag, TagListSchema } from '@/lib/image-tags';
+import { getCurrentUser } from '@/lib/session';
+import { splitImageTags, toStoredImages, type StoredImage } from '@/lib/stored-image';
+
+export type { StoredImage } from '@/lib/stored-image';
+
+const SEARCH_RESULT_LIMIT = 100;
+
+const ImageSearchSchema = z.object({
+  text: z.string().max(200).default(''),
+  tags: TagListSchema.default([]),
+  tagMode: z.enum(['and', 'or']).default('and'),
+});
+
+const ImageDescriptionSchema = z.object({
+  altText: z.string().trim().max(250, 'Alt text must be at most 250 characters.'),
+  caption: z.string().trim().max(1000, 'Caption must be at most 1000 characters.'),
+});
+
+export interface ImageTagsResult {
+  success: boolean;
+  tags?: string[]; // As stored, after normalization
+  suggestedTags?: string[];
+  error?: string;
+}
+
+export interface ImageDescriptionResult {
+  success: boolean;
+  altText?: string | null;
+  caption?: string | null;
+  error?: string;
+}
+
+// Owners can always edit their images; anonymous uploads can be edited by whoever holds their
+// deletion token, the same proof of upload deleting takes
+async function canEditImage(image: ImageRecord, deletionToken: unknown): Promise<boolean> {
+  const user = await getCurrentUser();
+  if (image.userId && image.userId === user?.id) return true;
+  return typeof deletionToken === 'string' && isValidDeletionToken(image, deletionToken);
+}
+
+function currentTags(imageId: string): ImageTagsResult {
+  return { success: true, ...splitImageTags(listImageTags([imageId]).get(imageId) ?? []) };
+}
+
+// The signed-in user's images, or the anonymous ones for visitors who aren't signed in
+export async function listImagesAction(): Promise<StoredImage[]> {
+  try {
+    const user = await getCurrentUser();
+    return toStoredImages(listImages(user?.id ?? null));
+  } catch (e) {
+    console.error('Error listing images:', e);
+    return [];
+  }
+}
+
+// Searches the same images listImagesAction() lists, by name and tags
+export async function searchImagesAction(input: z.input<typeof ImageSearchSchema>): Promise<StoredImage[]> {
+  const parsed = ImageSearchSchema.safeParse(input);
+  if (!parsed.success) {
+    return [];
+  }
+  try {
+    const user = await getCurrentUser();
+    return toStoredImages(searchImages(user?.id ?? null, { ...parsed.data, limit: SEARCH_RESULT_LIMIT }));
+  } catch (e) {
+    console.error('Error searching images:', e);
+    return [];
+  }
+}
+
+// Tags to offer as search filters, with how many of the listed images carry each
+export async function listTagsAction(): Promise<{ tag: string; count: number }[]> {
+  const user = await getCurrentUser();
+  return listTagCounts(user?.id ?? null);
+}
+
+// Replaces an image's confirmed tags; pending suggestions stay until they're reviewed
+export async function setImageTagsAction(imageId: string, tags: string[], deletionToken?: string): Promise<ImageTagsResult> {
+  const image = getImage(String(imageId));
+  if (!image || !(await canEditImage(image, deletionToken))) {
+    return { success: false, error: 'You can only tag your own images.' };
+  }
+
+  const parsed = TagListSchema.safeParse(tags);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Invalid tags.' };
+  }
+  setImageTags(image.id, parsed.data);
+  return currentTags(image.id);
+}
+
+// Keeps a machine-suggested tag as a confirmed one, or removes it
+export async function reviewSuggestedTagAction(imageId: string, tag: string, accept: boolean, deletionToken?: string): Promise<ImageTagsResult> {
+  const image = getImage(String(imageId));
+  if (!image || !(await canEditImage(image, deletionToken))) {
+    return { success: false, error: 'You can only tag your own images.' };
+  }
+  if (!reviewSuggestedImageTag(image.id, normalizeTag(String(tag)), accept === true)) {
+    return { success: false, error: 'That tag is no longer suggested for this image.' };
+  }
+  return currentTags(image.id);
+}
+
+// Replaces an image's alt text and caption. Empty values clear them.
+export async function updateImageDescriptionAction(
+  imageId: string,
+  description: z.input<typeof ImageDescriptionSchema>,
+  deletionToken?: string
+): Promise<ImageDescriptionResult> {
+  const image = getImage(String(imageId));
+  if (!image || !(await canEditImage(image, deletionToken))) {
+    return { success: false, error: 'You can only edit your own images.' };
+  }
+
+  const parsed = ImageDescriptionSchema.safeParse(description);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Invalid description.' };
+  }
+  const altText = parsed.data.altText || null;
+  const caption = parsed.data.caption || null;
+  updateImageDescription(image.id, { altText, caption });
+  return { success: true, altText, caption };
+}
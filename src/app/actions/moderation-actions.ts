@@ -0,0 +1,49 @@
+'use server';
+
+import { isAdmin } from '@/lib/admin';
+import { deleteImage } from '@/lib/image-deletion';
+import { approveQuarantinedImage, getImage } from '@/lib/image-store';
+import { getCurrentUser } from '@/lib/session';
+import { emitWebhookEvent, toWebhookImage } from '@/lib/webhooks';
+
+export interface ModerationActionResult {
+  success: boolean;
+  error?: string;
+}
+
+const NOT_ALLOWED: ModerationActionResult = { success: false, error: 'Only admins can review uploads.' };
+
+// Publishes a quarantined image: from now on it's served and listed like any other
+export async function approveImageAction(imageId: string): Promise<ModerationActionResult> {
+  if (!isAdmin(await getCurrentUser())) {
+    return NOT_ALLOWED;
+  }
+  if (!approveQuarantinedImage(String(imageId), new Date().toISOString())) {
+    return { success: false, error: 'That image is no longer waiting for review.' };
+  }
+  const image = getImage(String(imageId));
+  if (image) {
+    emitWebhookEvent('image.moderated', { image: await toWebhookImage(image), decision: 'approved', reason: image.moderationReason });
+  }
+  return { success: true };
+}
+
+// Deletes a quarantined image along with its files, as if the uploader had deleted it
+export async function rejectImageAction(imageId: string): Promise<ModerationActionResult> {
+  if (!isAdmin(await getCurrentUser())) {
+    return NOT_ALLOWED;
+  }
+  const image = getImage(String(imageId));
+  if (!image || image.moderationStatus !== 'quarantined') {
+    return { success: false, error: 'That image is no longer waiting for review.' };
+  }
+  try {
+    const webhookImage = await toWebhookImage(image);
+    await deleteImage(image);
+    emitWebhookEvent('image.moderated', { image: webhookImage, decision: 'rejected', reason: image.moderationReason });
+    return { success: true };
+  } catch (error) {
+    console.error(`Error deleting rejected image ${image.id}:`, error);
+    return { success: false, error: 'Failed to delete image. Please try again later.' };
+  }
+}
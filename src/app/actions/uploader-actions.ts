@@ -0,0 +1,33 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { createApiKey } from '@/lib/api-keys';
+import { getAppOrigin } from '@/lib/request-origin';
+import { getCurrentUser } from '@/lib/session';
+import { buildUploaderConfig, UPLOADER_TOOL_NAMES, type UploaderConfigFile, type UploaderTool } from '@/lib/uploader-configs';
+
+export interface UploaderConfigResult {
+  success: boolean;
+  file?: UploaderConfigFile;
+  error?: string;
+}
+
+/**
+ * Creates an upload-only API key for a screenshot tool and returns a config file with the key
+ * baked in. Like any new key it can't be shown again, so each download gets a fresh key.
+ */
+export async function createUploaderConfigAction(tool: UploaderTool): Promise<UploaderConfigResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { success: false, error: 'Please sign in to set up an uploader.' };
+  }
+  if (!Object.hasOwn(UPLOADER_TOOL_NAMES, tool)) {
+    return { success: false, error: 'Unknown uploader.' };
+  }
+
+  const result = createApiKey(user.id, { name: UPLOADER_TOOL_NAMES[tool], scopes: ['upload'] });
+  if (!result.success) {
+    return result;
+  }
+  return { success: true, file: buildUploaderConfig(tool, getAppOrigin(await headers()), result.key) };
+}
@@ -0,0 +1,51 @@
+'use server';
+
+import { isAdmin } from '@/lib/admin';
+import { getCurrentUser } from '@/lib/session';
+import type { WebhookEvent } from '@/lib/webhook-events';
+import { deleteWebhook } from '@/lib/webhook-store';
+import { createWebhook, redeliverWebhook, toWebhookSummary, type WebhookSummary } from '@/lib/webhooks';
+
+export type { WebhookSummary } from '@/lib/webhooks';
+
+export interface WebhookActionResult {
+  success: boolean;
+  webhook?: WebhookSummary;
+  secret?: string; // The new webhook's signing secret, returned once on creation
+  error?: string;
+}
+
+const NOT_ALLOWED: WebhookActionResult = { success: false, error: 'Only admins can manage webhooks.' };
+
+export async function createWebhookAction(url: string, events: WebhookEvent[]): Promise<WebhookActionResult> {
+  const user = await getCurrentUser();
+  if (!user || !isAdmin(user)) {
+    return NOT_ALLOWED;
+  }
+  const result = createWebhook(user.id, { url: String(url), events });
+  if (!result.success) {
+    return result;
+  }
+  return { success: true, webhook: toWebhookSummary(result.webhook), secret: result.webhook.secret };
+}
+
+// Pending deliveries to it are dropped along with the log
+export async function deleteWebhookAction(id: string): Promise<WebhookActionResult> {
+  if (!isAdmin(await getCurrentUser())) {
+    return NOT_ALLOWED;
+  }
+  if (!deleteWebhook(String(id))) {
+    return { success: false, error: 'Webhook not found.' };
+  }
+  return { success: true };
+}
+
+export async function redeliverWebhookAction(deliveryId: string): Promise<WebhookActionResult> {
+  if (!isAdmin(await getCurrentUser())) {
+    return NOT_ALLOWED;
+  }
+  if (!redeliverWebhook(String(deliveryId))) {
+    return { success: false, error: 'Only deliveries that have stopped retrying can be redelivered.' };
+  }
+  return { success: true };
+}
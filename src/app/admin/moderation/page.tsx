@@ -0,0 +1,46 @@
+import type { Metadata } from 'next';
+import { notFound, redirect } from 'next/navigation';
+import { ModerationQueue, type QueuedImage } from '@/components/moderation-queue';
+import { isAdmin } from '@/lib/admin';
+import { getUserById } from '@/lib/auth-store';
+import { listQuarantinedImages } from '@/lib/image-store';
+import { getCurrentUser } from '@/lib/session';
+import { toStoredImages } from '@/lib/stored-image';
+
+export const metadata: Metadata = {
+  title: 'Review queue - ImageDrop',
+};
+
+// Uploads the classifier flagged, for an admin to approve or reject
+export default async function ModerationPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/sign-in?next=/admin/moderation');
+  }
+  if (!isAdmin(user)) {
+    notFound();
+  }
+
+  const records = listQuarantinedImages();
+  const recordsById = new Map(records.map((record) => [record.id, record]));
+  const images: QueuedImage[] = toStoredImages(records).map((image) => {
+    const record = recordsById.get(image.id)!;
+    return {
+      ...image,
+      reason: record.moderationReason,
+      uploaderEmail: record.userId ? getUserById(record.userId)?.email ?? null : null,
+    };
+  });
+
+  return (
+    <main className="flex-grow container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-semibold text-foreground">Review queue</h2>
+        <p className="text-sm text-muted-foreground">
+          Flagged uploads aren&apos;t served to anyone but admins until they are approved. Rejecting an upload deletes it.
+        </p>
+      </div>
+      <ModerationQueue initialImages={images} />
+    </main>
+  );
+}
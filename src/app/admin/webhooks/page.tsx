@@ -0,0 +1,42 @@
+import type { Metadata } from 'next';
+import { notFound, redirect } from 'next/navigation';
+import { WebhookManager } from '@/components/webhook-manager';
+import { isAdmin } from '@/lib/admin';
+import { getCurrentUser } from '@/lib/session';
+import { listWebhookDeliveries, listWebhooks } from '@/lib/webhook-store';
+import { toWebhookDeliverySummary, toWebhookSummary } from '@/lib/webhooks';
+
+export const metadata: Metadata = {
+  title: 'Webhooks - ImageDrop',
+};
+
+const DELIVERY_LOG_SIZE = 100;
+
+export default async function WebhooksPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/sign-in?next=/admin/webhooks');
+  }
+  if (!isAdmin(user)) {
+    notFound();
+  }
+
+  const webhooks = listWebhooks();
+  const deliveries = listWebhookDeliveries({ limit: DELIVERY_LOG_SIZE }).map((delivery) => toWebhookDeliverySummary(delivery, webhooks));
+  const deadDeliveries = listWebhookDeliveries({ status: 'dead', limit: DELIVERY_LOG_SIZE }).map((delivery) => toWebhookDeliverySummary(delivery, webhooks));
+
+  return (
+    <main className="flex-grow container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-semibold text-foreground">Webhooks</h2>
+        <p className="text-sm text-muted-foreground">
+          Each event is POSTed as JSON to every endpoint subscribed to it, signed in the{' '}
+          <code className="rounded bg-muted px-1">X-ImageDrop-Signature</code> header as{' '}
+          <code className="rounded bg-muted px-1">t=&lt;unix time&gt;,v1=&lt;HMAC-SHA256 of &quot;t.body&quot;&gt;</code>. Failed deliveries are
+          retried with growing delays for about two hours, then kept under dead letters until you redeliver them.
+        </p>
+      </div>
+      <WebhookManager initialWebhooks={webhooks.map(toWebhookSummary)} deliveries={deliveries} deadDeliveries={deadDeliveries} />
+    </main>
+  );
+}
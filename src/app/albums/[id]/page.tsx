@@ -0,0 +1,43 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { ChevronLeft } from 'lucide-react';
+import { AlbumEditor } from '@/components/album-editor';
+import { getAlbum } from '@/lib/album-store';
+import { listAlbumImages, listImages } from '@/lib/image-store';
+import { getCurrentUser } from '@/lib/session';
+import { toStoredImages } from '@/lib/stored-image';
+
+export const metadata: Metadata = {
+  title: 'Edit album - ImageDrop',
+};
+
+// Where the owner manages an album; everyone else sees it at /a/<id>
+export default async function EditAlbumPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(`/sign-in?next=/albums/${id}`);
+  }
+  const album = getAlbum(id);
+  if (!album || album.userId !== user.id) {
+    notFound();
+  }
+
+  const albumImages = listAlbumImages(album.id);
+  const albumImageIds = new Set(albumImages.map((image) => image.id));
+  const candidates = listImages(user.id).filter((image) => !albumImageIds.has(image.id));
+
+  return (
+    <main className="flex-grow container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+      <Link href="/albums" className="mb-4 inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+        <ChevronLeft className="mr-1 h-4 w-4" /> All albums
+      </Link>
+      <AlbumEditor
+        album={{ id: album.id, title: album.title, coverImageId: album.coverImageId }}
+        images={toStoredImages(albumImages)}
+        candidates={toStoredImages(candidates)}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,74 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { CreateAlbumForm } from '@/components/create-album-form';
+import { ResponsiveImage } from '@/components/responsive-image';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { listUserAlbums } from '@/lib/album-store';
+import { getImage, type ImageRecord } from '@/lib/image-store';
+import { getCurrentUser } from '@/lib/session';
+import { toStoredImages } from '@/lib/stored-image';
+
+export const metadata: Metadata = {
+  title: 'Albums - ImageDrop',
+};
+
+// Matches the album grid: 1 column, then 2 from sm, 3 from lg
+const ALBUM_CARD_SIZES = '(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw';
+
+export default async function AlbumsPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/sign-in?next=/albums');
+  }
+
+  const albums = listUserAlbums(user.id);
+  const previewRecords = albums.map((album) => (album.previewImageId ? getImage(album.previewImageId) : null)).filter((image): image is ImageRecord => !!image);
+  const previews = new Map(toStoredImages(previewRecords).map((image) => [image.id, image]));
+
+  return (
+    <main className="flex-grow container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-foreground">Albums</h2>
+          <p className="text-sm text-muted-foreground">Group related images and share them with a single link.</p>
+        </div>
+        <CreateAlbumForm />
+      </div>
+
+      {albums.length === 0 ? (
+        <p className="py-10 text-center text-lg text-muted-foreground">No albums yet. Create one above, or pick one when uploading.</p>
+      ) : (
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+          {albums.map((album) => {
+            const preview = album.previewImageId ? previews.get(album.previewImageId) : undefined;
+            return (
+              <Link key={album.id} href={`/albums/${album.id}`} className="group">
+                <Card className="overflow-hidden shadow-lg transition-all duration-300 ease-in-out group-hover:-translate-y-1 group-hover:shadow-xl">
+                  <div className="relative aspect-[4/3] bg-muted">
+                    {preview && (
+                      <ResponsiveImage
+                        src={preview.url}
+                        alt=""
+                        sizes={ALBUM_CARD_SIZES}
+                        mimeType={preview.mimeType}
+                        originalWidth={preview.width}
+                        variants={preview.variants}
+                        loading="lazy"
+                        className="absolute inset-0 h-full w-full object-cover"
+                      />
+                    )}
+                  </div>
+                  <CardHeader className="p-4">
+                    <CardTitle className="truncate text-base font-semibold" title={album.title}>{album.title}</CardTitle>
+                    <CardDescription>{album.imageCount === 1 ? '1 image' : `${album.imageCount} images`}</CardDescription>
+                  </CardHeader>
+                </Card>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { deleteImage, isValidDeletionToken } from '@/lib/image-deletion';
+import { getImage } from '@/lib/image-store';
+
+// Deletes an image given the deletion token issued when it was uploaded, sent as X-Deletion-Token
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const token = request.headers.get('x-deletion-token');
+  if (!token) {
+    return NextResponse.json({ success: false, error: 'Missing X-Deletion-Token header.' }, { status: 400 });
+  }
+
+  try {
+    const image = getImage(id);
+    if (!image) {
+      return NextResponse.json({ success: false, error: 'Image not found.' }, { status: 404 });
+    }
+    if (!isValidDeletionToken(image, token)) {
+      return NextResponse.json({ success: false, error: 'Invalid deletion token.' }, { status: 403 });
+    }
+    await deleteImage(image);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error(`Error deleting image ${id}:`, error);
+    return NextResponse.json({ success: false, error: 'Failed to delete image. Please try again later.' }, { status: 500 });
+  }
+}
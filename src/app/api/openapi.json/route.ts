@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+import { getAppOrigin } from '@/lib/request-origin';
+
+// The OpenAPI document for /api/v1, rendered at /docs/api
+export async function GET(request: Request) {
+  return NextResponse.json(buildOpenApiDocument(getAppOrigin(request.headers)));
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { isSameOriginRequest } from '@/lib/request-origin';
+import { getCurrentUser } from '@/lib/session';
+import { appendTusChunk, getActiveTusUpload, getOwnTusUpload, terminateTusUpload, TusError } from '@/lib/tus-service';
+import { checkTusResumable, tusErrorResponse, tusHeaders } from '@/lib/tus-http';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function offsetHeaders(upload: { uploadOffset: number; uploadLength: number; expiresAt: string }) {
+  return {
+    ...tusHeaders,
+    'Upload-Offset': String(upload.uploadOffset),
+    'Upload-Length': String(upload.uploadLength),
+    'Upload-Expires': new Date(upload.expiresAt).toUTCString(),
+  };
+}
+
+// How far the server got, so the client knows where to resume from
+export async function HEAD(request: Request, { params }: RouteContext) {
+  const versionError = checkTusResumable(request);
+  if (versionError) return versionError;
+
+  try {
+    const upload = getActiveTusUpload((await params).id);
+    return new Response(null, { status: 200, headers: offsetHeaders(upload) });
+  } catch (error) {
+    return tusErrorResponse(error);
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const versionError = checkTusResumable(request);
+  if (versionError) return versionError;
+  if (!isSameOriginRequest(request)) {
+    return new Response('Cross-origin uploads are not allowed.', { status: 403, headers: tusHeaders });
+  }
+  if (request.headers.get('content-type') !== 'application/offset+octet-stream') {
+    return new Response('Content-Type must be application/offset+octet-stream.', { status: 415, headers: tusHeaders });
+  }
+
+  try {
+    const offset = Number(request.headers.get('upload-offset'));
+    if (!Number.isSafeInteger(offset) || offset < 0) {
+      throw new TusError(400, 'Upload-Offset must be a non-negative integer.');
+    }
+    if (!request.body) {
+      throw new TusError(400, 'Missing request body.');
+    }
+    const upload = await appendTusChunk((await params).id, offset, request.body);
+    if (upload.result) {
+      // The chunk that completed the upload is answered with its outcome, deletion token included
+      return NextResponse.json(upload.result, { headers: offsetHeaders(upload) });
+    }
+    return new Response(null, { status: 204, headers: offsetHeaders(upload) });
+  } catch (error) {
+    return tusErrorResponse(error);
+  }
+}
+
+// Termination extension
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const versionError = checkTusResumable(request);
+  if (versionError) return versionError;
+  if (!isSameOriginRequest(request)) {
+    return new Response('Cross-origin requests are not allowed.', { status: 403, headers: tusHeaders });
+  }
+
+  try {
+    await terminateTusUpload((await params).id);
+    return new Response(null, { status: 204, headers: tusHeaders });
+  } catch (error) {
+    return tusErrorResponse(error);
+  }
+}
+
+// Not part of tus: once every byte is in, returns the UploadImageResponse the final PATCH answered
+// with, minus the deletion token, to whoever created the upload. For when that response was lost.
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const user = await getCurrentUser();
+    const upload = getOwnTusUpload((await params).id, user?.id ?? null);
+    if (!upload.result) {
+      return new Response('Upload is not complete.', { status: 409, headers: offsetHeaders(upload) });
+    }
+    return NextResponse.json(upload.result, { headers: tusHeaders });
+  } catch (error) {
+    return tusErrorResponse(error);
+  }
+}
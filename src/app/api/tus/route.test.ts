@@ -0,0 +1,92 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/tus/route';
+import { GET, PATCH } from '@/app/api/tus/[id]/route';
+import { getStorage } from '@/lib/storage';
+import { getTusUpload } from '@/lib/tus-store';
+import { runInRequest } from '@/test/next-headers';
+import { createSignedInUser } from '@/test/users';
+
+const PHOTO = fs.readFileSync(path.join(__dirname, '../../../lib/__fixtures__/gps-upright.jpg'));
+const TUS_HEADERS = { 'Tus-Resumable': '1.0.0' };
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${Buffer.from(value).toString('base64')}`)
+    .join(',');
+
+async function createUpload(cookie = ''): Promise<string> {
+  const request = new Request('http://localhost/api/tus', {
+    method: 'POST',
+    headers: {
+      ...TUS_HEADERS,
+      cookie,
+      'Upload-Length': String(PHOTO.length),
+      'Upload-Metadata': encodeMetadata({ filename: 'photo.jpg', filetype: 'image/jpeg' }),
+    },
+  });
+  const response = await runInRequest(request, () => POST(request));
+  expect(response.status).toBe(201);
+  return response.headers.get('location')!.split('/').pop()!;
+}
+
+function sendBytes(id: string, offset: number, bytes: Buffer) {
+  const request = new Request(`http://localhost/api/tus/${id}`, {
+    method: 'PATCH',
+    headers: { ...TUS_HEADERS, 'Content-Type': 'application/offset+octet-stream', 'Upload-Offset': String(offset) },
+    body: bytes,
+  });
+  return runInRequest(request, () => PATCH(request, { params: Promise.resolve({ id }) }));
+}
+
+function getOutcome(id: string, cookie = '') {
+  const request = new Request(`http://localhost/api/tus/${id}`, { headers: { cookie } });
+  return runInRequest(request, () => GET(request, { params: Promise.resolve({ id }) }));
+}
+
+describe('tus uploads', () => {
+  it('answers the final PATCH with the deletion token, and never stores it', async () => {
+    const id = await createUpload();
+
+    const partial = await sendBytes(id, 0, PHOTO.subarray(0, 100));
+    expect(partial.status).toBe(204);
+    const final = await sendBytes(id, 100, PHOTO.subarray(100));
+    expect(final.status).toBe(200);
+    expect(final.headers.get('upload-offset')).toBe(String(PHOTO.length));
+    const outcome = await final.json();
+    expect(outcome).toMatchObject({ success: true, deletionToken: expect.any(String) });
+
+    expect(getTusUpload(id)?.result).toMatchObject({ success: true, id: outcome.id });
+    expect(getTusUpload(id)?.result).not.toHaveProperty('deletionToken');
+    const fetched = await getOutcome(id);
+    expect(fetched.status).toBe(200);
+    expect(await fetched.json()).not.toHaveProperty('deletionToken');
+  });
+
+  it('assembles the winning chunk when two PATCHes race for the same offset', async () => {
+    const id = await createUpload();
+    await sendBytes(id, 0, PHOTO.subarray(0, 100));
+
+    const responses = await Promise.all([sendBytes(id, 100, PHOTO.subarray(100)), sendBytes(id, 100, PHOTO.subarray(100))]);
+    expect(responses.map((response) => response.status).sort()).toEqual([200, 409]);
+    const winner = responses.find((response) => response.status === 200)!;
+    expect(await winner.json()).toMatchObject({ success: true, size: expect.any(Number) });
+    expect(await getStorage().list(`tus/${id}/`)).toEqual([]);
+  });
+
+  it('only shows the outcome to whoever created the upload', async () => {
+    const owner = await createSignedInUser();
+    const other = await createSignedInUser();
+    const id = await createUpload(owner.cookie);
+    await sendBytes(id, 0, PHOTO);
+
+    expect((await getOutcome(id)).status).toBe(404);
+    expect((await getOutcome(id, other.cookie)).status).toBe(404);
+    expect((await getOutcome(id, owner.cookie)).status).toBe(200);
+
+    const anonymousId = await createUpload();
+    await sendBytes(anonymousId, 0, PHOTO);
+    expect((await getOutcome(anonymousId, owner.cookie)).status).toBe(404);
+  });
+});
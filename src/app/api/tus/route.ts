@@ -0,0 +1,36 @@
+import { isSameOriginRequest } from '@/lib/request-origin';
+import { getCurrentUser } from '@/lib/session';
+import { createTusUpload, parseUploadMetadata } from '@/lib/tus-service';
+import { checkTusResumable, tusDiscoveryHeaders, tusErrorResponse, tusHeaders } from '@/lib/tus-http';
+
+export async function OPTIONS() {
+  return new Response(null, { status: 204, headers: tusDiscoveryHeaders });
+}
+
+// Creation extension: reserve an upload and tell the client where to PATCH its bytes
+export async function POST(request: Request) {
+  const versionError = checkTusResumable(request);
+  if (versionError) return versionError;
+  if (!isSameOriginRequest(request)) {
+    return new Response('Cross-origin uploads are not allowed.', { status: 403, headers: tusHeaders });
+  }
+
+  try {
+    const user = await getCurrentUser();
+    const upload = createTusUpload(
+      Number(request.headers.get('upload-length')),
+      parseUploadMetadata(request.headers.get('upload-metadata')),
+      user?.id ?? null
+    );
+    return new Response(null, {
+      status: 201,
+      headers: {
+        ...tusHeaders,
+        Location: `/api/tus/${upload.id}`,
+        'Upload-Expires': new Date(upload.expiresAt).toUTCString(),
+      },
+    });
+  } catch (error) {
+    return tusErrorResponse(error);
+  }
+}
@@ -0,0 +1,42 @@
+import { ApiError, apiErrorResponse, apiJson, authenticateApiRequest, ImageResponseSchema, isVisibleTo, toApiImages } from '@/lib/api-v1';
+import { deleteImage, isValidDeletionToken } from '@/lib/image-deletion';
+import { getImage } from '@/lib/image-store';
+import { getAppOrigin } from '@/lib/request-origin';
+
+type ImageRouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: ImageRouteContext) {
+  try {
+    const user = await authenticateApiRequest(request, 'read');
+    const image = getImage((await params).id);
+    if (!image || !isVisibleTo(image, user)) {
+      throw new ApiError(404, 'NOT_FOUND', 'Image not found.');
+    }
+    const [data] = toApiImages([image], getAppOrigin(request.headers));
+    return apiJson(ImageResponseSchema, { data });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+// Owners can delete their images; anonymous uploads need the deletion token sent as X-Deletion-Token
+export async function DELETE(request: Request, { params }: ImageRouteContext) {
+  try {
+    const user = await authenticateApiRequest(request, 'delete');
+    const image = getImage((await params).id);
+    if (!image) {
+      throw new ApiError(404, 'NOT_FOUND', 'Image not found.');
+    }
+
+    // Quarantined images can be deleted too, so uploaders can withdraw them
+    const token = request.headers.get('x-deletion-token');
+    const isOwner = !!user && image.userId === user.id;
+    if (!isOwner && !(token && isValidDeletionToken(image, token))) {
+      throw new ApiError(403, 'FORBIDDEN', token ? 'Invalid deletion token.' : 'You can only delete your own images.');
+    }
+    await deleteImage(image);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  ApiError,
+  apiErrorResponse,
+  apiJson,
+  authenticateApiRequest,
+  decodeCursor,
+  encodeCursor,
+  ImageListParamsSchema,
+  ImageListResponseSchema,
+  receiveApiUpload,
+  toApiImages,
+  UploadedImageResponseSchema,
+} from '@/lib/api-v1';
+import { listImagesPage } from '@/lib/image-store';
+import { getAppOrigin } from '@/lib/request-origin';
+
+// The same images the gallery lists: the caller's own, or anonymous uploads for anonymous callers.
+// Newest first; pass `nextCursor` back as `cursor` for the next page, until it is null.
+export async function GET(request: Request) {
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const parsed = ImageListParamsSchema.safeParse(Object.fromEntries(searchParams));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new ApiError(400, 'INVALID_REQUEST', issue ? `${issue.path.join('.')}: ${issue.message}` : 'Invalid query parameters.');
+    }
+    const { limit, cursor } = parsed.data;
+
+    const user = await authenticateApiRequest(request, 'read');
+    // One extra row tells whether there is another page
+    const records = listImagesPage(user?.id ?? null, { after: cursor ? decodeCursor(cursor) : null, limit: limit + 1 });
+    const page = records.slice(0, limit);
+    const last = page.at(-1);
+    return apiJson(ImageListResponseSchema, {
+      data: toApiImages(page, getAppOrigin(request.headers)),
+      nextCursor: records.length > limit && last ? encodeCursor(last) : null,
+    });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+// Uploads one image, sent either as the `file` field of a multipart/form-data body or as the raw body
+export async function POST(request: Request) {
+  try {
+    // Uploads are attributed to the key's owner, just like uploads made while signed in
+    const user = await authenticateApiRequest(request, 'upload');
+    const { image, deletionToken } = await receiveApiUpload(request, user?.id ?? null);
+    const [data] = toApiImages([image], getAppOrigin(request.headers));
+    return apiJson(
+      UploadedImageResponseSchema,
+      // The deletion token is only ever returned here
+      { data: { ...data, deletionToken } },
+      { status: 201, headers: { Location: `/api/v1/images/${image.id}` } }
+    );
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
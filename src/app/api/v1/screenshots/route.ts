@@ -0,0 +1,35 @@
+import { apiErrorResponse, apiJson, authenticateApiRequest, receiveApiUpload, ScreenshotResponseSchema, toApiImages } from '@/lib/api-v1';
+import { deletionPageUrl } from '@/lib/image-sources';
+import { getAppOrigin } from '@/lib/request-origin';
+
+/**
+ * Uploads for screenshot tools such as ShareX and Flameshot (see /settings/uploaders). Takes the
+ * same bodies as POST /api/v1/images, but answers with a flat object of links those tools can
+ * pick out, or with `?format=text` just the image URL, for shell scripts.
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await authenticateApiRequest(request, 'upload');
+    const { image, deletionToken } = await receiveApiUpload(request, user?.id ?? null);
+    const origin = getAppOrigin(request.headers);
+    const [uploaded] = toApiImages([image], origin);
+
+    if (new URL(request.url).searchParams.get('format') === 'text') {
+      return new Response(`${uploaded.url}\n`, { status: 201, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+    }
+    return apiJson(
+      ScreenshotResponseSchema,
+      {
+        id: uploaded.id,
+        url: uploaded.url,
+        shortUrl: uploaded.shortUrl,
+        thumbnailUrl: uploaded.variants.find((variant) => variant.name === 'thumb')?.url ?? uploaded.url,
+        deletionUrl: `${origin}${deletionPageUrl(uploaded.id, deletionToken)}`,
+        moderationStatus: uploaded.moderationStatus,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,31 @@
+import type { Metadata } from 'next';
+import { DeleteImageConfirm } from '@/components/delete-image-confirm';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { getImage } from '@/lib/image-store';
+
+export const metadata: Metadata = {
+  title: 'Delete image - ImageDrop',
+};
+
+// Where deletion links handed out to screenshot tools lead. The token is in the URL fragment,
+// so only the browser sees it and the actual deletion happens client-side.
+export default async function DeleteImagePage({ params }: { params: Promise<{ id: string }> }) {
+  const image = getImage((await params).id);
+
+  return (
+    <main className="flex-grow container mx-auto flex items-start justify-center px-4 py-16 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md">
+        {image ? (
+          <DeleteImageConfirm imageId={image.id} name={image.originalName} />
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Image not found</CardTitle>
+              <CardDescription>It may have been deleted already.</CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+      </div>
+    </main>
+  );
+}
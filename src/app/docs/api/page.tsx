@@ -0,0 +1,23 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { ApiReference } from '@/components/api-reference';
+
+export const metadata: Metadata = {
+  title: 'API reference - ImageDrop',
+};
+
+export default function ApiReferencePage() {
+  return (
+    <main className="flex-grow container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-semibold text-foreground">API reference</h2>
+        <p className="text-sm text-muted-foreground">
+          Every <code className="rounded bg-muted px-1">/api/v1</code> endpoint, generated from the same schemas the API answers with.
+          The raw document is at <a href="/api/openapi.json" className="underline underline-offset-4">/api/openapi.json</a>.
+          Scripts authenticate with an <Link href="/settings/api-keys" className="underline underline-offset-4">API key</Link>.
+        </p>
+      </div>
+      <ApiReference />
+    </main>
+  );
+}
@@ -0,0 +1,98 @@
+import { Readable } from 'node:stream';
+import sharp from 'sharp';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { GET } from '@/app/i/[id]/route';
+import { processIncomingUpload } from '@/lib/upload-service';
+import { runInRequest } from '@/test/next-headers';
+
+const SIZE = 10;
+
+// A 10x10 GIF with a red frame then a blue one. sharp can read animations but not assemble one from
+// scratch, so the bytes are written out here. The LZW data restarts (clear code) every two pixels,
+// which keeps every code 3 bits wide and avoids needing a real compressor.
+function twoFrameGif(): Buffer {
+  const CLEAR = 4;
+  const END = 5;
+  const frame = (colour: number) => {
+    const codes = [];
+    for (let pixel = 0; pixel < SIZE * SIZE; pixel += 2) codes.push(CLEAR, colour, colour);
+    codes.push(END);
+
+    const data: number[] = [];
+    codes.forEach((code, index) => {
+      for (let bit = 0; bit < 3; bit++) {
+        const position = index * 3 + bit;
+        data[position >> 3] = (data[position >> 3] ?? 0) | (((code >> bit) & 1) << (position & 7));
+      }
+    });
+    return [
+      0x21, 0xf9, 0x04, 0x00, 0x0a, 0x00, 0x00, 0x00, // Graphic control: 100ms delay
+      0x2c, 0x00, 0x00, 0x00, 0x00, SIZE, 0x00, SIZE, 0x00, 0x00, // The frame covers the whole image
+      0x02, data.length, ...data, 0x00, // Minimum code size, then one sub-block of LZW data
+    ];
+  };
+
+  return Buffer.from([
+    ...Buffer.from('GIF89a'),
+    SIZE, 0x00, SIZE, 0x00, 0xf1, 0x00, 0x00, // 4-colour global palette follows
+    0x00, 0x00, 0x00, 0xff, 0x00, 0x00, 0x00, 0x00, 0xff, 0xff, 0xff, 0xff, // Black, red, blue, white
+    0x21, 0xff, 0x0b, ...Buffer.from('NETSCAPE2.0'), 0x03, 0x01, 0x00, 0x00, 0x00, // Loop forever
+    ...frame(1),
+    ...frame(2),
+    0x3b,
+  ]);
+}
+
+let gifId: string;
+
+beforeAll(async () => {
+  const result = await processIncomingUpload({ name: 'blink.gif', type: 'image/gif', body: Readable.from([twoFrameGif()]) });
+  if (!result.success) throw new Error(result.error);
+  gifId = result.id!;
+});
+
+function transform(id: string, query: string) {
+  const request = new Request(`http://localhost/i/${id}?${query}`);
+  return runInRequest(request, () => GET(request, { params: Promise.resolve({ id }) }));
+}
+
+async function rendered(query: string) {
+  const response = await transform(gifId, query);
+  expect(response.status).toBe(200);
+  return { contentType: response.headers.get('content-type'), metadata: await sharp(Buffer.from(await response.arrayBuffer())).metadata() };
+}
+
+describe('image transforms', () => {
+  it('renders still formats from the first frame of an animation', async () => {
+    for (const fmt of ['jpeg', 'png', 'avif']) {
+      const { contentType, metadata } = await rendered(`fmt=${fmt}&q=80`);
+      expect(contentType).toBe(`image/${fmt}`);
+      expect([metadata.width, metadata.height, metadata.pages ?? 1]).toEqual([SIZE, SIZE, 1]);
+    }
+
+    const { data } = await sharp(Buffer.from(await (await transform(gifId, 'fmt=png')).arrayBuffer())).raw().toBuffer({ resolveWithObject: true });
+    expect([...data.subarray(0, 3)]).toEqual([0xff, 0x00, 0x00]);
+  });
+
+  it('keeps every frame when the output can be animated', async () => {
+    for (const query of ['fmt=original', 'fmt=webp']) {
+      const { metadata } = await rendered(query);
+      expect(metadata).toMatchObject({ width: SIZE, height: SIZE, pages: 2 });
+    }
+  });
+
+  it('only accepts parameters from the allow-lists', async () => {
+    const rejected = ['w=123', 'h=10000', 'q=100', 'fit=stretch', 'fmt=tiff', 'w=abc', 'w=400&blur=5'];
+    for (const query of rejected) {
+      const response = await transform(gifId, query);
+      expect(response.status, query).toBe(400);
+      expect(await response.json(), query).toHaveProperty('errors');
+    }
+
+    expect((await transform(gifId, 'w=16&h=16&fit=contain&fmt=webp&q=40')).status).toBe(200);
+  });
+
+  it('answers 404 for images that do not exist', async () => {
+    expect((await transform('missing', 'w=16')).status).toBe(404);
+  });
+});
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { canViewImage } from '@/lib/admin';
+import { uploadUrl } from '@/lib/image-sources';
+import { getImage } from '@/lib/image-store';
+import { getTransformedImage, TransformParamsSchema } from '@/lib/image-transform';
+
+// On-the-fly renditions, e.g. /i/<id>?w=400&h=300&fit=cover&fmt=avif&q=70
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const image = getImage(id);
+  if (!image || !(await canViewImage(image))) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  if (searchParams.size === 0) {
+    return NextResponse.redirect(new URL(uploadUrl(image.storedFilename), request.url));
+  }
+
+  const parsed = TransformParamsSchema.safeParse(Object.fromEntries(searchParams));
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const transformed = await getTransformedImage(image, parsed.data);
+    if (!transformed) {
+      return new Response('Not found', { status: 404 });
+    }
+    return new Response(transformed.data, {
+      headers: {
+        'Content-Type': transformed.contentType,
+        'Content-Length': String(transformed.data.length),
+        // A rendition of an upload never changes, but quarantined ones are for admins' eyes only
+        'Cache-Control': image.moderationStatus === 'approved' ? 'public, max-age=31536000, immutable' : 'private, no-store',
+        'X-Transform-Cache': transformed.cacheHit ? 'HIT' : 'MISS',
+      },
+    });
+  } catch (error) {
+    console.error(`Error transforming image ${id}:`, error);
+    return new Response('Could not transform image', { status: 500 });
+  }
+}
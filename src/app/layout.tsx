@@ -3,6 +3,7 @@ import { GeistSans } from 'geist/font/sans';
 import './globals.css';
 import { Toaster } from "@/components/ui/toaster";
 import { ThemeProvider } from '@/components/theme-provider';
+import { SiteHeader } from '@/components/site-header';
 
 export const metadata: Metadata = {
   title: 'ImageDrop - Free Image Hosting',
@@ -23,7 +24,10 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          {children}
+          <div className="flex min-h-screen flex-col bg-background">
+            <SiteHeader />
+            {children}
+          </div>
           <Toaster />
         </ThemeProvider>
       </body>
@@ -0,0 +1,81 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { z } from 'zod';
+import { ImageGrid } from '@/components/image-grid';
+import { LibrarySortSelect } from '@/components/library-sort-select';
+import { Button } from '@/components/ui/button';
+import { listUserImagesPage } from '@/lib/image-store';
+import { getCurrentUser } from '@/lib/session';
+import { toStoredImages } from '@/lib/stored-image';
+
+export const metadata: Metadata = {
+  title: 'My images - ImageDrop',
+};
+
+const PAGE_SIZE = 24;
+
+// Anything unexpected in the URL falls back to the defaults rather than erroring
+const LibraryParamsSchema = z.object({
+  sort: z.enum(['date', 'size', 'name']).catch('date'),
+  order: z.enum(['asc', 'desc']).catch('desc'),
+  page: z.coerce.number().int().min(1).catch(1),
+});
+
+export default async function LibraryPage({ searchParams }: { searchParams: Promise<Record<string, string | string[] | undefined>> }) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/sign-in?next=/library');
+  }
+
+  const { sort, order, page } = LibraryParamsSchema.parse(await searchParams);
+  const { images, total } = listUserImagesPage(user.id, { sort, order, limit: PAGE_SIZE, offset: (page - 1) * PAGE_SIZE });
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  if (page > pageCount) {
+    redirect(`/library?${new URLSearchParams({ sort, order, page: String(pageCount) })}`);
+  }
+  const pageHref = (target: number) => `/library?${new URLSearchParams({ sort, order, page: String(target) })}`;
+  const storedImages = toStoredImages(images);
+
+  return (
+    <main className="flex-grow container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-foreground">My images</h2>
+          <p className="text-sm text-muted-foreground">
+            {total === 1 ? '1 image' : `${total} images`}
+          </p>
+        </div>
+        {total > 0 && <LibrarySortSelect sort={sort} order={order} />}
+      </div>
+
+      {total === 0 ? (
+        <div className="text-center py-10">
+          <p className="text-muted-foreground text-lg">
+            You haven&apos;t uploaded anything yet. <Link href="/" className="text-primary hover:underline">Upload your first image.</Link>
+          </p>
+        </div>
+      ) : (
+        <>
+          <ImageGrid images={storedImages} />
+          {pageCount > 1 && (
+            <nav aria-label="Pagination" className="mt-8 flex items-center justify-center gap-4">
+              <Button asChild variant="outline" size="sm" className={page <= 1 ? 'pointer-events-none opacity-50' : undefined}>
+                <Link href={pageHref(page - 1)} aria-disabled={page <= 1}>
+                  <ChevronLeft className="mr-1 h-4 w-4" /> Previous
+                </Link>
+              </Button>
+              <span className="text-sm text-muted-foreground">Page {page} of {pageCount}</span>
+              <Button asChild variant="outline" size="sm" className={page >= pageCount ? 'pointer-events-none opacity-50' : undefined}>
+                <Link href={pageHref(page + 1)} aria-disabled={page >= pageCount}>
+                  Next <ChevronRight className="ml-1 h-4 w-4" />
+                </Link>
+              </Button>
+            </nav>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
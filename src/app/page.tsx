@@ -1,40 +1,106 @@
 "use client";
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import Image from 'next/image';
 import { ImageUploader, type UploadedImageFile } from '@/components/image-uploader';
 import { ImagePreviewCard } from '@/components/image-preview-card';
-import { ThemeToggle } from '@/components/theme-toggle';
+import { EMPTY_SEARCH, ImageSearchBar, isSearchActive, type ImageSearch } from '@/components/image-search-bar';
+import { Lightbox } from '@/components/lightbox';
+import type { ImageTagState } from '@/components/tag-editor';
 import { Separator } from '@/components/ui/separator';
+import { listImagesAction, listTagsAction, searchImagesAction, type StoredImage } from '@/app/actions/image-actions';
 
-// Define a type for the image objects we'll store in state
-interface DisplayImage extends UploadedImageFile {
-  id: string;
+const SEARCH_DEBOUNCE_MS = 250;
+
+function toUploadedImageFile(image: StoredImage): UploadedImageFile {
+  return {
+    id: image.id,
+    name: image.name,
+    previewSrc: image.url,
+    url: image.url,
+    shortUrl: image.shortUrl,
+    mimeType: image.mimeType,
+    size: image.size,
+    width: image.width,
+    height: image.height,
+    variants: image.variants,
+    tags: image.tags,
+    suggestedTags: image.suggestedTags,
+    altText: image.altText,
+    caption: image.caption,
+    moderationStatus: image.moderationStatus,
+  };
 }
 
 export default function Home() {
-  const [uploadedImages, setUploadedImages] = useState<DisplayImage[]>([]);
+  const [uploadedImages, setUploadedImages] = useState<UploadedImageFile[]>([]);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [search, setSearch] = useState<ImageSearch>(EMPTY_SEARCH);
+  const [searchResults, setSearchResults] = useState<UploadedImageFile[] | null>(null); // null while not searching
+  const [availableTags, setAvailableTags] = useState<{ tag: string; count: number }[]>([]);
 
-  const handleImageUpload = useCallback((imageFile: UploadedImageFile) => {
-    const newImage: DisplayImage = {
-      ...imageFile,
-      id: crypto.randomUUID(), // Generate a unique ID for the key
+  const refreshTags = useCallback(() => {
+    listTagsAction().then(setAvailableTags).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    // Rebuild the gallery from the metadata store so it survives a reload
+    listImagesAction().then((storedImages) => {
+      const restored = storedImages.map(toUploadedImageFile);
+      // Keep anything uploaded while the list was loading on top
+      setUploadedImages((prevImages) => [
+        ...prevImages,
+        ...restored.filter((image) => !prevImages.some((prev) => prev.id === image.id)),
+      ]);
+    });
+    refreshTags();
+  }, [refreshTags]);
+
+  useEffect(() => {
+    if (!isSearchActive(search)) {
+      setSearchResults(null);
+      return;
+    }
+    // Wait for a pause in typing, and drop results that arrive after the search has changed again
+    let isCurrent = true;
+    const timer = setTimeout(() => {
+      searchImagesAction(search).then((storedImages) => {
+        if (isCurrent) setSearchResults(storedImages.map(toUploadedImageFile));
+      });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
     };
-    setUploadedImages((prevImages) => [newImage, ...prevImages]);
+  }, [search]);
+
+  const handleImageUpload = useCallback((imageFile: UploadedImageFile) => {
+    setUploadedImages((prevImages) => [imageFile, ...prevImages]);
   }, []);
 
-  return (
-    <div className="flex min-h-screen flex-col bg-background">
-      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
-        <div className="container flex h-16 items-center justify-between px-4 sm:px-6 lg:px-8">
-          <div className="flex items-center gap-2">
-            <Image src="https://picsum.photos/seed/imagedrop-logo/40/40" alt="ImageDrop Logo" width={32} height={32} className="rounded-md" data-ai-hint="logo abstract" />
-            <h1 className="text-2xl font-bold text-primary">ImageDrop</h1>
-          </div>
-          <ThemeToggle />
-        </div>
-      </header>
+  const handleImageDeleted = useCallback((id: string) => {
+    setUploadedImages((prevImages) => prevImages.filter((image) => image.id !== id));
+    setSearchResults((prevResults) => prevResults && prevResults.filter((image) => image.id !== id));
+    refreshTags();
+  }, [refreshTags]);
+
+  const handleTagsChange = useCallback((id: string, tagState: ImageTagState) => {
+    const withTags = (images: UploadedImageFile[]) => images.map((image) => (image.id === id ? { ...image, ...tagState } : image));
+    setUploadedImages(withTags);
+    setSearchResults((prevResults) => prevResults && withTags(prevResults));
+    refreshTags();
+  }, [refreshTags]);
+
+  const handleDescriptionChange = useCallback((id: string, description: { altText: string | null; caption: string | null }) => {
+    const withDescription = (images: UploadedImageFile[]) => images.map((image) => (image.id === id ? { ...image, ...description } : image));
+    setUploadedImages(withDescription);
+    setSearchResults((prevResults) => prevResults && withDescription(prevResults));
+  }, []);
 
+  const displayedImages = searchResults ?? uploadedImages;
+
+  return (
+    <>
       <main className="flex-grow container mx-auto px-4 py-8 sm:px-6 lg:px-8">
         <section aria-labelledby="upload-title" className="mb-12">
           <div className="max-w-3xl mx-auto text-center">
@@ -56,24 +122,49 @@ export default function Home() {
           <h2 id="gallery-title" className="text-2xl font-semibold text-foreground mb-6 text-center sm:text-left">
             Your Uploaded Images
           </h2>
-          {uploadedImages.length === 0 ? (
+          {(uploadedImages.length > 0 || isSearchActive(search)) && (
+            <ImageSearchBar search={search} onSearchChange={setSearch} availableTags={availableTags} />
+          )}
+          {searchResults?.length === 0 ? (
+            <p className="text-center py-10 text-muted-foreground text-lg">No images match your search.</p>
+          ) : displayedImages.length === 0 ? (
             <div className="text-center py-10">
               <Image src="https://picsum.photos/seed/no-images/200/200" alt="No images uploaded" width={150} height={150} className="mx-auto rounded-lg opacity-50 mb-4" data-ai-hint="empty state illustration" />
               <p className="text-muted-foreground text-lg">No images uploaded yet. Start by uploading an image above!</p>
             </div>
           ) : (
             <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-              {uploadedImages.map((image) => (
-                <ImagePreviewCard key={image.id} src={image.previewSrc} url={image.url} name={image.name} />
+              {displayedImages.map((image, index) => (
+                <ImagePreviewCard
+                  key={image.id}
+                  id={image.id}
+                  src={image.previewSrc}
+                  url={image.url}
+                  shortUrl={image.shortUrl}
+                  name={image.name}
+                  mimeType={image.mimeType}
+                  originalWidth={image.width}
+                  variants={image.variants}
+                  tags={image.tags}
+                  suggestedTags={image.suggestedTags}
+                  altText={image.altText}
+                  caption={image.caption}
+                  quarantined={image.moderationStatus === 'quarantined'}
+                  onTagsChange={handleTagsChange}
+                  onDescriptionChange={handleDescriptionChange}
+                  onOpen={() => setOpenIndex(index)}
+                  onDeleted={handleImageDeleted}
+                />
               ))}
             </div>
           )}
+          <Lightbox images={displayedImages} index={openIndex} onIndexChange={setOpenIndex} />
         </section>
       </main>
 
       <footer className="py-8 text-center text-muted-foreground border-t">
         <p>&copy; {new Date().getFullYear()} ImageDrop. All rights reserved (not really, it's a demo!).</p>
       </footer>
-    </div>
+    </>
   );
 }
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { canViewImage } from '@/lib/admin';
+import { uploadUrl } from '@/lib/image-sources';
+import { getImageByShortId } from '@/lib/image-store';
+import { SHORT_ID_PATTERN } from '@/lib/short-id';
+
+// Short links redirect to the stored file, so they work anywhere a direct image URL does
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const image = SHORT_ID_PATTERN.test(id) ? getImageByShortId(id) : null;
+  if (!image || !(await canViewImage(image))) {
+    return new Response('Not found', { status: 404 });
+  }
+  return NextResponse.redirect(new URL(uploadUrl(image.storedFilename), request.url));
+}
@@ -0,0 +1,34 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { ApiKeyManager } from '@/components/api-key-manager';
+import { listUserApiKeys } from '@/lib/api-key-store';
+import { toApiKeySummary } from '@/lib/api-keys';
+import { getCurrentUser } from '@/lib/session';
+
+export const metadata: Metadata = {
+  title: 'API keys - ImageDrop',
+};
+
+export default async function ApiKeysPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/sign-in?next=/settings/api-keys');
+  }
+  const apiKeys = listUserApiKeys(user.id).map(toApiKeySummary);
+
+  return (
+    <main className="flex-grow container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-semibold text-foreground">API keys</h2>
+        <p className="text-sm text-muted-foreground">
+          Use a key from scripts and CI jobs by sending it as <code className="rounded bg-muted px-1">Authorization: Bearer &lt;key&gt;</code> to
+          the <code className="rounded bg-muted px-1">/api/v1</code> endpoints. Images uploaded with a key belong to your account.
+          See the <Link href="/docs/api" className="underline underline-offset-4">API reference</Link> for every endpoint.
+          Setting up ShareX or Flameshot? <Link href="/settings/uploaders" className="underline underline-offset-4">Download a ready-made config</Link>.
+        </p>
+      </div>
+      <ApiKeyManager initialKeys={apiKeys} />
+    </main>
+  );
+}
@@ -0,0 +1,29 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { UploaderDownloads } from '@/components/uploader-downloads';
+import { getCurrentUser } from '@/lib/session';
+
+export const metadata: Metadata = {
+  title: 'Screenshot tools - ImageDrop',
+};
+
+export default async function UploadersPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/sign-in?next=/settings/uploaders');
+  }
+
+  return (
+    <main className="flex-grow container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-semibold text-foreground">Screenshot tools</h2>
+        <p className="text-sm text-muted-foreground">
+          Send screenshots straight to your ImageDrop account. Each download comes with its own upload-only API key, which you can
+          revoke under <Link href="/settings/api-keys" className="underline underline-offset-4">API keys</Link>.
+        </p>
+      </div>
+      <UploaderDownloads />
+    </main>
+  );
+}
@@ -0,0 +1,51 @@
+import { Readable } from 'node:stream';
+import { canViewImage } from '@/lib/admin';
+import { getImage, getImageByStoredFilename, getImageVariantByStoredFilename, type ImageRecord } from '@/lib/image-store';
+import { getStorage, InvalidStorageKeyError } from '@/lib/storage';
+
+// The image a stored object belongs to, whether it's the original or one of its variants
+function findOwningImage(key: string): ImageRecord | null {
+  const image = getImageByStoredFilename(key);
+  if (image) return image;
+  const variant = getImageVariantByStoredFilename(key);
+  return variant && getImage(variant.imageId);
+}
+
+// Uploaded files are served through the storage driver rather than from public/,
+// so every app instance can serve images written by any other instance.
+export async function GET(_request: Request, { params }: { params: Promise<{ key: string[] }> }) {
+  const { key: segments } = await params;
+  const key = segments.join('/');
+
+  try {
+    // Only serve objects that belong to an image; the bucket also holds things like partial tus chunks
+    const image = findOwningImage(key);
+    if (!image || !(await canViewImage(image))) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    const storage = getStorage();
+    const info = await storage.stat(key);
+    const body = info && (await storage.get(key));
+    if (!info || !body) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    return new Response(Readable.toWeb(body) as ReadableStream, {
+      headers: {
+        'Content-Type': info.contentType ?? 'application/octet-stream',
+        'Content-Length': String(info.size),
+        'Last-Modified': info.lastModified.toUTCString(),
+        // Stored filenames are unique per upload, so the bytes never change. Quarantined
+        // images are only shown to admins and must stay out of shared caches.
+        'Cache-Control': image.moderationStatus === 'approved' ? 'public, max-age=31536000, immutable' : 'private, no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof InvalidStorageKeyError) {
+      return new Response('Not found', { status: 404 });
+    }
+    console.error(`Error serving upload ${key}:`, error);
+    return new Response('Internal server error', { status: 500 });
+  }
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import React, { useEffect, useState, useTransition } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, ArrowRight, Check, Copy, ExternalLink, ImagePlus, Star, Trash2, X } from 'lucide-react';
+import {
+  addImagesToAlbumAction,
+  deleteAlbumAction,
+  removeImageFromAlbumAction,
+  renameAlbumAction,
+  reorderAlbumAction,
+  setAlbumCoverAction,
+  type AlbumActionResult,
+} from '@/app/actions/album-actions';
+import { ResponsiveImage } from '@/components/responsive-image';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import type { StoredImage } from '@/lib/stored-image';
+import { cn } from '@/lib/utils';
+
+// Tiles are square, in 2 columns, then 3 from sm and 4 from lg
+const TILE_SIZES = '(min-width: 1024px) 25vw, (min-width: 640px) 33vw, 50vw';
+
+interface AlbumEditorProps {
+  album: { id: string; title: string; coverImageId: string | null };
+  images: StoredImage[]; // In album order
+  candidates: StoredImage[]; // The owner's images that aren't in the album yet
+}
+
+function Thumbnail({ image, sizes }: { image: StoredImage; sizes: string }) {
+  return (
+    <ResponsiveImage
+      src={image.url}
+      alt={image.altText ?? image.name}
+      sizes={sizes}
+      mimeType={image.mimeType}
+      originalWidth={image.width}
+      variants={image.variants}
+      loading="lazy"
+      className="absolute inset-0 h-full w-full object-cover"
+    />
+  );
+}
+
+function AddImagesDialog({ candidates, onAdd }: { candidates: StoredImage[]; onAdd: (imageIds: string[]) => Promise<boolean> }) {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isPending, startTransition] = useTransition();
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleAdd = () => {
+    startTransition(async () => {
+      // Keep the library's order rather than the order images were clicked in
+      if (await onAdd(candidates.filter((image) => selected.has(image.id)).map((image) => image.id))) {
+        setSelected(new Set());
+        setOpen(false);
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ImagePlus className="mr-2 h-4 w-4" /> Add images
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Add images</DialogTitle>
+          <DialogDescription>Pick images from your library to append to this album.</DialogDescription>
+        </DialogHeader>
+        {candidates.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">Every image in your library is already in this album.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <div className="grid grid-cols-3 gap-2 p-1 sm:grid-cols-4">
+              {candidates.map((image) => (
+                <button
+                  key={image.id}
+                  type="button"
+                  onClick={() => toggle(image.id)}
+                  aria-pressed={selected.has(image.id)}
+                  className={cn(
+                    'relative aspect-square overflow-hidden rounded-md bg-muted ring-offset-background focus:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                    selected.has(image.id) && 'ring-2 ring-primary ring-offset-2'
+                  )}
+                  title={image.name}
+                >
+                  <Thumbnail image={image} sizes="25vw" />
+                  {selected.has(image.id) && (
+                    <span className="absolute right-1 top-1 rounded-full bg-primary p-0.5 text-primary-foreground">
+                      <Check className="h-3 w-3" />
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+        <DialogFooter>
+          <Button onClick={handleAdd} disabled={selected.size === 0 || isPending}>
+            {selected.size === 1 ? 'Add 1 image' : `Add ${selected.size} images`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function AlbumEditor({ album, images, candidates }: AlbumEditorProps) {
+  const [title, setTitle] = useState(album.title);
+  const [orderedImages, setOrderedImages] = useState(images);
+  const [isPending, startTransition] = useTransition();
+  const [isCopied, setIsCopied] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  // Pick up the server's state after every refresh
+  useEffect(() => setOrderedImages(images), [images]);
+  useEffect(() => setTitle(album.title), [album.title]);
+
+  const coverImageId = album.coverImageId ?? orderedImages[0]?.id;
+
+  // Runs an album action, then refreshes the page from the server so it shows the saved state
+  const run = async (action: () => Promise<AlbumActionResult>, failureTitle: string) => {
+    const result = await action();
+    if (!result.success) {
+      toast({ variant: 'destructive', title: failureTitle, description: result.error });
+    }
+    router.refresh();
+    return result.success;
+  };
+
+  const handleRename = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    startTransition(async () => {
+      await run(() => renameAlbumAction(album.id, title), 'Could not rename album');
+    });
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const reordered = [...orderedImages];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+    setOrderedImages(reordered); // Optimistic; the refresh puts it back if saving fails
+    startTransition(async () => {
+      await run(() => reorderAlbumAction(album.id, reordered.map((image) => image.id)), 'Could not reorder album');
+    });
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/a/${album.id}`);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch {
+      toast({ variant: 'destructive', title: 'Copy Failed', description: 'Could not copy the album link.' });
+    }
+  };
+
+  const handleDelete = () => {
+    startTransition(async () => {
+      const result = await deleteAlbumAction(album.id);
+      if (result.success) {
+        router.push('/albums');
+      } else {
+        toast({ variant: 'destructive', title: 'Could not delete album', description: result.error });
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+        <form onSubmit={handleRename} className="flex w-full max-w-md gap-2">
+          <Input value={title} onChange={(e) => setTitle(e.target.value)} aria-label="Album title" maxLength={100} required />
+          <Button type="submit" variant="secondary" disabled={isPending || title.trim() === album.title}>Rename</Button>
+        </form>
+        <div className="flex flex-wrap gap-2">
+          <Button asChild variant="outline" size="sm">
+            <Link href={`/a/${album.id}`} target="_blank">
+              <ExternalLink className="mr-2 h-4 w-4" /> View
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleCopyLink}>
+            {isCopied ? <Check className="mr-2 h-4 w-4 text-green-500" /> : <Copy className="mr-2 h-4 w-4" />} Copy link
+          </Button>
+          <AddImagesDialog candidates={candidates} onAdd={(imageIds) => run(() => addImagesToAlbumAction(album.id, imageIds), 'Could not add images')} />
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" className="text-destructive hover:text-destructive">
+                <Trash2 className="mr-2 h-4 w-4" /> Delete album
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete {album.title}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The album and its link go away. The images themselves stay in your library.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+
+      {orderedImages.length === 0 ? (
+        <p className="py-10 text-center text-lg text-muted-foreground">This album is empty. Add images from your library, or pick it when uploading.</p>
+      ) : (
+        <ol className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4">
+          {orderedImages.map((image, index) => (
+            <li key={image.id} className="overflow-hidden rounded-md border bg-card">
+              <div className="relative aspect-square bg-muted">
+                <Thumbnail image={image} sizes={TILE_SIZES} />
+                {image.id === coverImageId && <Badge className="absolute left-2 top-2">Cover</Badge>}
+              </div>
+              <div className="flex items-center justify-between gap-1 p-2">
+                <span className="min-w-0 flex-1 truncate text-xs text-muted-foreground" title={image.name}>{image.name}</span>
+                <Button variant="ghost" size="icon" className="h-7 w-7" disabled={isPending || index === 0} onClick={() => handleMove(index, -1)} aria-label="Move earlier">
+                  <ArrowLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" disabled={isPending || index === orderedImages.length - 1} onClick={() => handleMove(index, 1)} aria-label="Move later">
+                  <ArrowRight className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={isPending || image.id === coverImageId}
+                  onClick={() => startTransition(async () => { await run(() => setAlbumCoverAction(album.id, image.id), 'Could not set cover'); })}
+                  aria-label="Use as cover"
+                >
+                  <Star className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={isPending}
+                  onClick={() => startTransition(async () => { await run(() => removeImageFromAlbumAction(album.id, image.id), 'Could not remove image'); })}
+                  aria-label="Remove from album"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Lightbox } from '@/components/lightbox';
+import { ResponsiveImage } from '@/components/responsive-image';
+import type { StoredImage } from '@/lib/stored-image';
+
+// Tiles are square, in 2 columns, then 3 from sm, 4 from lg and 5 from xl
+const ALBUM_TILE_SIZES = '(min-width: 1280px) 20vw, (min-width: 1024px) 25vw, (min-width: 640px) 33vw, 50vw';
+
+interface AlbumGalleryProps {
+  images: StoredImage[];
+}
+
+export function AlbumGallery({ images }: AlbumGalleryProps) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-3 sm:gap-4 lg:grid-cols-4 xl:grid-cols-5">
+        {images.map((image, index) => (
+          <button
+            key={image.id}
+            type="button"
+            onClick={() => setOpenIndex(index)}
+            className="group relative aspect-square overflow-hidden rounded-md bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            aria-label={`Open ${image.name}`}
+          >
+            <ResponsiveImage
+              src={image.url}
+              alt={image.altText ?? image.name}
+              sizes={ALBUM_TILE_SIZES}
+              mimeType={image.mimeType}
+              originalWidth={image.width}
+              variants={image.variants}
+              loading="lazy"
+              className="absolute inset-0 h-full w-full object-cover transition-transform duration-300 group-hover:scale-105"
+            />
+          </button>
+        ))}
+      </div>
+      <Lightbox images={images} index={openIndex} onIndexChange={setOpenIndex} />
+    </>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import React, { useState, useTransition } from 'react';
+import { Check, Copy, KeyRound, Loader2, Trash2 } from 'lucide-react';
+import { createApiKeyAction, revokeApiKeyAction, type ApiKeySummary } from '@/app/actions/api-key-actions';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { API_KEY_SCOPE_DESCRIPTIONS, API_KEY_SCOPES, type ApiKeyScope } from '@/lib/api-key-scopes';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+function CreateApiKeyForm({ onCreated }: { onCreated: (apiKey: ApiKeySummary, key: string) => void }) {
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['upload', 'read']);
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((other) => other !== scope)));
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    startTransition(async () => {
+      const result = await createApiKeyAction(name, scopes);
+      if (result.success && result.apiKey && result.key) {
+        onCreated(result.apiKey, result.key);
+        setName('');
+      } else {
+        toast({ variant: 'destructive', title: 'Could not create API key', description: result.error });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Create a key</CardTitle>
+        <CardDescription>Give each script or job its own key, with only the scopes it needs.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="max-w-sm space-y-2">
+            <Label htmlFor="api-key-name">Name</Label>
+            <Input id="api-key-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. CI screenshots" maxLength={60} required />
+          </div>
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium">Scopes</legend>
+            {API_KEY_SCOPES.map((scope) => (
+              <div key={scope} className="flex items-center gap-2">
+                <Checkbox id={`api-key-scope-${scope}`} checked={scopes.includes(scope)} onCheckedChange={(checked) => toggleScope(scope, checked === true)} />
+                <Label htmlFor={`api-key-scope-${scope}`} className="font-normal">
+                  <span className="font-medium">{scope}</span> – {API_KEY_SCOPE_DESCRIPTIONS[scope]}
+                </Label>
+              </div>
+            ))}
+          </fieldset>
+          <Button type="submit" disabled={isPending || scopes.length === 0}>
+            {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+            Create key
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Shows a freshly created key. Once closed there's no way to see it again, only to revoke it.
+function NewKeyDialog({ apiKey, onClose }: { apiKey: { name: string; key: string } | null; onClose: () => void }) {
+  const [isCopied, setIsCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!apiKey) return;
+    await navigator.clipboard.writeText(apiKey.key);
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 2000);
+  };
+
+  return (
+    <Dialog open={!!apiKey} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Copy your new key</DialogTitle>
+          <DialogDescription>
+            This is the only time &ldquo;{apiKey?.name}&rdquo; is shown. Store it somewhere safe, such as your CI&apos;s secret settings.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-2">
+          <Input value={apiKey?.key ?? ''} readOnly className="font-mono text-sm" aria-label="New API key" onFocus={(e) => e.target.select()} />
+          <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy API key">
+            {isCopied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RevokeButton({ apiKey, onRevoked }: { apiKey: ApiKeySummary; onRevoked: (id: string) => void }) {
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const handleRevoke = () => {
+    startTransition(async () => {
+      const result = await revokeApiKeyAction(apiKey.id);
+      if (result.success) {
+        onRevoked(apiKey.id);
+      } else {
+        toast({ variant: 'destructive', title: 'Could not revoke API key', description: result.error });
+      }
+    });
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={isPending} className="text-destructive hover:text-destructive">
+          <Trash2 className="mr-2 h-4 w-4" /> Revoke
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Revoke &ldquo;{apiKey.name}&rdquo;?</AlertDialogTitle>
+          <AlertDialogDescription>Anything still using this key will get 401 errors from now on. This can&apos;t be undone.</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleRevoke}>Revoke</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+export function ApiKeyManager({ initialKeys }: { initialKeys: ApiKeySummary[] }) {
+  const [apiKeys, setApiKeys] = useState(initialKeys);
+  const [newKey, setNewKey] = useState<{ name: string; key: string } | null>(null);
+
+  const handleCreated = (apiKey: ApiKeySummary, key: string) => {
+    setApiKeys((prev) => [apiKey, ...prev]);
+    setNewKey({ name: apiKey.name, key });
+  };
+
+  return (
+    <div className="space-y-6">
+      <CreateApiKeyForm onCreated={handleCreated} />
+      <NewKeyDialog apiKey={newKey} onClose={() => setNewKey(null)} />
+      {apiKeys.length === 0 ? (
+        <p className="py-10 text-center text-lg text-muted-foreground">No API keys yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Key</TableHead>
+              <TableHead>Scopes</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead>Last used</TableHead>
+              <TableHead className="sr-only">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {apiKeys.map((apiKey) => (
+              <TableRow key={apiKey.id}>
+                <TableCell className="font-medium">{apiKey.name}</TableCell>
+                <TableCell className="font-mono text-sm text-muted-foreground">{apiKey.keyPrefix}…</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {apiKey.scopes.map((scope) => (
+                      <Badge key={scope} variant="secondary" className="font-normal">{scope}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{formatDate(apiKey.createdAt)}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {apiKey.lastUsedAt ? `${formatDate(apiKey.lastUsedAt)}${apiKey.lastUsedIp ? ` from ${apiKey.lastUsedIp}` : ''}` : 'Never'}
+                </TableCell>
+                <TableCell className="text-right">
+                  <RevokeButton apiKey={apiKey} onRevoked={(id) => setApiKeys((prev) => prev.filter((other) => other.id !== id))} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
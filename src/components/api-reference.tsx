@@ -0,0 +1,15 @@
+"use client";
+
+import dynamic from 'next/dynamic';
+import 'swagger-ui-react/swagger-ui.css';
+
+// Swagger UI touches window as soon as it loads, so it only ever renders in the browser
+const SwaggerUI = dynamic(() => import('swagger-ui-react'), {
+  ssr: false,
+  loading: () => <p className="text-sm text-muted-foreground">Loading the API reference…</p>,
+});
+
+// Interactive docs for /api/openapi.json. "Try it out" calls the API as the signed-in user, or with a pasted key.
+export function ApiReference() {
+  return <SwaggerUI url="/api/openapi.json" deepLinking />;
+}
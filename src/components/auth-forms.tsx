@@ -0,0 +1,156 @@
+"use client";
+
+import React, { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import Link from 'next/link';
+import { Loader2 } from 'lucide-react';
+import {
+  requestPasswordResetAction,
+  resetPasswordAction,
+  signInAction,
+  signUpAction,
+  type AuthFormState,
+} from '@/app/actions/auth-actions';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+function SubmitButton({ children }: { children: React.ReactNode }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" className="w-full" disabled={pending}>
+      {pending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+      {children}
+    </Button>
+  );
+}
+
+function Field({ name, label, type, autoComplete, errors }: { name: string; label: string; type: string; autoComplete: string; errors?: string[] }) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={name}>{label}</Label>
+      <Input id={name} name={name} type={type} autoComplete={autoComplete} required aria-invalid={!!errors?.length} />
+      {errors?.map((error) => (
+        <p key={error} className="text-sm text-destructive">{error}</p>
+      ))}
+    </div>
+  );
+}
+
+function FormAlert({ state }: { state: AuthFormState | undefined }) {
+  if (state?.error) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{state.error}</AlertDescription>
+      </Alert>
+    );
+  }
+  if (state?.message) {
+    return (
+      <Alert>
+        <AlertDescription>{state.message}</AlertDescription>
+      </Alert>
+    );
+  }
+  return null;
+}
+
+export function SignInForm({ redirectTo }: { redirectTo?: string }) {
+  const [state, formAction] = useActionState(signInAction, undefined);
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Sign in</CardTitle>
+        <CardDescription>Sign in to keep your uploads private to your account.</CardDescription>
+      </CardHeader>
+      <form action={formAction}>
+        <CardContent className="space-y-4">
+          <FormAlert state={state} />
+          {redirectTo && <input type="hidden" name="redirectTo" value={redirectTo} />}
+          <Field name="email" label="Email" type="email" autoComplete="email" errors={state?.errors?.email} />
+          <Field name="password" label="Password" type="password" autoComplete="current-password" errors={state?.errors?.password} />
+          <Link href="/forgot-password" className="text-sm text-primary hover:underline">Forgot your password?</Link>
+        </CardContent>
+        <CardFooter className="flex-col space-y-4">
+          <SubmitButton>Sign in</SubmitButton>
+          <p className="text-sm text-muted-foreground">
+            No account yet? <Link href="/sign-up" className="text-primary hover:underline">Sign up</Link>
+          </p>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
+
+export function SignUpForm({ redirectTo }: { redirectTo?: string }) {
+  const [state, formAction] = useActionState(signUpAction, undefined);
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Create an account</CardTitle>
+        <CardDescription>Images you upload while signed in belong to your account.</CardDescription>
+      </CardHeader>
+      <form action={formAction}>
+        <CardContent className="space-y-4">
+          <FormAlert state={state} />
+          {redirectTo && <input type="hidden" name="redirectTo" value={redirectTo} />}
+          <Field name="email" label="Email" type="email" autoComplete="email" errors={state?.errors?.email} />
+          <Field name="password" label="Password" type="password" autoComplete="new-password" errors={state?.errors?.password} />
+        </CardContent>
+        <CardFooter className="flex-col space-y-4">
+          <SubmitButton>Sign up</SubmitButton>
+          <p className="text-sm text-muted-foreground">
+            Already have an account? <Link href="/sign-in" className="text-primary hover:underline">Sign in</Link>
+          </p>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
+
+export function ForgotPasswordForm() {
+  const [state, formAction] = useActionState(requestPasswordResetAction, undefined);
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Reset your password</CardTitle>
+        <CardDescription>Enter your email and we&apos;ll send you a link to choose a new password.</CardDescription>
+      </CardHeader>
+      <form action={formAction}>
+        <CardContent className="space-y-4">
+          <FormAlert state={state} />
+          <Field name="email" label="Email" type="email" autoComplete="email" errors={state?.errors?.email} />
+        </CardContent>
+        <CardFooter className="flex-col space-y-4">
+          <SubmitButton>Send reset link</SubmitButton>
+          <Link href="/sign-in" className="text-sm text-primary hover:underline">Back to sign in</Link>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
+
+export function ResetPasswordForm({ token }: { token: string }) {
+  const [state, formAction] = useActionState(resetPasswordAction, undefined);
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Choose a new password</CardTitle>
+        <CardDescription>You&apos;ll be signed out on every other device.</CardDescription>
+      </CardHeader>
+      <form action={formAction}>
+        <CardContent className="space-y-4">
+          <FormAlert state={state} />
+          <input type="hidden" name="token" value={token} />
+          <Field name="password" label="New password" type="password" autoComplete="new-password" errors={state?.errors?.password} />
+        </CardContent>
+        <CardFooter className="flex-col space-y-4">
+          <SubmitButton>Set new password</SubmitButton>
+          {state?.error && <Link href="/forgot-password" className="text-sm text-primary hover:underline">Request a new link</Link>}
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import React, { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Plus } from 'lucide-react';
+import { createAlbumAction } from '@/app/actions/album-actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+
+export function CreateAlbumForm() {
+  const [title, setTitle] = useState('');
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    startTransition(async () => {
+      const result = await createAlbumAction(title);
+      if (result.success && result.albumId) {
+        router.push(`/albums/${result.albumId}`);
+      } else {
+        toast({ variant: 'destructive', title: 'Could not create album', description: result.error });
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex w-full max-w-sm gap-2">
+      <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="New album title" aria-label="New album title" maxLength={100} required />
+      <Button type="submit" disabled={isPending}>
+        {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+        Create
+      </Button>
+    </form>
+  );
+}
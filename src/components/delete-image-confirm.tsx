@@ -0,0 +1,59 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { deleteImageWithToken } from '@/lib/deletion-tokens';
+
+type DeleteState = { status: 'idle' | 'deleting' | 'deleted' } | { status: 'error'; error: string };
+
+// Asks before deleting, so a link preview or an accidental click doesn't remove the image
+export function DeleteImageConfirm({ imageId, name }: { imageId: string; name: string }) {
+  const [token, setToken] = useState<string | null>(null);
+  const [state, setState] = useState<DeleteState>({ status: 'idle' });
+
+  useEffect(() => {
+    setToken(decodeURIComponent(window.location.hash.slice(1)) || null);
+  }, []);
+
+  const handleDelete = async () => {
+    if (!token) return;
+    setState({ status: 'deleting' });
+    try {
+      await deleteImageWithToken(imageId, token);
+      setState({ status: 'deleted' });
+    } catch (err) {
+      setState({ status: 'error', error: err instanceof Error ? err.message : 'Could not delete the image. Please try again.' });
+    }
+  };
+
+  if (state.status === 'deleted') {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Image deleted</CardTitle>
+          <CardDescription>{name} and all of its links are gone.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Delete {name}?</CardTitle>
+        <CardDescription>
+          {token ? 'Its links will stop working for everyone. This can’t be undone.' : 'This link is missing its deletion token.'}
+        </CardDescription>
+        {state.status === 'error' && <p className="text-sm text-destructive">{state.error}</p>}
+      </CardHeader>
+      <CardFooter>
+        <Button variant="destructive" onClick={handleDelete} disabled={!token || state.status === 'deleting'}>
+          {state.status === 'deleting' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+          Delete image
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
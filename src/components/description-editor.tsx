@@ -0,0 +1,79 @@
+"use client";
+
+import React, { useState, useTransition } from 'react';
+import { Pencil } from 'lucide-react';
+import { updateImageDescriptionAction } from '@/app/actions/image-actions';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+
+interface DescriptionEditorProps {
+  imageId: string;
+  name: string;
+  altText: string | null;
+  caption: string | null;
+  deletionToken?: string | null; // Proves the upload for anonymous images
+  onSaved: (description: { altText: string | null; caption: string | null }) => void;
+}
+
+// Lets the uploader correct or write the alt text and caption the model came up with
+export function DescriptionEditor({ imageId, name, altText, caption, deletionToken, onSaved }: DescriptionEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [draftAltText, setDraftAltText] = useState(altText ?? '');
+  const [draftCaption, setDraftCaption] = useState(caption ?? '');
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraftAltText(altText ?? '');
+      setDraftCaption(caption ?? '');
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    startTransition(async () => {
+      const result = await updateImageDescriptionAction(imageId, { altText: draftAltText, caption: draftCaption }, deletionToken ?? undefined);
+      if (result.success) {
+        onSaved({ altText: result.altText ?? null, caption: result.caption ?? null });
+        setOpen(false);
+      } else {
+        toast({ variant: 'destructive', title: 'Could not save description', description: result.error });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-auto p-0 text-muted-foreground hover:bg-transparent">
+          <Pencil className="mr-1 h-3 w-3" /> Edit description
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Describe {name}</DialogTitle>
+            <DialogDescription>Alt text is read out by screen readers in place of the image. Leave a field empty to remove it.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`alt-text-${imageId}`}>Alt text</Label>
+            <Input id={`alt-text-${imageId}`} value={draftAltText} onChange={(e) => setDraftAltText(e.target.value)} maxLength={250} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`caption-${imageId}`}>Caption</Label>
+            <Textarea id={`caption-${imageId}`} value={draftCaption} onChange={(e) => setDraftCaption(e.target.value)} maxLength={1000} rows={4} />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={isPending}>Save</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import React, { useCallback, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ImagePreviewCard } from '@/components/image-preview-card';
+import { Lightbox } from '@/components/lightbox';
+import type { StoredImage } from '@/lib/stored-image';
+
+interface ImageGridProps {
+  images: StoredImage[];
+}
+
+// The gallery's card grid for server-rendered lists of the viewer's own images
+export function ImageGrid({ images }: ImageGridProps) {
+  const router = useRouter();
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  // Re-render the page on the server so counts and pagination reflect the deletion
+  const handleImageDeleted = useCallback(() => router.refresh(), [router]);
+  const handleImageEdited = useCallback(() => router.refresh(), [router]);
+
+  return (
+    <>
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+        {images.map((image, index) => (
+          <ImagePreviewCard
+            key={image.id}
+            id={image.id}
+            src={image.url}
+            url={image.url}
+            shortUrl={image.shortUrl}
+            name={image.name}
+            mimeType={image.mimeType}
+            originalWidth={image.width}
+            variants={image.variants}
+            tags={image.tags}
+            suggestedTags={image.suggestedTags}
+            altText={image.altText}
+            caption={image.caption}
+            quarantined={image.moderationStatus === 'quarantined'}
+            canEdit
+            onTagsChange={handleImageEdited}
+            onDescriptionChange={handleImageEdited}
+            onOpen={() => setOpenIndex(index)}
+            onDeleted={handleImageDeleted}
+          />
+        ))}
+      </div>
+      <Lightbox images={images} index={openIndex} onIndexChange={setOpenIndex} />
+    </>
+  );
+}
@@ -1,38 +1,85 @@
 "use client";
 
 import React, { useState, useEffect } from 'react';
-import Image from 'next/image';
-import { Copy, Check } from 'lucide-react';
+import { Copy, Check, Link as LinkIcon, ShieldAlert, Trash2 } from 'lucide-react';
+import { ResponsiveImage } from '@/components/responsive-image';
+import { DescriptionEditor } from '@/components/description-editor';
+import { SuggestedTagList, TagEditor, type ImageTagState } from '@/components/tag-editor';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
+import { deleteImageWithToken, getDeletionToken } from '@/lib/deletion-tokens';
+import type { ImageVariant } from '@/lib/image-sources';
 import { cn } from '@/lib/utils';
 
+// Matches the gallery grid: 1 column, then 2 from sm, 3 from lg and 4 from xl
+const GALLERY_IMAGE_SIZES = '(min-width: 1280px) 25vw, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw';
+
 interface ImagePreviewCardProps {
+  id: string;
   src: string;
-  url: string;
+  url: string; // Direct file URL
+  shortUrl?: string; // Shown and copied by default when available
   name: string;
+  mimeType?: string;
+  originalWidth?: number | null;
+  variants?: ImageVariant[];
+  tags?: string[];
+  suggestedTags?: string[]; // From the auto-tagger, not reviewed yet
+  altText?: string | null;
+  caption?: string | null;
+  quarantined?: boolean; // Held for review, so the file can't be loaded yet
+  canEdit?: boolean; // For the owner's own images; uploads from this browser are editable anyway
+  onTagsChange?: (id: string, state: ImageTagState) => void;
+  onDescriptionChange?: (id: string, description: { altText: string | null; caption: string | null }) => void;
+  onOpen?: () => void; // Shows the whole image, e.g. in a lightbox
+  onDeleted?: (id: string) => void;
 }
 
-export function ImagePreviewCard({ src, url, name }: ImagePreviewCardProps) {
+export function ImagePreviewCard({ id, src, url, shortUrl, name, mimeType, originalWidth, variants, tags = [], suggestedTags = [], altText = null, caption = null, quarantined = false, canEdit = false, onTagsChange, onDescriptionChange, onOpen, onDeleted }: ImagePreviewCardProps) {
   const { toast } = useToast();
   const [isCopied, setIsCopied] = useState(false);
   const [isVisible, setIsVisible] = useState(false);
+  const [origin, setOrigin] = useState('');
+  const [deletionToken, setDeletionToken] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const isEditable = canEdit || !!deletionToken;
 
   useEffect(() => {
     // Trigger fade-in animation
     const timer = setTimeout(() => setIsVisible(true), 50); // Slight delay for animation
+    // Links are shared outside the app, so show them absolute
+    setOrigin(window.location.origin);
     return () => clearTimeout(timer);
   }, []);
 
+  useEffect(() => {
+    // Only this browser's own uploads can be deleted, via the token saved when they were uploaded
+    setDeletionToken(getDeletionToken(id));
+  }, [id]);
+
+  const shareUrl = `${origin}${shortUrl ?? url}`;
+  const directUrl = `${origin}${url}`;
 
-  const handleCopyUrl = async () => {
+  const copyToClipboard = async (text: string, description: string) => {
     try {
-      await navigator.clipboard.writeText(url);
+      await navigator.clipboard.writeText(text);
       toast({
         title: 'URL Copied!',
-        description: 'The image URL has been copied to your clipboard.',
+        description,
       });
       setIsCopied(true);
       setTimeout(() => setIsCopied(false), 2000); // Reset icon after 2 seconds
@@ -45,6 +92,26 @@ export function ImagePreviewCard({ src, url, name }: ImagePreviewCardProps) {
     }
   };
 
+  const handleDelete = async () => {
+    if (!deletionToken) return;
+    setIsDeleting(true);
+    try {
+      await deleteImageWithToken(id, deletionToken);
+      toast({
+        title: 'Image Deleted',
+        description: `${name} has been removed.`,
+      });
+      onDeleted?.(id);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Delete Failed',
+        description: err instanceof Error ? err.message : 'Could not delete the image. Please try again.',
+      });
+      setIsDeleting(false);
+    }
+  };
+
   return (
     <Card className={cn(
         "shadow-lg hover:shadow-xl transition-all duration-300 ease-in-out transform hover:-translate-y-1",
@@ -56,22 +123,110 @@ export function ImagePreviewCard({ src, url, name }: ImagePreviewCardProps) {
         <CardTitle className="text-base font-semibold truncate" title={name}>{name}</CardTitle>
       </CardHeader>
       <CardContent className="p-0 aspect-[4/3] relative overflow-hidden">
-        <Image
-          src={src}
-          alt={`Preview of ${name}`}
-          layout="fill"
-          objectFit="cover"
-          className="transition-transform duration-300 group-hover:scale-105"
-          data-ai-hint="uploaded image"
-        />
+        {quarantined ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-muted p-4 text-center text-sm text-muted-foreground">
+            <ShieldAlert className="h-8 w-8" />
+            <p>Awaiting review. This image will be published once an admin approves it.</p>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={onOpen}
+            disabled={!onOpen}
+            className="group absolute inset-0 cursor-zoom-in focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ring disabled:cursor-default"
+            aria-label={`View ${name}`}
+          >
+            <ResponsiveImage
+              src={src}
+              alt={altText ?? `Preview of ${name}`}
+              sizes={GALLERY_IMAGE_SIZES}
+              mimeType={mimeType}
+              originalWidth={originalWidth}
+              variants={variants}
+              loading="lazy"
+              className="absolute inset-0 h-full w-full object-cover transition-transform duration-300 group-hover:scale-105"
+              data-ai-hint="uploaded image"
+            />
+          </button>
+        )}
       </CardContent>
       <CardFooter className="p-4 flex-col items-start space-y-2">
+        {caption && <p className="line-clamp-2 text-sm text-muted-foreground" title={caption}>{caption}</p>}
         <div className="flex w-full space-x-2">
-          <Input type="text" value={url} readOnly className="text-sm flex-grow min-w-0" aria-label="Image URL"/>
-          <Button variant="outline" size="icon" onClick={handleCopyUrl} aria-label="Copy URL">
+          <Input type="text" value={shareUrl} readOnly className="text-sm flex-grow min-w-0" aria-label="Image URL"/>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => copyToClipboard(shareUrl, 'The image URL has been copied to your clipboard.')}
+            aria-label="Copy URL"
+          >
             {isCopied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
           </Button>
         </div>
+        {shortUrl && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-muted-foreground"
+            onClick={() => copyToClipboard(directUrl, 'The direct file URL has been copied to your clipboard.')}
+          >
+            <LinkIcon className="mr-1 h-3 w-3" /> Copy direct file URL
+          </Button>
+        )}
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map((tag) => (
+              <Badge key={tag} variant="secondary" className="font-normal">{tag}</Badge>
+            ))}
+          </div>
+        )}
+        {suggestedTags.length > 0 && (
+          <SuggestedTagList
+            imageId={id}
+            suggestedTags={suggestedTags}
+            canReview={isEditable && !!onTagsChange}
+            deletionToken={deletionToken}
+            onReviewed={(state) => onTagsChange?.(id, state)}
+          />
+        )}
+        {isEditable && (onTagsChange || onDescriptionChange) && (
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {onTagsChange && (
+              <TagEditor imageId={id} tags={tags} deletionToken={deletionToken} onSaved={(state) => onTagsChange(id, state)} />
+            )}
+            {onDescriptionChange && (
+              <DescriptionEditor
+                imageId={id}
+                name={name}
+                altText={altText}
+                caption={caption}
+                deletionToken={deletionToken}
+                onSaved={(description) => onDescriptionChange(id, description)}
+              />
+            )}
+          </div>
+        )}
+        {deletionToken && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-auto p-0 text-destructive hover:bg-transparent hover:text-destructive" disabled={isDeleting}>
+                <Trash2 className="mr-1 h-3 w-3" /> {isDeleting ? 'Deleting...' : 'Delete'}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete {name}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The image and all of its resized copies will be removed, and every link to it will stop working. This can't be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
       </CardFooter>
     </Card>
   );
@@ -0,0 +1,95 @@
+"use client";
+
+import React from 'react';
+import { Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { TagMatchMode } from '@/lib/image-tags';
+import { cn } from '@/lib/utils';
+
+export interface ImageSearch {
+  text: string;
+  tags: string[];
+  tagMode: TagMatchMode;
+}
+
+export const EMPTY_SEARCH: ImageSearch = { text: '', tags: [], tagMode: 'and' };
+
+export const isSearchActive = (search: ImageSearch) => search.text.trim() !== '' || search.tags.length > 0;
+
+interface ImageSearchBarProps {
+  search: ImageSearch;
+  onSearchChange: (search: ImageSearch) => void;
+  availableTags: { tag: string; count: number }[];
+}
+
+// Free-text search over names and tags, plus tag chips to filter by
+export function ImageSearchBar({ search, onSearchChange, availableTags }: ImageSearchBarProps) {
+  const toggleTag = (tag: string) => {
+    const tags = search.tags.includes(tag) ? search.tags.filter((t) => t !== tag) : [...search.tags, tag];
+    onSearchChange({ ...search, tags });
+  };
+
+  // Selected tags stay visible even if no listed image carries them any more
+  const chips = [...new Set([...search.tags, ...availableTags.map(({ tag }) => tag)])];
+  const countByTag = new Map(availableTags.map(({ tag, count }) => [tag, count]));
+
+  return (
+    <div className="mb-6 space-y-3">
+      <div className="relative">
+        <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          type="search"
+          value={search.text}
+          onChange={(e) => onSearchChange({ ...search, text: e.target.value })}
+          placeholder="Search by name or tag"
+          aria-label="Search images"
+          className="pl-9"
+        />
+      </div>
+      {chips.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {chips.map((tag) => {
+            const selected = search.tags.includes(tag);
+            return (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => toggleTag(tag)}
+                aria-pressed={selected}
+                className={cn(
+                  'inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                  selected ? 'border-transparent bg-primary text-primary-foreground' : 'text-foreground hover:bg-accent'
+                )}
+              >
+                {tag}
+                {countByTag.has(tag) && <span className="ml-1 opacity-60">{countByTag.get(tag)}</span>}
+              </button>
+            );
+          })}
+          {search.tags.length > 1 && (
+            <div className="flex overflow-hidden rounded-md border text-xs" role="group" aria-label="Match tags">
+              {(['and', 'or'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => onSearchChange({ ...search, tagMode: mode })}
+                  aria-pressed={search.tagMode === mode}
+                  className={cn('px-2 py-0.5', search.tagMode === mode ? 'bg-secondary font-semibold' : 'text-muted-foreground hover:bg-accent')}
+                  title={mode === 'and' ? 'Images with all selected tags' : 'Images with any selected tag'}
+                >
+                  {mode === 'and' ? 'All' : 'Any'}
+                </button>
+              ))}
+            </div>
+          )}
+          {isSearchActive(search) && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onSearchChange(EMPTY_SEARCH)}>
+              <X className="mr-1 h-3 w-3" /> Clear
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
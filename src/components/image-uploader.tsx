@@ -2,247 +2,367 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import Image from 'next/image';
-import { UploadCloud, Loader2, AlertCircle } from 'lucide-react';
+import { UploadCloud, AlertCircle, CheckCircle2, RotateCw, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
-import { cn } from '@/lib/utils';
-import { uploadImageAction, type UploadImageResponse } from '@/app/actions/upload-actions';
-import { useFormStatus } from 'react-dom';
-import { useActionState } from 'react';
+import { cn, formatFileSize } from '@/lib/utils';
+import type { ImageVariant } from '@/lib/image-sources';
+import type { ModerationStatus } from '@/lib/image-store';
+import { addImagesToAlbumAction, createAlbumAction, listMyAlbumsAction, type AlbumOption } from '@/app/actions/album-actions';
+import { saveDeletionToken } from '@/lib/deletion-tokens';
+import { uploadWithProgress } from '@/lib/upload-client';
 
 const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024; // 10MB
 const ACCEPTED_IMAGE_MIME_TYPES_STRING = 'image/jpeg,image/png,image/gif,image/webp';
 const ACCEPTED_IMAGE_MIME_TYPES_ARRAY = ACCEPTED_IMAGE_MIME_TYPES_STRING.split(',');
+const DEFAULT_MAX_CONCURRENT_UPLOADS = 3;
 
 
 export interface UploadedImageFile {
+  id: string;
   name: string;
-  previewSrc: string; // This will be a data URL for client-side preview
+  previewSrc: string; // Where the gallery loads the preview from
   url: string; // This will be the server URL
+  shortUrl?: string; // Short link for sharing
+  mimeType?: string;
+  size?: number;
+  width?: number | null;
+  height?: number | null;
+  variants?: ImageVariant[]; // Resized copies for srcset
+  tags?: string[];
+  suggestedTags?: string[];
+  altText?: string | null; // Generated in the background, so missing right after an upload
+  caption?: string | null;
+  moderationStatus?: ModerationStatus;
 }
 
 interface ImageUploaderProps {
   onImageUpload: (imageFile: UploadedImageFile) => void;
+  maxConcurrentUploads?: number;
 }
 
-function UploaderFormFields({ 
-  previewSrc, 
-  fileName, 
-  clientError,
-  serverError,
-  isDragging,
-  handleDragEnter,
-  handleDragLeave,
-  handleDragOver,
-  handleDrop,
-  triggerFileInput,
-  handleFileChange,
-  fileInputRef
-} : {
-  previewSrc: string | null;
-  fileName: string | null;
-  clientError: string | null;
-  serverError: string | null;
-  isDragging: boolean;
-  pending?: boolean; 
-  handleDragEnter: (e: React.DragEvent<HTMLDivElement>) => void;
-  handleDragLeave: (e: React.DragEvent<HTMLDivElement>) => void;
-  handleDragOver: (e: React.DragEvent<HTMLDivElement>) => void;
-  handleDrop: (e: React.DragEvent<HTMLDivElement>) => void;
-  triggerFileInput: () => void;
-  handleFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  fileInputRef: React.RefObject<HTMLInputElement>;
-}) {
-  const { pending: formIsSubmitting } = useFormStatus(); 
+type QueueItemStatus = 'queued' | 'uploading' | 'success' | 'error' | 'cancelled';
 
-  return (
-    <>
-      <div
-        onDragEnter={handleDragEnter}
-        onDragLeave={handleDragLeave}
-        onDragOver={handleDragOver}
-        onDrop={handleDrop}
-        onClick={formIsSubmitting ? undefined : triggerFileInput}
-        className={cn(
-          'flex flex-col items-center justify-center p-8 border-2 border-dashed rounded-lg transition-colors duration-200 ease-in-out',
-          isDragging ? 'border-primary bg-accent/10' : 'border-border hover:border-primary/70',
-          formIsSubmitting ? 'cursor-default opacity-70' : 'cursor-pointer',
-          (clientError || serverError) && 'border-destructive'
-        )}
-        role="button"
-        aria-label="Image upload area"
-        tabIndex={formIsSubmitting ? -1 : 0}
-        onKeyDown={(e) => { if (e.key === 'Enter' && !formIsSubmitting) triggerFileInput(); }}
-      >
-        <input
-          type="file"
-          name="file" 
-          ref={fileInputRef}
-          onChange={handleFileChange}
-          accept={ACCEPTED_IMAGE_MIME_TYPES_STRING}
-          className="hidden"
-          disabled={formIsSubmitting}
-        />
-        {formIsSubmitting && !previewSrc && ( 
-            <div className="flex flex-col items-center text-center w-full">
-              <Loader2 className="h-12 w-12 animate-spin text-primary mb-4" />
-              <p className="text-lg font-medium text-foreground">Processing...</p>
-            </div>
-        )}
-        {!formIsSubmitting && previewSrc && !clientError ? (
-          <div className="flex flex-col items-center text-center">
-            <Image src={previewSrc} alt="Image preview" width={150} height={150} className="rounded-md object-contain max-h-[150px] mb-4 shadow-md" data-ai-hint="image preview" />
-            <p className="text-sm text-muted-foreground break-all">{fileName}</p>
-            <p className="text-sm text-muted-foreground">Click or drag another file to replace.</p>
-          </div>
-        ) : !formIsSubmitting ? ( 
-          <div className="flex flex-col items-center text-center pointer-events-none">
-            <UploadCloud className="h-12 w-12 text-primary mb-4" />
-            <p className="text-lg font-semibold text-foreground">Drop image here or click to browse</p>
-            <p className="text-sm text-muted-foreground">Max 10MB. JPG, PNG, GIF, WebP</p>
-          </div>
-        ) : null}
-         {formIsSubmitting && previewSrc && (
-            <div className="flex flex-col items-center text-center">
-                <Loader2 className="h-8 w-8 animate-spin text-primary my-2" />
-                <Image src={previewSrc} alt="Image preview" width={100} height={100} className="rounded-md object-contain max-h-[100px] mb-2 shadow-md opacity-50" data-ai-hint="image preview loading" />
-                <p className="text-sm text-muted-foreground">Uploading {fileName}...</p>
-            </div>
-        )}
-      </div>
+interface QueueItem {
+  id: string;
+  file: File;
+  thumbnailSrc: string; // Object URL, revoked when the row is removed
+  status: QueueItemStatus;
+  progress: number; // 0-100
+  bytesUploaded: number;
+  startedAt?: number; // Date.now() when the current attempt began, for speed and ETA
+  error?: string;
+  retryable: boolean; // Client-side validation failures won't succeed on a retry
+  keepCameraMetadata: boolean; // Chosen when the file was added, so later toggles don't affect it
+  albumId?: string; // Album to add the image to once it's uploaded
+}
 
-      {clientError && (
-        <div className="p-3 bg-destructive/10 border border-destructive text-destructive text-sm rounded-md flex items-center gap-2">
-          <AlertCircle className="h-5 w-5" />
-          <p>{clientError}</p>
-        </div>
-      )}
-      
-      {serverError && (
-        <div className="p-3 bg-destructive/10 border border-destructive text-destructive text-sm rounded-md flex items-center gap-2">
-          <AlertCircle className="h-5 w-5" />
-          <p>{serverError}</p>
-        </div>
-      )}
+function formatTransferStats(item: QueueItem) {
+  if (!item.startedAt || item.bytesUploaded === 0) {
+    return 'Starting...';
+  }
+  const elapsedSeconds = (Date.now() - item.startedAt) / 1000;
+  const bytesPerSecond = item.bytesUploaded / Math.max(elapsedSeconds, 0.001);
+  const remainingSeconds = Math.ceil((item.file.size - item.bytesUploaded) / bytesPerSecond);
+  const timeLeft = remainingSeconds >= 60
+    ? `${Math.floor(remainingSeconds / 60)}m ${remainingSeconds % 60}s left`
+    : `${remainingSeconds}s left`;
+  return `${item.progress}% · ${formatFileSize(bytesPerSecond)}/s · ${timeLeft}`;
+}
 
-      {previewSrc && !clientError && <SubmitButton />}
-      
-      {!previewSrc && !formIsSubmitting && !clientError && ( 
-          <Button onClick={triggerFileInput} className="w-full mt-6" variant="default" size="lg" type="button" disabled={formIsSubmitting}>
-            <UploadCloud className="mr-2 h-5 w-5" /> Select Image
-          </Button>
-        )}
-    </>
-  );
+function validateFile(file: File): string | null {
+  if (!ACCEPTED_IMAGE_MIME_TYPES_ARRAY.includes(file.type)) {
+    return `Invalid file type. Please upload JPG, PNG, GIF, or WebP. You provided: ${file.type || 'unknown'}`;
+  }
+  if (file.size > MAX_FILE_SIZE_BYTES) {
+    return `File too large (max 10MB). Your file is ${(file.size / (1024*1024)).toFixed(2)}MB.`;
+  }
+  return null;
 }
 
+// Dropped folders show up as a single zero-byte File in dataTransfer.files, so walk the
+// entries API instead to reach the images inside them.
+async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
 
-function SubmitButton() {
-  const { pending } = useFormStatus();
+  const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      return [file];
+    }
+    if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      const children: FileSystemEntry[] = [];
+      // readEntries returns results in batches until it yields an empty array
+      for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        children.push(...batch);
+      }
+      return (await Promise.all(children.map(readEntry))).flat();
+    }
+    return [];
+  };
+
+  return (await Promise.all(entries.map(readEntry))).flat();
+}
+
+function UploadQueueRow({ item, onRetry, onRemove, onCancel }: {
+  item: QueueItem;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onCancel: (id: string) => void;
+}) {
   return (
-    <Button type="submit" className="w-full mt-4" variant="default" size="lg" disabled={pending}>
-      {pending ? (
-        <>
-          <Loader2 className="mr-2 h-5 w-5 animate-spin" /> Uploading...
-        </>
-      ) : (
-        <>
-         <UploadCloud className="mr-2 h-5 w-5" /> Confirm and Upload
-        </>
-      )}
-    </Button>
+    <li className="flex items-center gap-3 rounded-md border p-2">
+      <Image
+        src={item.thumbnailSrc}
+        alt={`Thumbnail of ${item.file.name}`}
+        width={48}
+        height={48}
+        className="h-12 w-12 shrink-0 rounded object-cover"
+        data-ai-hint="image thumbnail"
+      />
+      <div className="min-w-0 flex-grow space-y-1">
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <p className="truncate font-medium text-foreground" title={item.file.name}>{item.file.name}</p>
+          <span className="shrink-0 text-muted-foreground">{formatFileSize(item.file.size)}</span>
+        </div>
+        <Progress value={item.progress} className="h-2" aria-label={`Upload progress for ${item.file.name}`} />
+        {item.status === 'error' && item.error ? (
+          <p className="flex items-center gap-1 text-xs text-destructive">
+            <AlertCircle className="h-3 w-3 shrink-0" /> <span className="break-words">{item.error}</span>
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {item.status === 'queued' && 'Waiting...'}
+            {item.status === 'uploading' && formatTransferStats(item)}
+            {item.status === 'success' && 'Uploaded'}
+            {item.status === 'cancelled' && 'Cancelled'}
+          </p>
+        )}
+      </div>
+      <div className="flex shrink-0 items-center">
+        {item.status === 'success' && <CheckCircle2 className="h-5 w-5 text-green-500" />}
+        {(item.status === 'cancelled' || (item.status === 'error' && item.retryable)) && (
+          <Button variant="ghost" size="icon" onClick={() => onRetry(item.id)} aria-label={`Retry ${item.file.name}`}>
+            <RotateCw className="h-4 w-4" />
+          </Button>
+        )}
+        {item.status === 'uploading' ? (
+          <Button variant="ghost" size="icon" onClick={() => onCancel(item.id)} aria-label={`Cancel upload of ${item.file.name}`}>
+            <X className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="ghost" size="icon" onClick={() => onRemove(item.id)} aria-label={`Remove ${item.file.name}`}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </li>
   );
 }
 
 
-export function ImageUploader({ onImageUpload }: ImageUploaderProps) {
+export function ImageUploader({ onImageUpload, maxConcurrentUploads = DEFAULT_MAX_CONCURRENT_UPLOADS }: ImageUploaderProps) {
   const [isDragging, setIsDragging] = useState(false);
-  const [previewSrc, setPreviewSrc] = useState<string | null>(null);
-  const [fileName, setFileName] = useState<string | null>(null);
-  const [clientError, setClientError] = useState<string | null>(null);
-  
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [keepCameraMetadata, setKeepCameraMetadata] = useState(false);
+  const [albums, setAlbums] = useState<AlbumOption[] | null>(null); // null while signed out
+  const [albumChoice, setAlbumChoice] = useState('none'); // 'none', 'new' or an album id
+  const [newAlbumTitle, setNewAlbumTitle] = useState('');
+
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const formRef = useRef<HTMLFormElement>(null);
+  const startedIdsRef = useRef(new Set<string>()); // Guards against starting the same upload twice
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
   const { toast } = useToast();
-  const isInitialMount = useRef(true);
 
-  const initialState: UploadImageResponse = { success: false };
-  const [state, formAction] = useActionState(uploadImageAction, initialState);
+  const updateItem = useCallback((id: string, changes: Partial<QueueItem>) => {
+    setQueue((prevQueue) => prevQueue.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
 
+  const uploadItem = useCallback(async (item: QueueItem) => {
+    updateItem(item.id, { status: 'uploading', progress: 0, bytesUploaded: 0, startedAt: Date.now(), error: undefined });
 
-  const resetClientState = useCallback(() => {
-    setPreviewSrc(null);
-    setFileName(null);
-    setClientError(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
-  }, []);
+    const abortController = new AbortController();
+    abortControllersRef.current.set(item.id, abortController);
 
-  useEffect(() => {
-    if (isInitialMount.current) {
-      isInitialMount.current = false;
-      // Check if 'state' is the default initial state without any actual action attempt signals (like errors populated)
-      if (state.success === false && !state.url && !state.name && !state.error && !state.errors) {
-        return; // Don't process this as a failed action on initial mount
+    try {
+      const state = await uploadWithProgress(item.file, {
+        signal: abortController.signal,
+        keepCameraMetadata: item.keepCameraMetadata,
+        onProgress: ({ loaded, total }) => {
+          updateItem(item.id, { bytesUploaded: loaded, progress: Math.round((loaded / total) * 100) });
+        },
+      });
+      if (state.success && state.id && state.url && state.name) {
+        updateItem(item.id, { status: 'success', progress: 100 });
+        if (state.deletionToken) {
+          saveDeletionToken(state.id, state.deletionToken);
+        }
+        if (item.albumId) {
+          const notAdded = (reason: string | undefined) =>
+            toast({ variant: 'destructive', title: 'Not added to album', description: `${state.name}: ${reason}` });
+          addImagesToAlbumAction(item.albumId, [state.id])
+            .then((result) => {
+              if (!result.success) notAdded(result.error);
+            })
+            .catch(() => notAdded('Network error. Please try again.'));
+        }
+        onImageUpload({
+          id: state.id,
+          name: state.name,
+          previewSrc: state.url,
+          url: state.url,
+          shortUrl: state.shortUrl,
+          mimeType: state.mimeType,
+          size: state.size,
+          width: state.width,
+          height: state.height,
+          variants: state.variants,
+          moderationStatus: state.moderationStatus,
+        });
+        if (state.moderationStatus === 'quarantined') {
+          toast({
+            title: 'Held for review',
+            description: `${state.name} was flagged and will be published once an admin approves it.`,
+          });
+        } else {
+          toast({
+            title: 'Image Uploaded!',
+            description: `${state.name} is now available. URL: ${state.shortUrl ?? state.url}`,
+          });
+        }
+      } else {
+        const errorMsg = state.error || state.errors?._form?.join(', ') || state.errors?.file?.join(', ') || 'Upload failed. Please try again.';
+        // Rejected content fails the same way every time; anything else may be transient
+        const retryable = state.code === 'SERVER_ERROR';
+        updateItem(item.id, { status: 'error', progress: 0, error: errorMsg, retryable });
+        toast({
+          variant: 'destructive',
+          title: 'Upload Failed',
+          description: `${item.file.name}: ${errorMsg}`,
+        });
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        updateItem(item.id, { status: 'cancelled', progress: 0, bytesUploaded: 0 });
+      } else {
+        updateItem(item.id, { status: 'error', progress: 0, error: 'Network error. Please try again.', retryable: true });
       }
+    } finally {
+      startedIdsRef.current.delete(item.id);
+      abortControllersRef.current.delete(item.id);
     }
+  }, [onImageUpload, toast, updateItem]);
 
-    if (state?.success && state.url && state.name && previewSrc) {
-      onImageUpload({ name: state.name, previewSrc: previewSrc, url: state.url });
-      toast({
-        title: 'Image Uploaded!',
-        description: `${state.name} is now available. URL: ${state.url}`,
-      });
-      resetClientState();
-      formRef.current?.reset(); 
-    } else if (state && !state.success) {
-      const errorMsg = state.error || state.errors?._form?.join(', ') || state.errors?.file?.join(', ') || 'Upload failed. Please try again.';
-      setClientError(errorMsg); 
-      toast({
-        variant: 'destructive',
-        title: 'Upload Failed',
-        description: errorMsg,
+  // Start queued uploads whenever a slot frees up
+  useEffect(() => {
+    const freeSlots = Math.max(0, maxConcurrentUploads - startedIdsRef.current.size);
+    queue
+      .filter((item) => item.status === 'queued' && !startedIdsRef.current.has(item.id))
+      .slice(0, freeSlots)
+      .forEach((item) => {
+        startedIdsRef.current.add(item.id);
+        uploadItem(item);
       });
-    }
-  }, [state, onImageUpload, toast, resetClientState, previewSrc]);
+  }, [queue, maxConcurrentUploads, uploadItem]);
+
+  // Cancel in-flight uploads and release thumbnails when the uploader goes away
+  useEffect(() => {
+    const abortControllers = abortControllersRef.current;
+    return () => {
+      abortControllers.forEach((controller) => controller.abort());
+      queueRef.current.forEach((item) => URL.revokeObjectURL(item.thumbnailSrc));
+    };
+  }, []);
 
+  useEffect(() => {
+    listMyAlbumsAction().then(setAlbums).catch(() => setAlbums(null));
+  }, []);
 
-  const handleFileSelected = useCallback((file: File | null) => {
-    setClientError(null); 
-    if (!file) {
-      setPreviewSrc(null);
-      setFileName(null);
-      if (fileInputRef.current) {
-          fileInputRef.current.value = ''; 
-      }
-      return;
-    }
+  // The album a newly added batch goes into, creating it first if a new one was asked for
+  const resolveAlbumId = useCallback(async (): Promise<string | undefined> => {
+    if (albumChoice === 'none') return undefined;
+    if (albumChoice !== 'new') return albumChoice;
 
-    if (!ACCEPTED_IMAGE_MIME_TYPES_ARRAY.includes(file.type)) {
-      setClientError(`Invalid file type. Please upload JPG, PNG, GIF, or WebP. You provided: ${file.type}`);
-      resetClientState(); 
-      return;
+    const title = newAlbumTitle.trim() || `Uploads from ${new Date().toLocaleDateString()}`;
+    const result = await createAlbumAction(title);
+    if (!result.success || !result.albumId) {
+      toast({ variant: 'destructive', title: 'Could not create album', description: result.error });
+      return undefined;
     }
+    const albumId = result.albumId;
+    // Further batches go to the same album unless another one is picked
+    setAlbums((prevAlbums) => [{ id: albumId, title, imageCount: 0 }, ...(prevAlbums ?? [])]);
+    setAlbumChoice(albumId);
+    setNewAlbumTitle('');
+    return albumId;
+  }, [albumChoice, newAlbumTitle, toast]);
 
-    if (file.size > MAX_FILE_SIZE_BYTES) {
-      setClientError(`File too large (max 10MB). Your file is ${(file.size / (1024*1024)).toFixed(2)}MB.`);
-      resetClientState();
-      return;
+  // Never rejects, as callers fire it and forget: if the album can't be created, the files are still added
+  const enqueueFiles = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+    let albumId: string | undefined;
+    try {
+      albumId = await resolveAlbumId();
+    } catch {
+      toast({ variant: 'destructive', title: 'Could not create album', description: 'The files will be uploaded without one.' });
     }
+    const newItems = files.map((file): QueueItem => {
+      const validationError = validateFile(file);
+      return {
+        id: crypto.randomUUID(),
+        file,
+        thumbnailSrc: URL.createObjectURL(file),
+        status: validationError ? 'error' : 'queued',
+        progress: 0,
+        bytesUploaded: 0,
+        error: validationError ?? undefined,
+        retryable: false,
+        keepCameraMetadata,
+        albumId,
+      };
+    });
+    setQueue((prevQueue) => [...prevQueue, ...newItems]);
+  }, [keepCameraMetadata, resolveAlbumId, toast]);
 
-    setFileName(file.name);
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setPreviewSrc(reader.result as string);
-    };
-    reader.onerror = () => {
-      setClientError('Error reading file for preview.');
-      resetClientState();
-    };
-    reader.readAsDataURL(file);
-  }, [resetClientState]);
+  const handleRetry = useCallback((id: string) => {
+    updateItem(id, { status: 'queued', progress: 0, error: undefined });
+  }, [updateItem]);
+
+  const handleCancel = useCallback((id: string) => {
+    abortControllersRef.current.get(id)?.abort();
+  }, []);
+
+  const handleRemove = useCallback((id: string) => {
+    setQueue((prevQueue) => {
+      const item = prevQueue.find((queued) => queued.id === id);
+      if (item) URL.revokeObjectURL(item.thumbnailSrc);
+      return prevQueue.filter((queued) => queued.id !== id);
+    });
+  }, []);
+
+  const handleClearFinished = () => {
+    setQueue((prevQueue) => {
+      prevQueue.filter((item) => item.status === 'success').forEach((item) => URL.revokeObjectURL(item.thumbnailSrc));
+      return prevQueue.filter((item) => item.status !== 'success');
+    });
+  };
 
   const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -262,69 +382,141 @@ export function ImageUploader({ onImageUpload }: ImageUploaderProps) {
     if (!isDragging) setIsDragging(true);
   };
 
-  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const file = e.dataTransfer.files[0];
-      if (fileInputRef.current) {
-        const dataTransfer = new DataTransfer();
-        dataTransfer.items.add(file);
-        fileInputRef.current.files = dataTransfer.files;
-      }
-      handleFileSelected(file); 
-      e.dataTransfer.clearData();
+    try {
+      enqueueFiles(await collectDroppedFiles(e.dataTransfer));
+    } catch {
+      toast({
+        variant: 'destructive',
+        title: 'Could not read dropped files',
+        description: 'Please try again or use the file picker instead.',
+      });
     }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      handleFileSelected(e.target.files[0]);
-    } else {
-      handleFileSelected(null); 
+      enqueueFiles(Array.from(e.target.files));
     }
+    // Allow selecting the same files again later
+    e.target.value = '';
   };
 
   const triggerFileInput = () => {
-    setClientError(null); // Clear client error before opening file dialog
     fileInputRef.current?.click();
   };
-  
-  useEffect(() => {
-    const currentPreview = previewSrc;
-    return () => {
-      if (currentPreview && currentPreview.startsWith('blob:')) { 
-        URL.revokeObjectURL(currentPreview);
-      }
-    };
-  }, [previewSrc]);
 
-  const serverErrorMsg = state && !state.success ? (state.error || state.errors?._form?.join(', ') || state.errors?.file?.join(', ')) : null;
+  const pendingCount = queue.filter((item) => item.status === 'queued' || item.status === 'uploading').length;
+  const finishedCount = queue.filter((item) => item.status === 'success').length;
 
   return (
     <Card className="shadow-xl hover:shadow-2xl transition-shadow duration-300">
       <CardHeader>
-        <CardTitle className="text-center text-xl">Upload Your Image</CardTitle>
-        <CardDescription className="text-center">Drag & drop or click to select a file.</CardDescription>
+        <CardTitle className="text-center text-xl">Upload Your Images</CardTitle>
+        <CardDescription className="text-center">Drag & drop files or folders, or click to select.</CardDescription>
       </CardHeader>
-      <CardContent>
-        <form action={formAction} ref={formRef} className="space-y-4">
-          <UploaderFormFields
-            previewSrc={previewSrc}
-            fileName={fileName}
-            clientError={clientError} // This is the ImageUploader's local clientError
-            serverError={serverErrorMsg} // This is error from server action
-            isDragging={isDragging}
-            handleDragEnter={handleDragEnter}
-            handleDragLeave={handleDragLeave}
-            handleDragOver={handleDragOver}
-            handleDrop={handleDrop}
-            triggerFileInput={triggerFileInput}
-            handleFileChange={handleFileChange}
-            fileInputRef={fileInputRef}
+      <CardContent className="space-y-4">
+        <div
+          onDragEnter={handleDragEnter}
+          onDragLeave={handleDragLeave}
+          onDragOver={handleDragOver}
+          onDrop={handleDrop}
+          onClick={triggerFileInput}
+          className={cn(
+            'flex flex-col items-center justify-center p-8 border-2 border-dashed rounded-lg transition-colors duration-200 ease-in-out cursor-pointer',
+            isDragging ? 'border-primary bg-accent/10' : 'border-border hover:border-primary/70'
+          )}
+          role="button"
+          aria-label="Image upload area"
+          tabIndex={0}
+          onKeyDown={(e) => { if (e.key === 'Enter') triggerFileInput(); }}
+        >
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            accept={ACCEPTED_IMAGE_MIME_TYPES_STRING}
+            multiple
+            className="hidden"
+          />
+          <div className="flex flex-col items-center text-center pointer-events-none">
+            <UploadCloud className="h-12 w-12 text-primary mb-4" />
+            <p className="text-lg font-semibold text-foreground">Drop images here or click to browse</p>
+            <p className="text-sm text-muted-foreground">Max 10MB each. JPG, PNG, GIF, WebP</p>
+          </div>
+        </div>
+
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id="keep-camera-metadata"
+            checked={keepCameraMetadata}
+            onCheckedChange={(checked) => setKeepCameraMetadata(checked === true)}
           />
-        </form>
+          <div className="grid gap-1 leading-none">
+            <Label htmlFor="keep-camera-metadata">Keep camera details</Label>
+            <p className="text-xs text-muted-foreground">
+              Camera model and exposure settings stay in the published file. Location and device serial numbers are always removed.
+            </p>
+          </div>
+        </div>
+
+        {albums && (
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+            <Label htmlFor="upload-album" className="shrink-0">Add to album</Label>
+            <Select value={albumChoice} onValueChange={setAlbumChoice}>
+              <SelectTrigger id="upload-album" className="sm:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No album</SelectItem>
+                <SelectItem value="new">New album...</SelectItem>
+                {albums.length > 0 && <SelectSeparator />}
+                {albums.map((album) => (
+                  <SelectItem key={album.id} value={album.id}>{album.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {albumChoice === 'new' && (
+              <Input
+                value={newAlbumTitle}
+                onChange={(e) => setNewAlbumTitle(e.target.value)}
+                placeholder="Album title"
+                aria-label="New album title"
+                maxLength={100}
+                className="sm:flex-1"
+              />
+            )}
+          </div>
+        )}
+
+        {queue.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {pendingCount > 0 ? `Uploading ${pendingCount} of ${queue.length}...` : `${finishedCount} of ${queue.length} uploaded`}
+              </span>
+              {finishedCount > 0 && (
+                <Button variant="link" size="sm" className="h-auto p-0" onClick={handleClearFinished}>
+                  Clear uploaded
+                </Button>
+              )}
+            </div>
+            <ul className="max-h-96 space-y-2 overflow-y-auto">
+              {queue.map((item) => (
+                <UploadQueueRow key={item.id} item={item} onRetry={handleRetry} onRemove={handleRemove} onCancel={handleCancel} />
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {queue.length === 0 && (
+          <Button onClick={triggerFileInput} className="w-full mt-6" variant="default" size="lg" type="button">
+            <UploadCloud className="mr-2 h-5 w-5" /> Select Images
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,44 @@
+"use client";
+
+import React from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ImageSortField, SortOrder } from '@/lib/image-store';
+
+const SORT_OPTIONS: { value: `${ImageSortField}-${SortOrder}`; label: string }[] = [
+  { value: 'date-desc', label: 'Newest first' },
+  { value: 'date-asc', label: 'Oldest first' },
+  { value: 'size-desc', label: 'Largest first' },
+  { value: 'size-asc', label: 'Smallest first' },
+  { value: 'name-asc', label: 'Name (A-Z)' },
+  { value: 'name-desc', label: 'Name (Z-A)' },
+];
+
+interface LibrarySortSelectProps {
+  sort: ImageSortField;
+  order: SortOrder;
+}
+
+export function LibrarySortSelect({ sort, order }: LibrarySortSelectProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const handleChange = (value: string) => {
+    const [nextSort, nextOrder] = value.split('-');
+    // A different order puts different images on every page, so start over from the first
+    router.push(`${pathname}?${new URLSearchParams({ sort: nextSort, order: nextOrder })}`);
+  };
+
+  return (
+    <Select value={`${sort}-${order}`} onValueChange={handleChange}>
+      <SelectTrigger className="w-44" aria-label="Sort images">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SORT_OPTIONS.map((option) => (
+          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Check, ChevronLeft, ChevronRight, Download, Link as LinkIcon, ZoomIn, ZoomOut } from 'lucide-react';
+import { ResponsiveImage } from '@/components/responsive-image';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useToast } from '@/hooks/use-toast';
+import type { ImageVariant } from '@/lib/image-sources';
+import { cn, formatFileSize } from '@/lib/utils';
+
+export interface LightboxImage {
+  id: string;
+  name: string;
+  url: string;
+  shortUrl?: string; // Preferred over the direct URL when copying a link
+  mimeType?: string;
+  size?: number;
+  width?: number | null;
+  height?: number | null;
+  variants?: ImageVariant[];
+  altText?: string | null;
+}
+
+interface LightboxProps {
+  images: LightboxImage[];
+  index: number | null; // Which image is open, or null when closed
+  onIndexChange: (index: number | null) => void;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 5;
+const ZOOM_STEP = 1.5; // Per button press or key press
+const SWIPE_THRESHOLD_PX = 50;
+
+interface View {
+  scale: number;
+  x: number; // Pan offset from the centre, in screen pixels
+  y: number;
+}
+
+const INITIAL_VIEW: View = { scale: 1, x: 0, y: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Keeps the zoomed image from being dragged further than its own overflow
+function clampView(view: View, stage: DOMRect): View {
+  const scale = clamp(view.scale, MIN_ZOOM, MAX_ZOOM);
+  const maxX = (stage.width * (scale - 1)) / 2;
+  const maxY = (stage.height * (scale - 1)) / 2;
+  return { scale, x: clamp(view.x, -maxX, maxX), y: clamp(view.y, -maxY, maxY) };
+}
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Shows one image at a time, as large as the viewport allows and uncropped, with zoom and pan
+export function Lightbox({ images, index, onIndexChange }: LightboxProps) {
+  const image = index !== null ? images[index] : undefined;
+  const hasPrevious = index !== null && index > 0;
+  const hasNext = index !== null && index < images.length - 1;
+
+  const isMobile = useIsMobile();
+  const { toast } = useToast();
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const pinch = useRef<{ startDistance: number; startScale: number } | null>(null);
+  const swipeStart = useRef<{ x: number; y: number } | null>(null);
+
+  // Every image starts out fitted to the screen
+  useEffect(() => {
+    setView(INITIAL_VIEW);
+    setIsCopied(false);
+  }, [image?.id]);
+
+  const showPrevious = useCallback(() => hasPrevious && onIndexChange(index! - 1), [hasPrevious, index, onIndexChange]);
+  const showNext = useCallback(() => hasNext && onIndexChange(index! + 1), [hasNext, index, onIndexChange]);
+
+  // Zooms so the point under (clientX, clientY) stays put; without a point, around the centre
+  const zoomTo = useCallback((nextScale: number, clientX?: number, clientY?: number) => {
+    const stage = stageRef.current?.getBoundingClientRect();
+    if (!stage) return;
+    setView((current) => {
+      const scale = clamp(nextScale, MIN_ZOOM, MAX_ZOOM);
+      const px = clientX === undefined ? 0 : clientX - (stage.left + stage.width / 2);
+      const py = clientY === undefined ? 0 : clientY - (stage.top + stage.height / 2);
+      const ratio = scale / current.scale;
+      return clampView({ scale, x: px - (px - current.x) * ratio, y: py - (py - current.y) * ratio }, stage);
+    });
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Escape is handled by the dialog itself
+    switch (e.key) {
+      case 'ArrowLeft':
+        showPrevious();
+        break;
+      case 'ArrowRight':
+        showNext();
+        break;
+      case '+':
+      case '=':
+        zoomTo(view.scale * ZOOM_STEP);
+        break;
+      case '-':
+        zoomTo(view.scale / ZOOM_STEP);
+        break;
+      case '0':
+        setView(INITIAL_VIEW);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    // Trackpad pinches arrive as wheel events too, with small deltas
+    zoomTo(view.scale * Math.exp(-e.deltaY * 0.002), e.clientX, e.clientY);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      pinch.current = { startDistance: distance(a, b), startScale: view.scale };
+      swipeStart.current = null; // A pinch is never also a swipe
+    } else if (pointers.current.size === 1) {
+      swipeStart.current = { x: e.clientX, y: e.clientY };
+      setIsDragging(view.scale > 1);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pinch.current && pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      const { startDistance, startScale } = pinch.current;
+      zoomTo(startScale * (distance(a, b) / startDistance), (a.x + b.x) / 2, (a.y + b.y) / 2);
+    } else if (pointers.current.size === 1 && view.scale > 1) {
+      const stage = stageRef.current?.getBoundingClientRect();
+      if (!stage) return;
+      setView((current) => clampView({ ...current, x: current.x + e.clientX - previous.x, y: current.y + e.clientY - previous.y }, stage));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = swipeStart.current;
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) pinch.current = null;
+    if (pointers.current.size === 0) {
+      swipeStart.current = null;
+      setIsDragging(false);
+    }
+
+    // Swiping only changes images on touch screens, and only while not zoomed in (where it pans)
+    if (!start || !isMobile || view.scale > 1) return;
+    const dx = e.clientX - start.x;
+    const dy = e.clientY - start.y;
+    if (Math.abs(dx) > SWIPE_THRESHOLD_PX && Math.abs(dx) > Math.abs(dy) * 1.5) {
+      if (dx < 0) showNext();
+      else showPrevious();
+    }
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    zoomTo(view.scale > 1 ? 1 : 2, e.clientX, e.clientY);
+  };
+
+  const handleCopyLink = async () => {
+    if (!image) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${image.shortUrl ?? image.url}`);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch {
+      toast({ variant: 'destructive', title: 'Copy Failed', description: 'Could not copy the image link.' });
+    }
+  };
+
+  const details = image && [
+    image.size !== undefined ? formatFileSize(image.size) : null,
+    image.width && image.height ? `${image.width} × ${image.height}` : null,
+    images.length > 1 ? `${index! + 1} of ${images.length}` : null,
+  ].filter(Boolean).join(' · ');
+
+  const toolbarButton = 'h-9 w-9 text-white hover:bg-white/20 hover:text-white';
+
+  return (
+    <Dialog open={!!image} onOpenChange={(open) => !open && onIndexChange(null)}>
+      <DialogContent
+        className="flex h-[95vh] max-w-[95vw] flex-col gap-0 overflow-hidden border-none bg-black/95 p-0 text-white sm:rounded-lg [&>button:last-child]:bg-transparent [&>button:last-child]:text-white"
+        onKeyDown={handleKeyDown}
+      >
+        {image && (
+          <>
+            <div
+              ref={stageRef}
+              className={cn(
+                'relative flex min-h-0 flex-1 touch-none select-none items-center justify-center overflow-hidden',
+                view.scale > 1 ? (isDragging ? 'cursor-grabbing' : 'cursor-grab') : 'cursor-zoom-in'
+              )}
+              onWheel={handleWheel}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              onDoubleClick={handleDoubleClick}
+            >
+              <div
+                className={cn('flex h-full w-full items-center justify-center p-2 [&_picture]:contents', !isDragging && 'transition-transform duration-100')}
+                style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+              >
+                <ResponsiveImage
+                  key={image.id}
+                  src={image.url}
+                  alt={image.altText ?? image.name}
+                  // Once zoomed in, ask for the sharpest copy there is
+                  sizes={view.scale > 1 ? `${95 * MAX_ZOOM}vw` : '95vw'}
+                  mimeType={image.mimeType}
+                  originalWidth={image.width}
+                  variants={image.variants}
+                  draggable={false}
+                  className="max-h-full max-w-full object-contain"
+                />
+              </div>
+              {!isMobile && hasPrevious && (
+                <Button variant="ghost" size="icon" className="absolute left-2 text-white hover:bg-white/20 hover:text-white" onClick={showPrevious} onPointerDown={(e) => e.stopPropagation()} aria-label="Previous image">
+                  <ChevronLeft className="h-6 w-6" />
+                </Button>
+              )}
+              {!isMobile && hasNext && (
+                <Button variant="ghost" size="icon" className="absolute right-2 text-white hover:bg-white/20 hover:text-white" onClick={showNext} onPointerDown={(e) => e.stopPropagation()} aria-label="Next image">
+                  <ChevronRight className="h-6 w-6" />
+                </Button>
+              )}
+            </div>
+            <div className="flex items-center gap-2 border-t border-white/10 px-3 py-2">
+              <div className="min-w-0 flex-1">
+                <DialogTitle className="truncate text-sm font-medium">{image.name}</DialogTitle>
+                <DialogDescription className="truncate text-xs text-white/60">{details}</DialogDescription>
+              </div>
+              <Button variant="ghost" size="icon" className={cn(toolbarButton, 'hidden sm:inline-flex')} onClick={() => zoomTo(view.scale / ZOOM_STEP)} disabled={view.scale <= MIN_ZOOM} aria-label="Zoom out">
+                <ZoomOut className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className={cn(toolbarButton, 'hidden sm:inline-flex')} onClick={() => zoomTo(view.scale * ZOOM_STEP)} disabled={view.scale >= MAX_ZOOM} aria-label="Zoom in">
+                <ZoomIn className="h-4 w-4" />
+              </Button>
+              <Button asChild variant="ghost" size="icon" className={toolbarButton}>
+                <a href={image.url} download={image.name} aria-label="Download">
+                  <Download className="h-4 w-4" />
+                </a>
+              </Button>
+              <Button variant="ghost" size="icon" className={toolbarButton} onClick={handleCopyLink} aria-label="Copy link">
+                {isCopied ? <Check className="h-4 w-4 text-green-500" /> : <LinkIcon className="h-4 w-4" />}
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
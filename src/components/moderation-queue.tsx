@@ -0,0 +1,86 @@
+"use client";
+
+import React, { useState, useTransition } from 'react';
+import { Check, Trash2 } from 'lucide-react';
+import { approveImageAction, rejectImageAction, type ModerationActionResult } from '@/app/actions/moderation-actions';
+import { ResponsiveImage } from '@/components/responsive-image';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import type { StoredImage } from '@/lib/stored-image';
+import { formatFileSize } from '@/lib/utils';
+
+// Cards are in 1 column, then 2 from sm and 3 from lg
+const CARD_SIZES = '(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw';
+
+export interface QueuedImage extends StoredImage {
+  reason: string | null;
+  uploaderEmail: string | null; // Null for anonymous uploads
+}
+
+function QueuedImageCard({ image, onReviewed }: { image: QueuedImage; onReviewed: (id: string) => void }) {
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const review = (action: (imageId: string) => Promise<ModerationActionResult>, doneMessage: string) => {
+    startTransition(async () => {
+      const result = await action(image.id);
+      if (result.success) {
+        toast({ title: doneMessage, description: image.name });
+        onReviewed(image.id);
+      } else {
+        toast({ variant: 'destructive', title: 'Could not review image', description: result.error });
+      }
+    });
+  };
+
+  return (
+    <Card className="flex flex-col overflow-hidden">
+      <div className="relative aspect-video bg-muted">
+        <ResponsiveImage
+          src={image.url}
+          alt={image.altText ?? `Preview of ${image.name}`}
+          sizes={CARD_SIZES}
+          mimeType={image.mimeType}
+          originalWidth={image.width}
+          variants={image.variants}
+          loading="lazy"
+          className="absolute inset-0 h-full w-full object-contain"
+        />
+      </div>
+      <CardHeader className="space-y-1 p-4">
+        <CardTitle className="truncate text-base" title={image.name}>{image.name}</CardTitle>
+        <CardDescription>
+          {image.uploaderEmail ?? 'Anonymous'} · {formatFileSize(image.size)} · {new Date(image.uploadedAt).toLocaleString()}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex-grow px-4 pb-4 text-sm">
+        {image.reason ?? 'No reason given.'}
+      </CardContent>
+      <CardFooter className="gap-2 p-4 pt-0">
+        <Button size="sm" onClick={() => review(approveImageAction, 'Image approved')} disabled={isPending}>
+          <Check className="mr-2 h-4 w-4" /> Approve
+        </Button>
+        <Button size="sm" variant="destructive" onClick={() => review(rejectImageAction, 'Image rejected and deleted')} disabled={isPending}>
+          <Trash2 className="mr-2 h-4 w-4" /> Reject
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+// Reviewed images drop out of the list straight away; reloading picks up newly flagged ones
+export function ModerationQueue({ initialImages }: { initialImages: QueuedImage[] }) {
+  const [images, setImages] = useState(initialImages);
+
+  if (images.length === 0) {
+    return <p className="py-10 text-center text-lg text-muted-foreground">Nothing is waiting for review.</p>;
+  }
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      {images.map((image) => (
+        <QueuedImageCard key={image.id} image={image} onReviewed={(id) => setImages((prev) => prev.filter((other) => other.id !== id))} />
+      ))}
+    </div>
+  );
+}
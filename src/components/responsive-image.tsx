@@ -0,0 +1,31 @@
+import React from 'react';
+import { buildSrcSet, type ImageVariant } from '@/lib/image-sources';
+
+interface ResponsiveImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet'> {
+  src: string;
+  alt: string;
+  sizes: string;
+  mimeType?: string;
+  originalWidth?: number | null;
+  variants?: ImageVariant[];
+}
+
+/**
+ * Renders an upload through its pre-generated variants: WebP for browsers that take it, the
+ * original format otherwise, letting the browser pick a width from `sizes`. Without variants
+ * this is a plain <img> of `src`.
+ */
+export function ResponsiveImage({ src, alt, sizes, mimeType, originalWidth, variants = [], ...imgProps }: ResponsiveImageProps) {
+  const original = { url: src, width: originalWidth ?? null };
+  const webpSrcSet = buildSrcSet(variants, 'image/webp', mimeType === 'image/webp' ? original : undefined);
+  const fallbackType = mimeType && mimeType !== 'image/webp' ? mimeType : undefined;
+  const fallbackSrcSet = fallbackType ? buildSrcSet(variants, fallbackType, original) : undefined;
+
+  return (
+    <picture>
+      {webpSrcSet && <source type="image/webp" srcSet={webpSrcSet} sizes={sizes} />}
+      {/* A plain img rather than next/image: the variants already are the optimized sizes */}
+      <img src={src} srcSet={fallbackSrcSet} sizes={fallbackSrcSet ? sizes : undefined} alt={alt} {...imgProps} />
+    </picture>
+  );
+}
@@ -0,0 +1,74 @@
+import Image from 'next/image';
+import Link from 'next/link';
+import { FolderOpen, Images, KeyRound, LogOut, ShieldCheck, Webhook } from 'lucide-react';
+import { signOutAction } from '@/app/actions/auth-actions';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { Button } from '@/components/ui/button';
+import { isAdmin } from '@/lib/admin';
+import { getCurrentUser } from '@/lib/session';
+
+export async function SiteHeader() {
+  const user = await getCurrentUser();
+
+  return (
+    <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+      <div className="container flex h-16 items-center justify-between px-4 sm:px-6 lg:px-8">
+        <Link href="/" className="flex items-center gap-2">
+          <Image src="https://picsum.photos/seed/imagedrop-logo/40/40" alt="ImageDrop Logo" width={32} height={32} className="rounded-md" data-ai-hint="logo abstract" />
+          <h1 className="text-2xl font-bold text-primary">ImageDrop</h1>
+        </Link>
+        <div className="flex items-center gap-2">
+          {user ? (
+            <>
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/library">
+                  <Images className="mr-2 h-4 w-4" /> My images
+                </Link>
+              </Button>
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/albums">
+                  <FolderOpen className="mr-2 h-4 w-4" /> Albums
+                </Link>
+              </Button>
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/settings/api-keys">
+                  <KeyRound className="mr-2 h-4 w-4" /> API keys
+                </Link>
+              </Button>
+              {isAdmin(user) && (
+                <>
+                  <Button asChild variant="ghost" size="sm">
+                    <Link href="/admin/moderation">
+                      <ShieldCheck className="mr-2 h-4 w-4" /> Review
+                    </Link>
+                  </Button>
+                  <Button asChild variant="ghost" size="sm">
+                    <Link href="/admin/webhooks">
+                      <Webhook className="mr-2 h-4 w-4" /> Webhooks
+                    </Link>
+                  </Button>
+                </>
+              )}
+              <span className="hidden text-sm text-muted-foreground md:inline" title={user.email}>{user.email}</span>
+              <form action={signOutAction}>
+                <Button type="submit" variant="ghost" size="sm">
+                  <LogOut className="mr-2 h-4 w-4" /> Sign out
+                </Button>
+              </form>
+            </>
+          ) : (
+            <>
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/sign-in">Sign in</Link>
+              </Button>
+              <Button asChild size="sm">
+                <Link href="/sign-up">Sign up</Link>
+              </Button>
+            </>
+          )}
+          <ThemeToggle />
+        </div>
+      </div>
+    </header>
+  );
+}
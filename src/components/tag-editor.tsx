@@ -0,0 +1,153 @@
+"use client";
+
+import React, { useState, useTransition } from 'react';
+import { Check, Sparkles, Tag, X } from 'lucide-react';
+import { reviewSuggestedTagAction, setImageTagsAction, type ImageTagsResult } from '@/app/actions/image-actions';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { MAX_TAGS_PER_IMAGE, normalizeTag } from '@/lib/image-tags';
+
+export interface ImageTagState {
+  tags: string[];
+  suggestedTags: string[];
+}
+
+interface TagEditorProps {
+  imageId: string;
+  tags: string[];
+  deletionToken?: string | null; // Proves the upload for anonymous images
+  onSaved: (state: ImageTagState) => void;
+}
+
+const toTagState = (result: ImageTagsResult): ImageTagState => ({ tags: result.tags ?? [], suggestedTags: result.suggestedTags ?? [] });
+
+// A popover for adding and removing an image's confirmed tags, which are saved all at once
+export function TagEditor({ imageId, tags, deletionToken, onSaved }: TagEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<string[]>(tags);
+  const [input, setInput] = useState('');
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(tags);
+      setInput('');
+    }
+    setOpen(nextOpen);
+  };
+
+  // Takes whatever is typed so far, which may be several comma separated tags
+  const commitInput = () => {
+    const added = input.split(',').map(normalizeTag).filter((tag) => tag && !draft.includes(tag));
+    setDraft((prev) => [...prev, ...new Set(added)]);
+    setInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commitInput();
+    } else if (e.key === 'Backspace' && input === '' && draft.length > 0) {
+      setDraft((prev) => prev.slice(0, -1));
+    }
+  };
+
+  const handleSave = () => {
+    const pendingTags = input.split(',').map(normalizeTag).filter(Boolean);
+    startTransition(async () => {
+      const result = await setImageTagsAction(imageId, [...draft, ...pendingTags], deletionToken ?? undefined);
+      if (result.success) {
+        onSaved(toTagState(result));
+        setOpen(false);
+      } else {
+        toast({ variant: 'destructive', title: 'Could not save tags', description: result.error });
+      }
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-auto p-0 text-muted-foreground hover:bg-transparent">
+          <Tag className="mr-1 h-3 w-3" /> {tags.length > 0 ? 'Edit tags' : 'Add tags'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="start">
+        <div className="flex flex-wrap gap-1">
+          {draft.length === 0 && <span className="text-sm text-muted-foreground">No tags yet.</span>}
+          {draft.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+              {tag}
+              <button type="button" onClick={() => setDraft((prev) => prev.filter((t) => t !== tag))} aria-label={`Remove tag ${tag}`} className="rounded-full hover:bg-muted-foreground/20">
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={commitInput}
+          placeholder="Add a tag, then press Enter"
+          aria-label="New tag"
+          disabled={draft.length >= MAX_TAGS_PER_IMAGE}
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button size="sm" onClick={handleSave} disabled={isPending}>Save</Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface SuggestedTagListProps {
+  imageId: string;
+  suggestedTags: string[];
+  canReview: boolean;
+  deletionToken?: string | null;
+  onReviewed: (state: ImageTagState) => void;
+}
+
+// Tags the auto-tagger attached. Whoever can edit the image accepts or rejects them one by one.
+export function SuggestedTagList({ imageId, suggestedTags, canReview, deletionToken, onReviewed }: SuggestedTagListProps) {
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const review = (tag: string, accept: boolean) => {
+    startTransition(async () => {
+      const result = await reviewSuggestedTagAction(imageId, tag, accept, deletionToken ?? undefined);
+      if (result.success) {
+        onReviewed(toTagState(result));
+      } else {
+        toast({ variant: 'destructive', title: 'Could not update tag', description: result.error });
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <Sparkles className="h-3 w-3 text-muted-foreground" aria-label="Suggested tags" />
+      {suggestedTags.map((tag) => (
+        <Badge key={tag} variant="outline" className="gap-1 border-dashed font-normal" title="Suggested automatically">
+          {tag}
+          {canReview && (
+            <>
+              <button type="button" onClick={() => review(tag, true)} disabled={isPending} aria-label={`Accept tag ${tag}`} className="rounded-full hover:text-green-600">
+                <Check className="h-3 w-3" />
+              </button>
+              <button type="button" onClick={() => review(tag, false)} disabled={isPending} aria-label={`Reject tag ${tag}`} className="rounded-full hover:text-destructive">
+                <X className="h-3 w-3" />
+              </button>
+            </>
+          )}
+        </Badge>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import React, { useTransition } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { createUploaderConfigAction } from '@/app/actions/uploader-actions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import type { UploaderConfigFile, UploaderTool } from '@/lib/uploader-configs';
+
+const TOOLS: { tool: UploaderTool; title: string; description: string; steps: string[] }[] = [
+  {
+    tool: 'sharex',
+    title: 'ShareX',
+    description: 'A custom uploader config for ShareX on Windows.',
+    steps: [
+      'Open the downloaded imagedrop.sxcu file; ShareX asks to add it as a custom uploader.',
+      'Under Destinations, pick "Custom image uploader" and choose ImageDrop.',
+      'After each capture the link is copied, and the deletion link is kept in ShareX’s history.',
+    ],
+  },
+  {
+    tool: 'flameshot',
+    title: 'Flameshot',
+    description: 'A shell script that captures with Flameshot, uploads and copies the link.',
+    steps: [
+      'Make the downloaded script executable: chmod +x imagedrop-flameshot.sh',
+      'Bind it to a keyboard shortcut in your desktop’s settings.',
+      'It needs curl, and wl-copy or xclip to copy the link.',
+    ],
+  },
+];
+
+function saveFile({ filename, mimeType, content }: UploaderConfigFile) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function UploaderCard({ tool, title, description, steps }: (typeof TOOLS)[number]) {
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const handleDownload = () => {
+    startTransition(async () => {
+      const result = await createUploaderConfigAction(tool);
+      if (result.success && result.file) {
+        saveFile(result.file);
+      } else {
+        toast({ variant: 'destructive', title: 'Could not create config', description: result.error });
+      }
+    });
+  };
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="flex-grow">
+        <ol className="list-decimal space-y-1 pl-5 text-sm text-muted-foreground">
+          {steps.map((step) => (
+            <li key={step}>{step}</li>
+          ))}
+        </ol>
+      </CardContent>
+      <CardFooter>
+        <Button onClick={handleDownload} disabled={isPending}>
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Download
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+export function UploaderDownloads() {
+  return (
+    <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+      {TOOLS.map((tool) => (
+        <UploaderCard key={tool.tool} {...tool} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+"use client";
+
+import React, { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Check, Copy, Loader2, RefreshCw, Send, Trash2, Webhook } from 'lucide-react';
+import { createWebhookAction, deleteWebhookAction, redeliverWebhookAction, type WebhookSummary } from '@/app/actions/webhook-actions';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { WEBHOOK_EVENT_DESCRIPTIONS, WEBHOOK_EVENTS, type WebhookEvent } from '@/lib/webhook-events';
+import type { WebhookDeliverySummary } from '@/lib/webhooks';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+function CreateWebhookForm({ onCreated }: { onCreated: (webhook: WebhookSummary, secret: string) => void }) {
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>([...WEBHOOK_EVENTS]);
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents((prev) => (checked ? [...prev, event] : prev.filter((other) => other !== event)));
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    startTransition(async () => {
+      const result = await createWebhookAction(url, events);
+      if (result.success && result.webhook && result.secret) {
+        onCreated(result.webhook, result.secret);
+        setUrl('');
+      } else {
+        toast({ variant: 'destructive', title: 'Could not add webhook', description: result.error });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Add an endpoint</CardTitle>
+        <CardDescription>Endpoints should answer with a 2xx status within 10 seconds. Anything else counts as a failed delivery.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="max-w-lg space-y-2">
+            <Label htmlFor="webhook-url">URL</Label>
+            <Input id="webhook-url" type="url" value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://tools.example.com/hooks/imagedrop" required />
+          </div>
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium">Events</legend>
+            {WEBHOOK_EVENTS.map((event) => (
+              <div key={event} className="flex items-center gap-2">
+                <Checkbox id={`webhook-event-${event}`} checked={events.includes(event)} onCheckedChange={(checked) => toggleEvent(event, checked === true)} />
+                <Label htmlFor={`webhook-event-${event}`} className="font-normal">
+                  <span className="font-medium">{event}</span> – {WEBHOOK_EVENT_DESCRIPTIONS[event]}
+                </Label>
+              </div>
+            ))}
+          </fieldset>
+          <Button type="submit" disabled={isPending || events.length === 0}>
+            {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Webhook className="mr-2 h-4 w-4" />}
+            Add webhook
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Shows a new webhook's signing secret. Once closed there's no way to see it again.
+function NewSecretDialog({ webhook, onClose }: { webhook: { url: string; secret: string } | null; onClose: () => void }) {
+  const [isCopied, setIsCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!webhook) return;
+    await navigator.clipboard.writeText(webhook.secret);
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 2000);
+  };
+
+  return (
+    <Dialog open={!!webhook} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Copy the signing secret</DialogTitle>
+          <DialogDescription>
+            The endpoint at {webhook?.url} needs this to verify that deliveries come from ImageDrop. This is the only time it&apos;s shown.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-2">
+          <Input value={webhook?.secret ?? ''} readOnly className="font-mono text-sm" aria-label="Signing secret" onFocus={(e) => e.target.select()} />
+          <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy signing secret">
+            {isCopied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DeleteWebhookButton({ webhook, onDeleted }: { webhook: WebhookSummary; onDeleted: (id: string) => void }) {
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const handleDelete = () => {
+    startTransition(async () => {
+      const result = await deleteWebhookAction(webhook.id);
+      if (result.success) {
+        onDeleted(webhook.id);
+      } else {
+        toast({ variant: 'destructive', title: 'Could not delete webhook', description: result.error });
+      }
+    });
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={isPending} className="text-destructive hover:text-destructive">
+          <Trash2 className="mr-2 h-4 w-4" /> Delete
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete this webhook?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {webhook.url} won&apos;t hear about new events, and deliveries still waiting to be retried are dropped along with its log.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+const STATUS_BADGES: Record<WebhookDeliverySummary['status'], { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  succeeded: { label: 'Delivered', variant: 'secondary' },
+  pending: { label: 'Retrying', variant: 'default' },
+  dead: { label: 'Dead', variant: 'destructive' },
+};
+
+function describeOutcome(delivery: WebhookDeliverySummary): string {
+  if (delivery.attempts === 0) return 'Not sent yet';
+  const outcome = delivery.lastError ?? `HTTP ${delivery.responseStatus}`;
+  if (delivery.status === 'pending' && delivery.nextAttemptAt) {
+    return `${outcome} Next attempt ${formatDate(delivery.nextAttemptAt)}.`;
+  }
+  return outcome;
+}
+
+function PayloadDialog({ delivery }: { delivery: WebhookDeliverySummary }) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">Payload</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{delivery.event}</DialogTitle>
+          <DialogDescription>Event {delivery.eventId}, delivery {delivery.id}</DialogDescription>
+        </DialogHeader>
+        <pre className="max-h-96 overflow-auto rounded bg-muted p-3 text-xs">{JSON.stringify(JSON.parse(delivery.payload), null, 2)}</pre>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RedeliverButton({ delivery }: { delivery: WebhookDeliverySummary }) {
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleRedeliver = () => {
+    startTransition(async () => {
+      const result = await redeliverWebhookAction(delivery.id);
+      if (result.success) {
+        toast({ title: 'Redelivery queued', description: delivery.webhookUrl });
+        router.refresh();
+      } else {
+        toast({ variant: 'destructive', title: 'Could not redeliver', description: result.error });
+      }
+    });
+  };
+
+  return (
+    <Button variant="ghost" size="sm" onClick={handleRedeliver} disabled={isPending}>
+      <Send className="mr-2 h-4 w-4" /> Redeliver
+    </Button>
+  );
+}
+
+function DeliveryTable({ deliveries, emptyMessage }: { deliveries: WebhookDeliverySummary[]; emptyMessage: string }) {
+  if (deliveries.length === 0) {
+    return <p className="py-10 text-center text-lg text-muted-foreground">{emptyMessage}</p>;
+  }
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Event</TableHead>
+          <TableHead>Endpoint</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Attempts</TableHead>
+          <TableHead>Last attempt</TableHead>
+          <TableHead>Created</TableHead>
+          <TableHead className="sr-only">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {deliveries.map((delivery) => (
+          <TableRow key={delivery.id}>
+            <TableCell className="font-medium">{delivery.event}</TableCell>
+            <TableCell className="max-w-xs truncate text-sm text-muted-foreground" title={delivery.webhookUrl}>{delivery.webhookUrl}</TableCell>
+            <TableCell>
+              <Badge variant={STATUS_BADGES[delivery.status].variant} className="font-normal">{STATUS_BADGES[delivery.status].label}</Badge>
+            </TableCell>
+            <TableCell className="text-sm">{delivery.attempts}</TableCell>
+            <TableCell className="max-w-xs text-sm text-muted-foreground">{describeOutcome(delivery)}</TableCell>
+            <TableCell className="text-sm text-muted-foreground">{formatDate(delivery.createdAt)}</TableCell>
+            <TableCell className="whitespace-nowrap text-right">
+              <PayloadDialog delivery={delivery} />
+              {delivery.status === 'dead' && <RedeliverButton delivery={delivery} />}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+interface WebhookManagerProps {
+  initialWebhooks: WebhookSummary[];
+  deliveries: WebhookDeliverySummary[]; // The latest, newest first
+  deadDeliveries: WebhookDeliverySummary[];
+}
+
+export function WebhookManager({ initialWebhooks, deliveries, deadDeliveries }: WebhookManagerProps) {
+  const [webhooks, setWebhooks] = useState(initialWebhooks);
+  const [newWebhook, setNewWebhook] = useState<{ url: string; secret: string } | null>(null);
+  const [isRefreshing, startRefresh] = useTransition();
+  const router = useRouter();
+
+  const handleCreated = (webhook: WebhookSummary, secret: string) => {
+    setWebhooks((prev) => [webhook, ...prev]);
+    setNewWebhook({ url: webhook.url, secret });
+  };
+
+  const handleDeleted = (id: string) => {
+    setWebhooks((prev) => prev.filter((other) => other.id !== id));
+    router.refresh(); // Its deliveries are gone from the log too
+  };
+
+  return (
+    <div className="space-y-8">
+      <CreateWebhookForm onCreated={handleCreated} />
+      <NewSecretDialog webhook={newWebhook} onClose={() => setNewWebhook(null)} />
+      {webhooks.length === 0 ? (
+        <p className="py-10 text-center text-lg text-muted-foreground">No webhooks yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>URL</TableHead>
+              <TableHead>Events</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead className="sr-only">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {webhooks.map((webhook) => (
+              <TableRow key={webhook.id}>
+                <TableCell className="max-w-sm truncate font-medium" title={webhook.url}>{webhook.url}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {webhook.events.map((event) => (
+                      <Badge key={event} variant="secondary" className="font-normal">{event}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{formatDate(webhook.createdAt)}</TableCell>
+                <TableCell className="text-right">
+                  <DeleteWebhookButton webhook={webhook} onDeleted={handleDeleted} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <section className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">Deliveries</h3>
+          <Button variant="outline" size="sm" onClick={() => startRefresh(() => router.refresh())} disabled={isRefreshing}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} /> Refresh
+          </Button>
+        </div>
+        <Tabs defaultValue="recent">
+          <TabsList>
+            <TabsTrigger value="recent">Recent</TabsTrigger>
+            <TabsTrigger value="dead">Dead letters ({deadDeliveries.length})</TabsTrigger>
+          </TabsList>
+          <TabsContent value="recent">
+            <DeliveryTable deliveries={deliveries} emptyMessage="Nothing has been sent yet." />
+          </TabsContent>
+          <TabsContent value="dead">
+            <DeliveryTable deliveries={deadDeliveries} emptyMessage="No failed deliveries." />
+          </TabsContent>
+        </Tabs>
+      </section>
+    </div>
+  );
+}
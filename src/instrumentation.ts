@@ -0,0 +1,9 @@
+// Runs once when a server instance starts (https://nextjs.org/docs/app/guides/instrumentation)
+export async function register() {
+  // The edge runtime has no SQLite; webhooks are only ever delivered from the Node.js one
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { scheduleWebhookDeliveries } = await import('@/lib/webhooks');
+    // Resumes the retries that were waiting when the server last stopped
+    scheduleWebhookDeliveries();
+  }
+}
@@ -0,0 +1,22 @@
+import type { UserRecord } from '@/lib/auth-store';
+import type { ImageRecord } from '@/lib/image-store';
+import { getCurrentUser } from '@/lib/session';
+
+// Accounts listed in ADMIN_EMAILS (comma separated) can review quarantined uploads
+function adminEmails(): Set<string> {
+  return new Set(
+    (process.env.ADMIN_EMAILS ?? '')
+      .split(',')
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+export function isAdmin(user: UserRecord | null): boolean {
+  return !!user && adminEmails().has(user.email);
+}
+
+// Quarantined images are only served to admins, who have to see them to review them
+export async function canViewImage(image: ImageRecord): Promise<boolean> {
+  return image.moderationStatus === 'approved' || isAdmin(await getCurrentUser());
+}
@@ -0,0 +1,121 @@
+import { getDb } from '@/lib/db';
+
+export interface AlbumRecord {
+  id: string; // Short id, used in /a/<id>
+  userId: string;
+  title: string;
+  coverImageId: string | null; // Falls back to the first image when unset
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+export interface AlbumSummary extends AlbumRecord {
+  imageCount: number;
+  previewImageId: string | null; // The cover, or the first image if no cover was chosen
+}
+
+interface AlbumRow {
+  id: string;
+  user_id: string;
+  title: string;
+  cover_image_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toRecord(row: AlbumRow): AlbumRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    coverImageId: row.cover_image_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function insertAlbum(record: AlbumRecord): void {
+  getDb()
+    .prepare(
+      `INSERT INTO albums (id, user_id, title, cover_image_id, created_at, updated_at)
+       VALUES (@id, @userId, @title, @coverImageId, @createdAt, @updatedAt)`
+    )
+    .run(record);
+}
+
+export function getAlbum(id: string): AlbumRecord | null {
+  const row = getDb().prepare('SELECT * FROM albums WHERE id = ?').get(id) as AlbumRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+// Most recently changed first, which is usually the album someone wants to add to next
+export function listUserAlbums(userId: string): AlbumSummary[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT albums.*,
+         (SELECT COUNT(*) FROM album_images WHERE album_id = albums.id) AS image_count,
+         COALESCE(cover_image_id, (SELECT image_id FROM album_images WHERE album_id = albums.id ORDER BY position LIMIT 1)) AS preview_image_id
+       FROM albums WHERE user_id = ? ORDER BY updated_at DESC`
+    )
+    .all(userId) as (AlbumRow & { image_count: number; preview_image_id: string | null })[];
+  return rows.map((row) => ({ ...toRecord(row), imageCount: row.image_count, previewImageId: row.preview_image_id }));
+}
+
+export function updateAlbum(id: string, changes: Partial<Pick<AlbumRecord, 'title' | 'coverImageId'>>): void {
+  const db = getDb();
+  const now = new Date().toISOString();
+  if (changes.title !== undefined) {
+    db.prepare('UPDATE albums SET title = ?, updated_at = ? WHERE id = ?').run(changes.title, now, id);
+  }
+  if (changes.coverImageId !== undefined) {
+    db.prepare('UPDATE albums SET cover_image_id = ?, updated_at = ? WHERE id = ?').run(changes.coverImageId, now, id);
+  }
+}
+
+export function deleteAlbum(id: string): void {
+  getDb().prepare('DELETE FROM albums WHERE id = ?').run(id);
+}
+
+export function albumContainsImage(albumId: string, imageId: string): boolean {
+  return !!getDb().prepare('SELECT 1 FROM album_images WHERE album_id = ? AND image_id = ?').get(albumId, imageId);
+}
+
+// Appends images to the end of the album, skipping ones it already contains
+export function addAlbumImages(albumId: string, imageIds: string[]): void {
+  const db = getDb();
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO album_images (album_id, image_id, position)
+     VALUES (?, ?, (SELECT COALESCE(MAX(position), -1) + 1 FROM album_images WHERE album_id = ?))`
+  );
+  db.transaction(() => {
+    imageIds.forEach((imageId) => insert.run(albumId, imageId, albumId));
+    db.prepare('UPDATE albums SET updated_at = ? WHERE id = ?').run(new Date().toISOString(), albumId);
+  })();
+}
+
+export function removeAlbumImage(albumId: string, imageId: string): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare('DELETE FROM album_images WHERE album_id = ? AND image_id = ?').run(albumId, imageId);
+    db.prepare('UPDATE albums SET cover_image_id = NULL WHERE id = ? AND cover_image_id = ?').run(albumId, imageId);
+    db.prepare('UPDATE albums SET updated_at = ? WHERE id = ?').run(new Date().toISOString(), albumId);
+  })();
+}
+
+/**
+ * Puts the album's images in the given order. `imageIds` must list exactly the images in the
+ * album; returns false without changing anything otherwise.
+ */
+export function reorderAlbumImages(albumId: string, imageIds: string[]): boolean {
+  const db = getDb();
+  return db.transaction(() => {
+    const current = db.prepare('SELECT image_id FROM album_images WHERE album_id = ?').pluck().all(albumId) as string[];
+    if (current.length !== imageIds.length || new Set(imageIds).size !== imageIds.length || !imageIds.every((id) => current.includes(id))) {
+      return false;
+    }
+    const setPosition = db.prepare('UPDATE album_images SET position = ? WHERE album_id = ? AND image_id = ?');
+    imageIds.forEach((imageId, position) => setPosition.run(position, albumId, imageId));
+    db.prepare('UPDATE albums SET updated_at = ? WHERE id = ?').run(new Date().toISOString(), albumId);
+    return true;
+  })();
+}
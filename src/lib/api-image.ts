@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import type { ImageRecord, ModerationStatus } from '@/lib/image-store';
+import { toStoredImages } from '@/lib/stored-image';
+
+// The public shape of an image, shared by the /api/v1 responses and webhook payloads
+
+export const ModerationStatusSchema = z
+  .enum(['approved', 'quarantined'] as const satisfies readonly ModerationStatus[])
+  .describe('Quarantined images are only visible to their owner and admins until an admin approves them.');
+
+export const ApiImageVariantSchema = z.object({
+  name: z.string().describe("'thumb', or 'w<width>' for a resized copy."),
+  url: z.string().url(),
+  mimeType: z.string(),
+  width: z.number().int(),
+  height: z.number().int(),
+});
+
+// An image as the API returns it. URLs are absolute, since API clients use them outside the app.
+export const ApiImageSchema = z.object({
+  id: z.string(),
+  name: z.string().describe('The file name it was uploaded with.'),
+  url: z.string().url(),
+  shortUrl: z.string().url(),
+  mimeType: z.string(),
+  size: z.number().int().describe('In bytes.'),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  uploadedAt: z.string().datetime(),
+  variants: z.array(ApiImageVariantSchema),
+  tags: z.array(z.string()),
+  suggestedTags: z.array(z.string()).describe('Tags suggested automatically that the owner has not reviewed yet.'),
+  altText: z.string().nullable(),
+  caption: z.string().nullable(),
+  moderationStatus: ModerationStatusSchema,
+});
+export type ApiImage = z.infer<typeof ApiImageSchema>;
+
+export function toApiImages(records: ImageRecord[], origin: string): ApiImage[] {
+  return toStoredImages(records).map((image) => ({
+    id: image.id,
+    name: image.name,
+    url: `${origin}${image.url}`,
+    shortUrl: `${origin}${image.shortUrl}`,
+    mimeType: image.mimeType,
+    size: image.size,
+    width: image.width,
+    height: image.height,
+    uploadedAt: image.uploadedAt,
+    variants: image.variants.map((variant) => ({ ...variant, url: `${origin}${variant.url}` })),
+    tags: image.tags,
+    suggestedTags: image.suggestedTags,
+    altText: image.altText,
+    caption: image.caption,
+    moderationStatus: image.moderationStatus,
+  }));
+}
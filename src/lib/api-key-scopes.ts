@@ -0,0 +1,10 @@
+// What an API key may be used for. Shared with the settings page, so no server-only imports here.
+export const API_KEY_SCOPES = ['upload', 'read', 'delete'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  upload: 'Upload images to your account',
+  read: 'List your images and read their details',
+  delete: 'Delete your images',
+};
@@ -0,0 +1,74 @@
+import type { ApiKeyScope } from '@/lib/api-key-scopes';
+import { getDb } from '@/lib/db';
+
+export interface ApiKeyRecord {
+  id: string;
+  userId: string;
+  name: string;
+  keyHash: string; // SHA-256 of the key; the key itself is only shown once, when it's created
+  keyPrefix: string; // The start of the key, so its owner can tell keys apart
+  scopes: ApiKeyScope[];
+  createdAt: string; // ISO 8601
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+}
+
+interface ApiKeyRow {
+  id: string;
+  user_id: string;
+  name: string;
+  key_hash: string;
+  key_prefix: string;
+  scopes: string; // Comma separated
+  created_at: string;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+}
+
+function toRecord(row: ApiKeyRow): ApiKeyRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    keyHash: row.key_hash,
+    keyPrefix: row.key_prefix,
+    scopes: row.scopes.split(',').filter(Boolean) as ApiKeyScope[],
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    lastUsedIp: row.last_used_ip,
+  };
+}
+
+export function insertApiKey(record: ApiKeyRecord): void {
+  getDb()
+    .prepare(
+      `INSERT INTO api_keys (id, user_id, name, key_hash, key_prefix, scopes, created_at)
+       VALUES (@id, @userId, @name, @keyHash, @keyPrefix, @scopes, @createdAt)`
+    )
+    .run({ ...record, scopes: record.scopes.join(',') });
+}
+
+// Newest first
+export function listUserApiKeys(userId: string): ApiKeyRecord[] {
+  const rows = getDb().prepare('SELECT * FROM api_keys WHERE user_id = ? ORDER BY created_at DESC').all(userId) as ApiKeyRow[];
+  return rows.map(toRecord);
+}
+
+export function countUserApiKeys(userId: string): number {
+  const { count } = getDb().prepare('SELECT COUNT(*) AS count FROM api_keys WHERE user_id = ?').get(userId) as { count: number };
+  return count;
+}
+
+export function getApiKeyByHash(keyHash: string): ApiKeyRecord | null {
+  const row = getDb().prepare('SELECT * FROM api_keys WHERE key_hash = ?').get(keyHash) as ApiKeyRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+export function recordApiKeyUse(id: string, usedAt: string, ip: string | null): void {
+  getDb().prepare('UPDATE api_keys SET last_used_at = ?, last_used_ip = ? WHERE id = ?').run(usedAt, ip, id);
+}
+
+// Only the key's owner can revoke it. Returns false if they have no such key.
+export function deleteApiKey(id: string, userId: string): boolean {
+  return getDb().prepare('DELETE FROM api_keys WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createApiKeyAction, revokeApiKeyAction } from '@/app/actions/api-key-actions';
+import * as imagesRoute from '@/app/api/v1/images/route';
+import type { ApiKeyScope } from '@/lib/api-key-scopes';
+import { listUserApiKeys } from '@/lib/api-key-store';
+import { authenticateApiKey, createApiKey, MAX_API_KEYS_PER_USER } from '@/lib/api-keys';
+import type { UserRecord } from '@/lib/auth-store';
+import { runInRequest } from '@/test/next-headers';
+import { createSignedInUser } from '@/test/users';
+
+let user: UserRecord;
+let cookie: string;
+
+beforeEach(async () => {
+  ({ user, cookie } = await createSignedInUser());
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function newKey(scopes: ApiKeyScope[], userId = user.id): string {
+  const result = createApiKey(userId, { name: scopes.join(' '), scopes });
+  if (!result.success) throw new Error(result.error);
+  return result.key;
+}
+
+const requestWith = (authorization: string, headers: Record<string, string> = {}) =>
+  new Request('http://localhost/api/v1/images', { headers: { authorization, ...headers } });
+
+// Calls a server action as the signed-in user
+const asUser = <T>(action: () => Promise<T>) => runInRequest(new Request('http://localhost/settings/api-keys', { headers: { cookie } }), action);
+
+describe('authenticateApiKey', () => {
+  it('leaves requests without an Authorization header to the session', () => {
+    expect(authenticateApiKey(new Request('http://localhost/api/v1/images'), 'read')).toBeNull();
+  });
+
+  it('refuses malformed headers and unknown keys with a 401', () => {
+    for (const authorization of ['Basic dXNlcjpwYXNz', 'Bearer', 'Bearer idk_unknown']) {
+      expect(authenticateApiKey(requestWith(authorization), 'read')).toMatchObject({ ok: false, status: 401 });
+    }
+  });
+
+  it('refuses a key without the scope with a 403, and accepts one that has it', () => {
+    const key = newKey(['read', 'upload']);
+
+    expect(authenticateApiKey(requestWith(`Bearer ${key}`), 'delete')).toEqual({ ok: false, status: 403, error: 'This API key doesn\'t have the "delete" scope.' });
+    expect(authenticateApiKey(requestWith(`bearer  ${key}`), 'read')).toMatchObject({ ok: true, user: { id: user.id }, apiKey: { scopes: ['upload', 'read'] } });
+  });
+
+  it('records when and where a key was last used, even when it lacks the scope', () => {
+    vi.stubEnv('TRUST_PROXY', '1');
+    const key = newKey(['read']);
+
+    authenticateApiKey(requestWith(`Bearer ${key}`, { 'x-forwarded-for': '203.0.113.7' }), 'delete');
+
+    expect(listUserApiKeys(user.id)[0]).toMatchObject({ lastUsedAt: expect.any(String), lastUsedIp: '203.0.113.7' });
+  });
+});
+
+describe('createApiKey', () => {
+  it('needs a name and at least one known scope', () => {
+    expect(createApiKey(user.id, { name: '  ', scopes: ['read'] })).toEqual({ success: false, error: 'Give the key a name.' });
+    expect(createApiKey(user.id, { name: 'CI', scopes: [] })).toEqual({ success: false, error: 'Pick at least one scope.' });
+    expect(createApiKey(user.id, { name: 'CI', scopes: ['admin' as ApiKeyScope] })).toMatchObject({ success: false });
+  });
+
+  it(`stops at ${MAX_API_KEYS_PER_USER} keys per user`, () => {
+    for (let i = 0; i < MAX_API_KEYS_PER_USER; i++) newKey(['read']);
+
+    expect(createApiKey(user.id, { name: 'One too many', scopes: ['read'] })).toMatchObject({ success: false, error: expect.stringContaining('at most') });
+  });
+});
+
+describe('revoking a key', () => {
+  it('takes effect on its next request', async () => {
+    const created = await asUser(() => createApiKeyAction('Screenshot tool', ['read']));
+    expect(created).toMatchObject({ success: true, key: expect.stringMatching(/^idk_/) });
+    const request = () => requestWith(`Bearer ${created.key}`);
+
+    expect((await imagesRoute.GET(request())).status).toBe(200);
+    expect(await asUser(() => revokeApiKeyAction(created.apiKey!.id))).toEqual({ success: true });
+    expect((await imagesRoute.GET(request())).status).toBe(401);
+    expect(authenticateApiKey(request(), 'read')).toMatchObject({ ok: false, status: 401 });
+  });
+
+  it("is only possible for the key's owner", async () => {
+    const otherUsersKey = createApiKey((await createSignedInUser()).user.id, { name: 'Theirs', scopes: ['read'] });
+    if (!otherUsersKey.success) throw new Error(otherUsersKey.error);
+
+    expect(await asUser(() => revokeApiKeyAction(otherUsersKey.apiKey.id))).toEqual({ success: false, error: 'API key not found.' });
+    expect(await runInRequest(new Request('http://localhost/'), () => revokeApiKeyAction(otherUsersKey.apiKey.id))).toMatchObject({ success: false });
+    expect(authenticateApiKey(requestWith(`Bearer ${otherUsersKey.key}`), 'read')).toMatchObject({ ok: true });
+  });
+});
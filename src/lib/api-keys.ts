@@ -0,0 +1,97 @@
+import crypto from 'node:crypto';
+import { z } from 'zod';
+import { API_KEY_SCOPES, type ApiKeyScope } from '@/lib/api-key-scopes';
+import { countUserApiKeys, getApiKeyByHash, insertApiKey, recordApiKeyUse, type ApiKeyRecord } from '@/lib/api-key-store';
+import { getUserById, type UserRecord } from '@/lib/auth-store';
+import { getClientIp } from '@/lib/request-origin';
+
+// Keys look like "idk_" and 43 base64url characters; the prefix makes leaked keys easy to grep for
+const KEY_PREFIX = 'idk_';
+const SHOWN_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+export const MAX_API_KEYS_PER_USER = 25;
+
+export const ApiKeyInputSchema = z.object({
+  name: z.string().trim().min(1, 'Give the key a name.').max(60, 'Key names must be at most 60 characters.'),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES))
+    .min(1, 'Pick at least one scope.')
+    .transform((scopes) => API_KEY_SCOPES.filter((scope) => scopes.includes(scope))),
+});
+
+// An API key as its owner sees it in settings: never the key or its hash
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+}
+
+export function toApiKeySummary({ id, name, keyPrefix, scopes, createdAt, lastUsedAt, lastUsedIp }: ApiKeyRecord): ApiKeySummary {
+  return { id, name, keyPrefix, scopes, createdAt, lastUsedAt, lastUsedIp };
+}
+
+export type CreateApiKeyResult = { success: true; apiKey: ApiKeyRecord; key: string } | { success: false; error: string };
+
+const hashApiKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+/**
+ * Creates a key for the user. The key itself is only part of the result: just its hash is
+ * stored, so it can't be shown again later.
+ */
+export function createApiKey(userId: string, input: z.input<typeof ApiKeyInputSchema>): CreateApiKeyResult {
+  const parsed = ApiKeyInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Invalid API key settings.' };
+  }
+  if (countUserApiKeys(userId) >= MAX_API_KEYS_PER_USER) {
+    return { success: false, error: `You can have at most ${MAX_API_KEYS_PER_USER} API keys. Revoke one you no longer use first.` };
+  }
+
+  const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  const apiKey: ApiKeyRecord = {
+    id: crypto.randomUUID(),
+    userId,
+    name: parsed.data.name,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.slice(0, SHOWN_PREFIX_LENGTH),
+    scopes: parsed.data.scopes,
+    createdAt: new Date().toISOString(),
+    lastUsedAt: null,
+    lastUsedIp: null,
+  };
+  insertApiKey(apiKey);
+  return { success: true, apiKey, key };
+}
+
+export type ApiKeyAuthResult =
+  | { ok: true; user: UserRecord; apiKey: ApiKeyRecord }
+  | { ok: false; status: 401 | 403; error: string };
+
+/**
+ * Checks the `Authorization: Bearer <key>` header of a request and records the key's use.
+ * Returns null for requests without an Authorization header, which fall back to the session.
+ */
+export function authenticateApiKey(request: Request, scope: ApiKeyScope): ApiKeyAuthResult | null {
+  const header = request.headers.get('authorization');
+  if (header === null) {
+    return null;
+  }
+  const [scheme, key] = header.trim().split(/\s+/);
+  if (scheme?.toLowerCase() !== 'bearer' || !key) {
+    return { ok: false, status: 401, error: 'Expected an "Authorization: Bearer <API key>" header.' };
+  }
+
+  const apiKey = getApiKeyByHash(hashApiKey(key));
+  const user = apiKey && getUserById(apiKey.userId);
+  if (!apiKey || !user) {
+    return { ok: false, status: 401, error: 'Invalid or revoked API key.' };
+  }
+  recordApiKeyUse(apiKey.id, new Date().toISOString(), getClientIp(request.headers));
+  if (!apiKey.scopes.includes(scope)) {
+    return { ok: false, status: 403, error: `This API key doesn't have the "${scope}" scope.` };
+  }
+  return { ok: true, user, apiKey };
+}
@@ -0,0 +1,165 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isAdmin } from '@/lib/admin';
+import { ApiImageSchema, ModerationStatusSchema } from '@/lib/api-image';
+import type { ApiKeyScope } from '@/lib/api-key-scopes';
+import { authenticateApiKey } from '@/lib/api-keys';
+import type { UserRecord } from '@/lib/auth-store';
+import { getImage, type ImageListCursor, type ImageRecord } from '@/lib/image-store';
+import { processMultipartUpload } from '@/lib/multipart-upload';
+import { processRawUpload } from '@/lib/raw-upload';
+import { isSameOriginRequest } from '@/lib/request-origin';
+import { getCurrentUser } from '@/lib/session';
+import type { UploadErrorCode, UploadImageResponse } from '@/lib/upload-service';
+
+export { ApiImageSchema, ApiImageVariantSchema, toApiImages, type ApiImage } from '@/lib/api-image';
+
+// Shared pieces of the versioned JSON API under /api/v1. The zod schemas below are what routes
+// build their responses against, and what /api/openapi.json is generated from.
+
+const UPLOAD_ERROR_CODES = ['INVALID_FILE', 'FILE_TOO_LARGE', 'CONTENT_MISMATCH', 'SERVER_ERROR'] as const satisfies readonly UploadErrorCode[];
+
+export const ApiErrorCodeSchema = z.enum([...UPLOAD_ERROR_CODES, 'INVALID_REQUEST', 'UNAUTHORIZED', 'NOT_FOUND', 'FORBIDDEN']);
+export type ApiErrorCode = z.infer<typeof ApiErrorCodeSchema>;
+
+const STATUS_BY_UPLOAD_ERROR_CODE: Record<UploadErrorCode, number> = {
+  INVALID_FILE: 400,
+  FILE_TOO_LARGE: 413,
+  CONTENT_MISMATCH: 400,
+  SERVER_ERROR: 500,
+};
+
+export class ApiError extends Error {
+  constructor(public readonly status: number, public readonly code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Every failed request gets a body of this shape, whatever went wrong
+export const ApiErrorBodySchema = z.object({
+  error: z.object({
+    code: ApiErrorCodeSchema,
+    message: z.string().describe('A human-readable explanation, safe to show to users.'),
+  }),
+});
+export type ApiErrorBody = z.infer<typeof ApiErrorBodySchema>;
+
+export function apiErrorResponse(error: unknown): Response {
+  if (error instanceof ApiError) {
+    return NextResponse.json<ApiErrorBody>({ error: { code: error.code, message: error.message } }, { status: error.status });
+  }
+  console.error('Error handling API request:', error);
+  return NextResponse.json<ApiErrorBody>({ error: { code: 'SERVER_ERROR', message: 'Internal server error.' } }, { status: 500 });
+}
+
+// The pipeline reports failures as a response object; the API turns them into errors like any other
+export function toUploadApiError(result: UploadImageResponse): ApiError {
+  const code = result.code ?? 'SERVER_ERROR';
+  const message = result.error || [...(result.errors?._form ?? []), ...(result.errors?.file ?? [])].join(' ') || 'Upload failed.';
+  return new ApiError(STATUS_BY_UPLOAD_ERROR_CODE[code], code, message);
+}
+
+/**
+ * Stores the image sent as the `file` field of a multipart/form-data body, or as the raw body,
+ * for `userId`. Throws an ApiError if the upload is rejected.
+ */
+export async function receiveApiUpload(request: Request, userId: string | null): Promise<{ image: ImageRecord; deletionToken: string }> {
+  const result = request.headers.get('content-type')?.startsWith('multipart/form-data')
+    ? await processMultipartUpload(request, { userId })
+    : await processRawUpload(request, { userId });
+  if (!result.success || !result.id || !result.deletionToken) {
+    throw toUploadApiError(result);
+  }
+  const image = getImage(result.id);
+  if (!image) {
+    throw new ApiError(500, 'SERVER_ERROR', 'The upload was stored but could not be read back.');
+  }
+  return { image, deletionToken: result.deletionToken };
+}
+
+/**
+ * The account a request acts for, or null for anonymous requests. Scripts authenticate with an
+ * API key that has `scope`; browsers with their session cookie, which for anything but reads
+ * only counts on same-origin requests, as route handlers have no CSRF protection of their own.
+ */
+export async function authenticateApiRequest(request: Request, scope: ApiKeyScope): Promise<UserRecord | null> {
+  const keyAuth = authenticateApiKey(request, scope);
+  if (keyAuth) {
+    if (!keyAuth.ok) {
+      throw new ApiError(keyAuth.status, keyAuth.status === 401 ? 'UNAUTHORIZED' : 'FORBIDDEN', keyAuth.error);
+    }
+    return keyAuth.user;
+  }
+  if (request.method !== 'GET' && !isSameOriginRequest(request)) {
+    throw new ApiError(403, 'FORBIDDEN', 'Cross-origin requests are not allowed.');
+  }
+  return getCurrentUser();
+}
+
+// Quarantined images exist only for their owner and admins until they are approved
+export function isVisibleTo(image: ImageRecord, user: UserRecord | null): boolean {
+  return image.moderationStatus === 'approved' || (!!user && image.userId === user.id) || isAdmin(user);
+}
+
+/**
+ * Answers `body` as JSON, typed against `schema` so a route can't drift from what the OpenAPI
+ * document promises. Outside production the body is also checked at runtime, which catches
+ * what the types can't, such as a malformed URL.
+ */
+export function apiJson<T extends z.ZodTypeAny>(schema: T, body: z.input<T>, init?: ResponseInit): Response {
+  if (process.env.NODE_ENV !== 'production') {
+    schema.parse(body);
+  }
+  return NextResponse.json(body, init);
+}
+
+export const ImageResponseSchema = z.object({ data: ApiImageSchema });
+
+export const ImageListResponseSchema = z.object({
+  data: z.array(ApiImageSchema),
+  nextCursor: z.string().nullable().describe('Pass back as `cursor` for the next page; null on the last page.'),
+});
+
+export const UploadedImageResponseSchema = z.object({
+  data: ApiImageSchema.and(
+    z.object({
+      deletionToken: z.string().describe('Deletes the image without signing in. Only ever returned here, so keep it.'),
+    })
+  ),
+});
+
+// The flat shape screenshot tools read links out of
+export const ScreenshotResponseSchema = z.object({
+  id: z.string(),
+  url: z.string().url(),
+  shortUrl: z.string().url(),
+  thumbnailUrl: z.string().url(),
+  deletionUrl: z.string().url().describe('A page that deletes the image when opened.'),
+  moderationStatus: ModerationStatusSchema,
+});
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+export const ImageListParamsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE).describe('How many images to return.'),
+  cursor: z.string().optional().describe('The `nextCursor` of the previous page.'),
+});
+
+
+const CursorSchema = z.tuple([z.string().datetime(), z.string().min(1)]);
+
+// Cursors are opaque to clients: the last image's upload time and id, base64url encoded
+export function encodeCursor({ uploadedAt, id }: ImageListCursor): string {
+  return Buffer.from(JSON.stringify([uploadedAt, id])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): ImageListCursor {
+  try {
+    const [uploadedAt, id] = CursorSchema.parse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+    return { uploadedAt, id };
+  } catch {
+    throw new ApiError(400, 'INVALID_REQUEST', 'Invalid cursor.');
+  }
+}
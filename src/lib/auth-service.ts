@@ -0,0 +1,134 @@
+import crypto from 'node:crypto';
+import { z } from 'zod';
+import {
+  consumePasswordReset,
+  deleteUserSessions,
+  getUserByEmail,
+  insertPasswordReset,
+  insertUser,
+  updateUserPassword,
+  type UserRecord,
+} from '@/lib/auth-store';
+import { getMailer } from '@/lib/mailer';
+import { hashPassword, verifyPassword } from '@/lib/password-hash';
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+const EmailSchema = z.string().trim().toLowerCase().email('Enter a valid email address.');
+const NewPasswordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters.')
+  .max(256, 'Password must be at most 256 characters.');
+
+export const SignUpSchema = z.object({ email: EmailSchema, password: NewPasswordSchema });
+export const SignInSchema = z.object({ email: EmailSchema, password: z.string().min(1, 'Enter your password.') });
+export const PasswordResetRequestSchema = z.object({ email: EmailSchema });
+export const PasswordResetSchema = z.object({ token: z.string().min(1), password: NewPasswordSchema });
+
+// What an auth form gets back from its Server Action
+export interface AuthFormState {
+  success?: boolean;
+  message?: string; // Shown on success, e.g. after a reset link has been sent
+  error?: string;
+  errors?: { email?: string[]; password?: string[]; token?: string[] }; // Zod error flattening
+}
+
+export type AuthResult = { success: true; user: UserRecord } | ({ success: false } & AuthFormState);
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Checked against when an email is unknown, so a failed sign-in takes as long either way
+let dummyPasswordHash: Promise<string> | undefined;
+
+export async function signUp(input: z.input<typeof SignUpSchema>): Promise<AuthResult> {
+  const parsed = SignUpSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, errors: parsed.error.flatten().fieldErrors };
+  }
+  const { email, password } = parsed.data;
+  if (getUserByEmail(email)) {
+    return { success: false, errors: { email: ['An account with this email already exists.'] } };
+  }
+
+  const user: UserRecord = {
+    id: crypto.randomUUID(),
+    email,
+    passwordHash: await hashPassword(password),
+    createdAt: new Date().toISOString(),
+  };
+  try {
+    insertUser(user);
+  } catch (error: any) {
+    // Lost a race with a concurrent sign-up for the same address
+    if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      return { success: false, errors: { email: ['An account with this email already exists.'] } };
+    }
+    throw error;
+  }
+  return { success: true, user };
+}
+
+export async function signIn(input: z.input<typeof SignInSchema>): Promise<AuthResult> {
+  const parsed = SignInSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, errors: parsed.error.flatten().fieldErrors };
+  }
+  const { email, password } = parsed.data;
+
+  const user = getUserByEmail(email);
+  if (!user) {
+    dummyPasswordHash ??= hashPassword(crypto.randomUUID());
+    await verifyPassword(password, await dummyPasswordHash);
+  }
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    // Don't reveal which of the two was wrong
+    return { success: false, error: 'Incorrect email or password.' };
+  }
+  return { success: true, user };
+}
+
+/**
+ * Emails a single-use reset link if an account exists for the address. Callers should respond
+ * the same way whether or not it does, so the form can't be used to probe for accounts.
+ */
+export async function requestPasswordReset(input: z.input<typeof PasswordResetRequestSchema>, appOrigin: string): Promise<AuthFormState> {
+  const parsed = PasswordResetRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, errors: parsed.error.flatten().fieldErrors };
+  }
+
+  const user = getUserByEmail(parsed.data.email);
+  if (user) {
+    const token = crypto.randomBytes(32).toString('base64url');
+    insertPasswordReset(hashToken(token), user.id, new Date(Date.now() + PASSWORD_RESET_TTL_MS).toISOString());
+    const resetUrl = `${appOrigin}/reset-password?token=${encodeURIComponent(token)}`;
+    await getMailer().send({
+      to: user.email,
+      subject: 'Reset your ImageDrop password',
+      text: [
+        'Someone asked to reset the password for your ImageDrop account.',
+        '',
+        `To choose a new password, open this link within the next hour:\n${resetUrl}`,
+        '',
+        "If this wasn't you, you can ignore this email. Your password won't change.",
+      ].join('\n'),
+    });
+  }
+  return { success: true, message: "If an account exists for that email, we've sent a link to reset its password." };
+}
+
+// Sets a new password from a reset link, and signs the account out everywhere else
+export async function resetPassword(input: z.input<typeof PasswordResetSchema>): Promise<AuthResult> {
+  const parsed = PasswordResetSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, errors: parsed.error.flatten().fieldErrors };
+  }
+
+  const user = consumePasswordReset(hashToken(parsed.data.token));
+  if (!user) {
+    return { success: false, error: 'This reset link is invalid or has expired. Please request a new one.' };
+  }
+  updateUserPassword(user.id, await hashPassword(parsed.data.password));
+  deleteUserSessions(user.id);
+  return { success: true, user };
+}
@@ -0,0 +1,95 @@
+import { getDb } from '@/lib/db';
+
+export interface UserRecord {
+  id: string;
+  email: string; // Stored lowercased
+  passwordHash: string; // See password-hash.ts for the format
+  createdAt: string; // ISO 8601
+}
+
+interface UserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  created_at: string;
+}
+
+function toRecord(row: UserRow): UserRecord {
+  return {
+    id: row.id,
+    email: row.email,
+    passwordHash: row.password_hash,
+    createdAt: row.created_at,
+  };
+}
+
+export function insertUser(record: UserRecord): void {
+  getDb()
+    .prepare('INSERT INTO users (id, email, password_hash, created_at) VALUES (@id, @email, @passwordHash, @createdAt)')
+    .run(record);
+}
+
+export function getUserById(id: string): UserRecord | null {
+  const row = getDb().prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+export function getUserByEmail(email: string): UserRecord | null {
+  const row = getDb().prepare('SELECT * FROM users WHERE email = ?').get(email) as UserRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+export function updateUserPassword(id: string, passwordHash: string): void {
+  getDb().prepare('UPDATE users SET password_hash = ? WHERE id = ?').run(passwordHash, id);
+}
+
+// Sessions and reset tokens are looked up by the SHA-256 of their secret, never the secret itself
+
+export function insertSession(tokenHash: string, userId: string, expiresAt: string): void {
+  getDb()
+    .prepare('INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+    .run(tokenHash, userId, new Date().toISOString(), expiresAt);
+}
+
+// The user a live session belongs to, or null if the session is unknown or expired
+export function getSessionUser(tokenHash: string): UserRecord | null {
+  const row = getDb()
+    .prepare(
+      `SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+       WHERE sessions.token_hash = ? AND sessions.expires_at > ?`
+    )
+    .get(tokenHash, new Date().toISOString()) as UserRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+export function deleteSession(tokenHash: string): void {
+  getDb().prepare('DELETE FROM sessions WHERE token_hash = ?').run(tokenHash);
+}
+
+export function deleteUserSessions(userId: string): void {
+  getDb().prepare('DELETE FROM sessions WHERE user_id = ?').run(userId);
+}
+
+export function deleteExpiredSessions(): void {
+  getDb().prepare('DELETE FROM sessions WHERE expires_at <= ?').run(new Date().toISOString());
+}
+
+export function insertPasswordReset(tokenHash: string, userId: string, expiresAt: string): void {
+  getDb().prepare('INSERT INTO password_resets (token_hash, user_id, expires_at) VALUES (?, ?, ?)').run(tokenHash, userId, expiresAt);
+}
+
+/**
+ * Redeems a password reset token: returns its user if the token exists and hasn't expired,
+ * and deletes it (with every other outstanding token for that user) either way.
+ */
+export function consumePasswordReset(tokenHash: string): UserRecord | null {
+  const db = getDb();
+  return db.transaction(() => {
+    const reset = db.prepare('SELECT user_id, expires_at FROM password_resets WHERE token_hash = ?').get(tokenHash) as
+      | { user_id: string; expires_at: string }
+      | undefined;
+    if (!reset) return null;
+    db.prepare('DELETE FROM password_resets WHERE user_id = ? OR expires_at <= ?').run(reset.user_id, new Date().toISOString());
+    return reset.expires_at > new Date().toISOString() ? getUserById(reset.user_id) : null;
+  })();
+}
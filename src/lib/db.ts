@@ -0,0 +1,216 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { generateShortId } from '@/lib/short-id';
+
+// process.cwd() is the root of the Next.js project
+const DATABASE_PATH = process.env.DATABASE_PATH || path.join(process.cwd(), 'data/imagedrop.db');
+
+// Schema migrations, applied in order. The number of applied migrations is tracked
+// in SQLite's `user_version` pragma, so only append to this list — never edit an entry.
+// Migrations that need to compute values in JavaScript are written as functions.
+const MIGRATIONS: (string | ((db: Database.Database) => void))[] = [
+  `CREATE TABLE images (
+    id TEXT PRIMARY KEY,
+    original_name TEXT NOT NULL,
+    stored_filename TEXT NOT NULL UNIQUE,
+    mime_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    width INTEGER,
+    height INTEGER,
+    checksum TEXT NOT NULL,
+    uploaded_at TEXT NOT NULL
+  );
+  CREATE INDEX images_uploaded_at_idx ON images (uploaded_at);`,
+  `CREATE TABLE tus_uploads (
+    id TEXT PRIMARY KEY,
+    upload_length INTEGER NOT NULL,
+    upload_offset INTEGER NOT NULL DEFAULT 0,
+    metadata TEXT NOT NULL,
+    result TEXT,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+  CREATE INDEX tus_uploads_expires_at_idx ON tus_uploads (expires_at);`,
+  `CREATE TABLE image_variants (
+    image_id TEXT NOT NULL REFERENCES images (id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    format TEXT NOT NULL,
+    stored_filename TEXT NOT NULL UNIQUE,
+    mime_type TEXT NOT NULL,
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    size INTEGER NOT NULL,
+    PRIMARY KEY (image_id, name, format)
+  );`,
+  `CREATE TABLE transform_cache (
+    cache_key TEXT PRIMARY KEY,
+    image_id TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    last_accessed_at INTEGER NOT NULL
+  );
+  CREATE INDEX transform_cache_last_accessed_at_idx ON transform_cache (last_accessed_at);
+  CREATE INDEX transform_cache_image_id_idx ON transform_cache (image_id);`,
+  (db) => {
+    db.exec('ALTER TABLE images ADD COLUMN short_id TEXT');
+    const images = db.prepare('SELECT id FROM images').all() as { id: string }[];
+    const setShortId = db.prepare('UPDATE images SET short_id = ? WHERE id = ?');
+    const assigned = new Set<string>();
+    for (const { id } of images) {
+      let shortId: string;
+      do {
+        shortId = generateShortId();
+      } while (assigned.has(shortId));
+      assigned.add(shortId);
+      setShortId.run(shortId, id);
+    }
+    db.exec('CREATE UNIQUE INDEX images_short_id_idx ON images (short_id)');
+  },
+  // Images uploaded before deletion tokens existed keep NULL and can't be deleted anonymously
+  `ALTER TABLE images ADD COLUMN deletion_token_hash TEXT;`,
+  `CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+  CREATE INDEX sessions_user_id_idx ON sessions (user_id);
+  CREATE TABLE password_resets (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    expires_at TEXT NOT NULL
+  );
+  ALTER TABLE images ADD COLUMN user_id TEXT REFERENCES users (id) ON DELETE SET NULL;
+  CREATE INDEX images_user_id_idx ON images (user_id);
+  ALTER TABLE tus_uploads ADD COLUMN user_id TEXT;`,
+  `CREATE TABLE albums (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    cover_image_id TEXT REFERENCES images (id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX albums_user_id_idx ON albums (user_id, updated_at);
+  CREATE TABLE album_images (
+    album_id TEXT NOT NULL REFERENCES albums (id) ON DELETE CASCADE,
+    image_id TEXT NOT NULL REFERENCES images (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (album_id, image_id)
+  );
+  CREATE INDEX album_images_image_id_idx ON album_images (image_id);`,
+  // image_search is a full-text index of each image's name and tags, kept in step by triggers
+  `CREATE TABLE image_tags (
+    image_id TEXT NOT NULL REFERENCES images (id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (image_id, tag)
+  );
+  CREATE INDEX image_tags_tag_idx ON image_tags (tag);
+  CREATE VIRTUAL TABLE image_search USING fts5 (image_id UNINDEXED, name, tags, tokenize = 'unicode61 remove_diacritics 2');
+  INSERT INTO image_search (image_id, name, tags) SELECT id, original_name, '' FROM images;
+  CREATE TRIGGER images_search_insert AFTER INSERT ON images BEGIN
+    INSERT INTO image_search (image_id, name, tags) VALUES (new.id, new.original_name, '');
+  END;
+  CREATE TRIGGER images_search_update AFTER UPDATE OF original_name ON images BEGIN
+    UPDATE image_search SET name = new.original_name WHERE image_id = new.id;
+  END;
+  CREATE TRIGGER images_search_delete AFTER DELETE ON images BEGIN
+    DELETE FROM image_search WHERE image_id = old.id;
+  END;
+  CREATE TRIGGER image_tags_search_insert AFTER INSERT ON image_tags BEGIN
+    UPDATE image_search SET tags = (SELECT group_concat(tag, ' ') FROM image_tags WHERE image_id = new.image_id) WHERE image_id = new.image_id;
+  END;
+  CREATE TRIGGER image_tags_search_delete AFTER DELETE ON image_tags BEGIN
+    UPDATE image_search SET tags = coalesce((SELECT group_concat(tag, ' ') FROM image_tags WHERE image_id = old.image_id), '') WHERE image_id = old.image_id;
+  END;`,
+  `ALTER TABLE images ADD COLUMN alt_text TEXT;
+  ALTER TABLE images ADD COLUMN caption TEXT;`,
+  // Tags proposed by the auto-tagger, until the owner accepts (0) or rejects (deleted) them
+  `ALTER TABLE image_tags ADD COLUMN suggested INTEGER NOT NULL DEFAULT 0;`,
+  // Existing images were already public, so they count as approved
+  `ALTER TABLE images ADD COLUMN moderation_status TEXT NOT NULL DEFAULT 'approved';
+  ALTER TABLE images ADD COLUMN moderation_reason TEXT;
+  ALTER TABLE images ADD COLUMN moderated_at TEXT;
+  CREATE INDEX images_moderation_status_idx ON images (moderation_status);`,
+  `CREATE TABLE api_keys (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    key_prefix TEXT NOT NULL,
+    scopes TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT,
+    last_used_ip TEXT
+  );
+  CREATE INDEX api_keys_user_id_idx ON api_keys (user_id);`,
+  // One row per event per endpoint. Deliveries are retried until they succeed or run out of
+  // attempts and become 'dead', which is where the dead-letter list comes from.
+  `CREATE TABLE webhooks (
+    id TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    events TEXT NOT NULL,
+    created_by TEXT REFERENCES users (id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    webhook_id TEXT NOT NULL REFERENCES webhooks (id) ON DELETE CASCADE,
+    event_id TEXT NOT NULL,
+    event TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT,
+    last_attempt_at TEXT,
+    response_status INTEGER,
+    last_error TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX webhook_deliveries_due_idx ON webhook_deliveries (status, next_attempt_at);
+  CREATE INDEX webhook_deliveries_created_at_idx ON webhook_deliveries (created_at);`,
+  // Finished tus uploads used to keep the image's deletion token with their outcome
+  `UPDATE tus_uploads SET result = json_remove(result, '$.deletionToken') WHERE result IS NOT NULL;`,
+  // The storage keys of a tus upload's accepted chunks, in order, as a JSON array. Null for uploads
+  // started before this was recorded, whose chunks are found by listing their prefix instead.
+  `ALTER TABLE tus_uploads ADD COLUMN chunk_keys TEXT;`,
+];
+
+// Keep a single connection per process. In development Next.js re-evaluates modules on
+// every change, so the handle lives on globalThis to avoid leaking connections.
+const globalForDb = globalThis as unknown as { imageDropDb?: Database.Database };
+
+function migrate(db: Database.Database) {
+  const currentVersion = db.pragma('user_version', { simple: true }) as number;
+  for (let version = currentVersion; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      const migration = MIGRATIONS[version];
+      if (typeof migration === 'string') {
+        db.exec(migration);
+      } else {
+        migration(db);
+      }
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+}
+
+export function getDb(): Database.Database {
+  if (!globalForDb.imageDropDb) {
+    fs.mkdirSync(path.dirname(DATABASE_PATH), { recursive: true });
+    const db = new Database(DATABASE_PATH);
+    db.pragma('journal_mode = WAL'); // Allow reads while an upload is being written
+    db.pragma('foreign_keys = ON');
+    migrate(db);
+    globalForDb.imageDropDb = db;
+  }
+  return globalForDb.imageDropDb;
+}
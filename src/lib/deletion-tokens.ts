@@ -0,0 +1,55 @@
+// Deletion tokens the server issued to this browser, by image id. They are the only proof of
+// ownership for anonymous uploads, so losing them (e.g. clearing site data) means the image
+// can no longer be deleted from here.
+const STORAGE_KEY = 'imagedrop:deletion-tokens';
+
+function readTokens(): Record<string, string> {
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeTokens(tokens: Record<string, string>) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+  } catch {
+    // Storage full or disabled; the image just won't show a delete action
+  }
+}
+
+export function saveDeletionToken(imageId: string, token: string) {
+  writeTokens({ ...readTokens(), [imageId]: token });
+}
+
+export function getDeletionToken(imageId: string): string | null {
+  return readTokens()[imageId] ?? null;
+}
+
+export function forgetDeletionToken(imageId: string) {
+  const { [imageId]: _removed, ...rest } = readTokens();
+  writeTokens(rest);
+}
+
+/**
+ * Asks the server to delete an image with its stored token. Resolves once the image is gone
+ * (including when it already was), and rejects with a displayable message otherwise.
+ */
+export async function deleteImageWithToken(imageId: string, token: string): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(`/api/images/${encodeURIComponent(imageId)}`, {
+      method: 'DELETE',
+      headers: { 'X-Deletion-Token': token },
+    });
+  } catch {
+    throw new Error('Network error. Please try again.');
+  }
+  if (response.ok || response.status === 404) {
+    forgetDeletionToken(imageId);
+    return;
+  }
+  const body = await response.json().catch(() => null);
+  throw new Error(body?.error ?? `Delete failed with status ${response.status}.`);
+}
@@ -0,0 +1,103 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { describeImage } from '@/ai/flows/describe-image';
+import { MAX_SUGGESTED_TAGS, MIN_SUGGESTED_TAGS, suggestImageTags } from '@/ai/flows/suggest-image-tags';
+import { reviewSuggestedTagAction } from '@/app/actions/image-actions';
+import { getImage, listImageTags } from '@/lib/image-store';
+import { splitImageTags } from '@/lib/stored-image';
+import { processIncomingUpload } from '@/lib/upload-service';
+import { runInRequest } from '@/test/next-headers';
+import { createSignedInUser } from '@/test/users';
+
+// The stub model answers offline and deterministically. The provider is read when @/ai/config is
+// first imported, so it has to be set before any of the imports above run.
+vi.hoisted(() => {
+  process.env.AI_PROVIDER = 'stub';
+});
+
+const PHOTO = fs.readFileSync(path.join(__dirname, '__fixtures__/gps-upright.jpg'));
+const PHOTO_DATA_URI = `data:image/jpeg;base64,${PHOTO.toString('base64')}`;
+
+let ownerId: string;
+let cookie: string;
+
+beforeAll(async () => {
+  const owner = await createSignedInUser();
+  ownerId = owner.user.id;
+  cookie = owner.cookie;
+});
+
+const asOwner = <T>(action: () => Promise<T>) => runInRequest(new Request('http://localhost/', { headers: { cookie } }), action);
+
+// Uploads the fixture as the signed-in user, then waits for the background analysis to finish
+async function uploadAndAnalyze(name: string) {
+  const result = await processIncomingUpload({ name, type: 'image/jpeg', body: Readable.from([PHOTO]), userId: ownerId });
+  if (!result.success) throw new Error(result.error);
+  const id = result.id!;
+  return vi.waitFor(
+    () => {
+      const image = getImage(id)!;
+      const tags = splitImageTags(listImageTags([id]).get(id) ?? []);
+      expect(image.altText).not.toBeNull();
+      expect(tags.suggestedTags.length).toBeGreaterThan(0);
+      return { image, ...tags };
+    },
+    { timeout: 10000 }
+  );
+}
+
+describe('describeImage', () => {
+  it('returns alt text and a caption, the same for the same image', async () => {
+    const description = await describeImage({ photoDataUri: PHOTO_DATA_URI, fileName: 'beach.jpg' });
+
+    expect(description).toEqual({ altText: expect.stringMatching(/^Placeholder description/), caption: expect.stringMatching(/^A placeholder caption/) });
+    expect(await describeImage({ photoDataUri: PHOTO_DATA_URI, fileName: 'beach.jpg' })).toEqual(description);
+    expect(await describeImage({ photoDataUri: PHOTO_DATA_URI, fileName: 'city.jpg' })).not.toEqual(description);
+  });
+});
+
+describe('suggestImageTags', () => {
+  it('returns a bounded list of distinct tags', async () => {
+    const { tags } = await suggestImageTags({ photoDataUri: PHOTO_DATA_URI, fileName: 'beach.jpg' });
+
+    expect(tags.length).toBeGreaterThanOrEqual(MIN_SUGGESTED_TAGS);
+    expect(tags.length).toBeLessThanOrEqual(MAX_SUGGESTED_TAGS);
+    expect(new Set(tags).size).toBe(tags.length);
+  });
+});
+
+describe('analysis of uploads', () => {
+  it('describes the image and attaches tag suggestions, without confirming them', async () => {
+    const { image, tags, suggestedTags } = await uploadAndAnalyze('holiday.jpg');
+
+    expect(image.altText).toMatch(/^Placeholder description/);
+    expect(image.caption).toMatch(/^A placeholder caption/);
+    expect(tags).toEqual([]);
+    expect(suggestedTags.length).toBeGreaterThanOrEqual(MIN_SUGGESTED_TAGS);
+  });
+
+  it('lets the owner accept or reject each suggestion once', async () => {
+    const { image, suggestedTags } = await uploadAndAnalyze('review.jpg');
+    const [accepted, rejected, ...rest] = suggestedTags;
+
+    expect(await asOwner(() => reviewSuggestedTagAction(image.id, accepted, true))).toEqual({ success: true, tags: [accepted], suggestedTags: [rejected, ...rest].sort() });
+    expect(await asOwner(() => reviewSuggestedTagAction(image.id, rejected.toUpperCase(), false))).toEqual({ success: true, tags: [accepted], suggestedTags: rest.sort() });
+
+    const gone = { success: false, error: 'That tag is no longer suggested for this image.' };
+    expect(await asOwner(() => reviewSuggestedTagAction(image.id, accepted, true))).toEqual(gone);
+    expect(await asOwner(() => reviewSuggestedTagAction(image.id, rejected, true))).toEqual(gone);
+  });
+
+  it("won't let anyone else review the suggestions", async () => {
+    const { image, suggestedTags } = await uploadAndAnalyze('private.jpg');
+    const { cookie: otherCookie } = await createSignedInUser();
+
+    const asOther = runInRequest(new Request('http://localhost/', { headers: { cookie: otherCookie } }), () => reviewSuggestedTagAction(image.id, suggestedTags[0], true));
+    expect(await asOther).toEqual({ success: false, error: 'You can only tag your own images.' });
+    const withWrongToken = runInRequest(new Request('http://localhost/'), () => reviewSuggestedTagAction(image.id, suggestedTags[0], true, 'not-the-token'));
+    expect(await withWrongToken).toEqual({ success: false, error: 'You can only tag your own images.' });
+    expect(splitImageTags(listImageTags([image.id]).get(image.id) ?? []).suggestedTags).toEqual(suggestedTags);
+  });
+});
@@ -0,0 +1,68 @@
+import { isAiConfigured } from '@/ai/config';
+import { addSuggestedImageTags, getImage, setGeneratedImageDescription, type ImageRecord } from '@/lib/image-store';
+import { MAX_TAGS_PER_IMAGE, normalizeTag } from '@/lib/image-tags';
+import { getTransformedImage } from '@/lib/image-transform';
+
+const MAX_ALT_TEXT_LENGTH = 250;
+const MAX_CAPTION_LENGTH = 1000;
+
+// Models don't need full resolution to describe a photo, and smaller requests are faster and cheaper
+const MODEL_INPUT_RENDITION = { w: 1024, h: 1024, fit: 'inside', fmt: 'jpeg', q: 80 } as const;
+
+// One image at a time, so a burst of uploads doesn't turn into a burst of model calls
+let queue: Promise<void> = Promise.resolve();
+
+async function toModelInputDataUri(image: ImageRecord): Promise<string | null> {
+  const rendition = await getTransformedImage(image, MODEL_INPUT_RENDITION);
+  return rendition ? `data:${rendition.contentType};base64,${rendition.data.toString('base64')}` : null;
+}
+
+async function describeStoredImage(image: ImageRecord, photoDataUri: string): Promise<void> {
+  // Loaded on first use, so nothing from Genkit is pulled in while AI features are switched off
+  const { describeImage } = await import('@/ai/flows/describe-image');
+  const { altText, caption } = await describeImage({ photoDataUri, fileName: image.originalName });
+  setGeneratedImageDescription(image.id, {
+    altText: altText.trim().slice(0, MAX_ALT_TEXT_LENGTH),
+    caption: caption.trim().slice(0, MAX_CAPTION_LENGTH),
+  });
+}
+
+// Suggestions are attached straight away, so they help search before anyone has reviewed them
+async function suggestTagsForStoredImage(image: ImageRecord, photoDataUri: string): Promise<void> {
+  const { suggestImageTags } = await import('@/ai/flows/suggest-image-tags');
+  const { tags } = await suggestImageTags({ photoDataUri, fileName: image.originalName });
+  const normalized = [...new Set(tags.map(normalizeTag).filter(Boolean))].slice(0, MAX_TAGS_PER_IMAGE);
+  addSuggestedImageTags(image.id, normalized);
+}
+
+const ANALYSES = [
+  { name: 'description', run: describeStoredImage },
+  { name: 'tag suggestions', run: suggestTagsForStoredImage },
+];
+
+async function analyzeImage(imageId: string): Promise<void> {
+  const image = getImage(imageId);
+  if (!image) return; // Deleted while it was waiting
+  const photoDataUri = await toModelInputDataUri(image);
+  if (!photoDataUri) return;
+  // Each analysis stands on its own; one failing doesn't stop the others
+  for (const analysis of ANALYSES) {
+    try {
+      await analysis.run(image, photoDataUri);
+    } catch (error) {
+      console.error(`Error generating ${analysis.name} for image ${image.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Queues AI work for a freshly stored image (alt text, a caption and tag suggestions) and returns
+ * straight away, so uploads never wait on a model. Failures are logged and only leave the
+ * image without what that step would have added. Does nothing unless a model provider is configured.
+ */
+export function analyzeImageInBackground(imageId: string): void {
+  if (!isAiConfigured()) return;
+  queue = queue
+    .then(() => analyzeImage(imageId))
+    .catch((error) => console.error(`Error analyzing image ${imageId}:`, error));
+}
@@ -0,0 +1,43 @@
+import crypto from 'node:crypto';
+import { deleteImageRecord, listImageVariants, type ImageRecord } from '@/lib/image-store';
+import { getStorage } from '@/lib/storage';
+import { deleteCachedTransformsForImage } from '@/lib/transform-cache';
+import { emitWebhookEvent, toWebhookImage } from '@/lib/webhooks';
+
+const hashDeletionToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * A fresh secret that lets whoever uploaded an image delete it again without an account.
+ * Only the hash is stored, so the token itself is shown to the uploader exactly once.
+ */
+export function createDeletionToken(): { token: string; hash: string } {
+  const token = crypto.randomBytes(24).toString('base64url');
+  return { token, hash: hashDeletionToken(token) };
+}
+
+export function isValidDeletionToken(image: ImageRecord, token: string): boolean {
+  if (!image.deletionTokenHash) return false;
+  return crypto.timingSafeEqual(Buffer.from(hashDeletionToken(token), 'hex'), Buffer.from(image.deletionTokenHash, 'hex'));
+}
+
+/**
+ * Removes an image, its variants and cached renditions. The metadata goes first, which
+ * stops the files from being served; failing to delete a file afterwards is only logged.
+ */
+export async function deleteImage(image: ImageRecord): Promise<void> {
+  const variants = listImageVariants([image.id]).get(image.id) ?? [];
+  const webhookImage = await toWebhookImage(image); // Its variants and tags go with the record
+  if (!deleteImageRecord(image.id)) {
+    return; // Someone else deleted it in the meantime
+  }
+  emitWebhookEvent('image.deleted', { image: webhookImage });
+
+  const storage = getStorage();
+  const keys = [image.storedFilename, ...variants.map((variant) => variant.storedFilename)];
+  await Promise.all(
+    keys.map((key) => storage.delete(key).catch((error) => console.error(`Error deleting ${key} of image ${image.id}:`, error)))
+  );
+  await deleteCachedTransformsForImage(image.id).catch((error) =>
+    console.error(`Error deleting cached transforms of image ${image.id}:`, error)
+  );
+}
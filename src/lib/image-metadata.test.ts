@@ -0,0 +1,72 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import exifReader from 'exif-reader';
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { stripImageMetadata } from '@/lib/image-metadata';
+import { stageToTempFile, type StagedFile } from '@/lib/upload-staging';
+
+// Made by scripts/generate-metadata-fixtures.ts: a 64x32 photo, red on the left and blue on the
+// right, with GPS, a body serial, an owner name, XMP and IPTC
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__');
+
+function stageFixture(name: string): Promise<StagedFile> {
+  return stageToTempFile(fs.createReadStream(path.join(FIXTURES_DIR, name)), Number.POSITIVE_INFINITY);
+}
+
+async function strip(name: string, keepCameraMetadata = false) {
+  const result = await stripImageMetadata(await stageFixture(name), 'image/jpeg', { keepCameraMetadata });
+  if (!result) throw new Error(`Expected ${name} to be cleaned`);
+  return { ...result, metadata: await sharp(result.staged.path).metadata() };
+}
+
+// Whether the pixel is mostly red or mostly blue; JPEG compression blurs the exact values
+async function colourAt(file: string, left: number, top: number): Promise<'red' | 'blue'> {
+  const [r, , b] = await sharp(file).extract({ left, top, width: 1, height: 1 }).raw().toBuffer();
+  return r > b ? 'red' : 'blue';
+}
+
+describe('stripImageMetadata', () => {
+  it('removes GPS, XMP and IPTC data', async () => {
+    const { metadata } = await strip('gps-upright.jpg');
+
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.xmp).toBeUndefined();
+    expect(metadata.iptc).toBeUndefined();
+  });
+
+  it('applies the EXIF orientation to the pixels', async () => {
+    const { staged, width, height, metadata } = await strip('gps-rotated.jpg');
+
+    expect([width, height]).toEqual([32, 64]);
+    expect([metadata.width, metadata.height]).toEqual([32, 64]);
+    expect(metadata.orientation ?? 1).toBe(1);
+    // Turned a quarter clockwise, the red left half is now on top
+    expect(await colourAt(staged.path, 16, 8)).toBe('red');
+    expect(await colourAt(staged.path, 16, 56)).toBe('blue');
+  });
+
+  it('keeps only the camera details when asked to', async () => {
+    const { metadata } = await strip('gps-rotated.jpg', true);
+
+    expect(metadata.xmp).toBeUndefined();
+    expect(metadata.iptc).toBeUndefined();
+    expect(metadata.orientation ?? 1).toBe(1);
+    const exif = exifReader(metadata.exif!);
+    expect(exif.GPSInfo).toBeUndefined();
+    expect(exif.Image).toMatchObject({ Make: 'FixtureCam', Model: 'FC-1' });
+    expect(exif.Image?.Artist).toBeUndefined();
+    expect(exif.Photo).toMatchObject({ ExposureTime: 1 / 250, FNumber: 2.8, ISOSpeedRatings: 200 });
+    expect(exif.Photo?.BodySerialNumber).toBeUndefined();
+    expect(exif.Photo?.DateTimeOriginal).toBeUndefined();
+  });
+
+  it('leaves files without metadata alone', async () => {
+    const plain = await stageToTempFile(
+      sharp({ create: { width: 8, height: 8, channels: 3, background: '#808080' } }).jpeg(),
+      Number.POSITIVE_INFINITY
+    );
+
+    expect(await stripImageMetadata(plain, 'image/jpeg')).toBeNull();
+  });
+});
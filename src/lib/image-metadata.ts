@@ -0,0 +1,102 @@
+import exifReader from 'exif-reader';
+import sharp from 'sharp';
+import type { ImageMimeType } from '@/lib/image-validation';
+import { stageToTempFile, type StagedFile } from '@/lib/upload-staging';
+
+export interface MetadataOptions {
+  // Carry over CAMERA_EXIF_FIELDS instead of dropping every tag
+  keepCameraMetadata?: boolean;
+}
+
+// EXIF fields describing how a photo was taken, which are safe to publish. Anything that can
+// identify a person, place or device (GPS, serial numbers, owner name, timestamps) is left out.
+const CAMERA_EXIF_FIELDS = {
+  Image: ['Make', 'Model'],
+  Photo: [
+    'LensMake',
+    'LensModel',
+    'ExposureTime',
+    'FNumber',
+    'ISOSpeedRatings',
+    'FocalLength',
+    'FocalLengthIn35mmFilm',
+    'ExposureProgram',
+    'ExposureBiasValue',
+    'MeteringMode',
+    'Flash',
+    'WhiteBalance',
+  ],
+} as const;
+
+// Which IFD sharp's withExif() expects each exif-reader section in
+const IFD_BY_SECTION = { Image: 'IFD0', Photo: 'IFD2' } as const;
+
+function formatExifValue(value: unknown): string | null {
+  if (typeof value === 'string') return value.replace(/\0+$/, '');
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value) && value.every((item) => typeof item === 'number')) return value.join(' ');
+  return null;
+}
+
+function pickCameraExif(exif: Buffer): sharp.Exif {
+  const parsed = exifReader(exif) as unknown as Record<string, Record<string, unknown> | undefined>;
+  const picked: sharp.Exif = {};
+  for (const [section, fields] of Object.entries(CAMERA_EXIF_FIELDS) as [keyof typeof CAMERA_EXIF_FIELDS, readonly string[]][]) {
+    for (const field of fields) {
+      const value = formatExifValue(parsed[section]?.[field]);
+      if (value === null || value === '') continue;
+      const ifd = IFD_BY_SECTION[section];
+      picked[ifd] = { ...picked[ifd], [field]: value };
+    }
+  }
+  return picked;
+}
+
+function encodeLike(image: sharp.Sharp, mimeType: ImageMimeType) {
+  // Re-encode close to the original quality; this is the copy everything else is derived from
+  switch (mimeType) {
+    case 'image/jpeg':
+      return image.jpeg({ quality: 92, mozjpeg: true });
+    case 'image/png':
+      return image.png();
+    case 'image/gif':
+      return image.gif();
+    case 'image/webp':
+      return image.webp({ quality: 92 });
+  }
+}
+
+/**
+ * Removes EXIF, XMP, IPTC and embedded comments from a staged upload, so GPS positions and
+ * device serials never reach a public URL. The EXIF orientation is applied to the pixels
+ * first, so photos keep facing the right way once the tag is gone.
+ *
+ * Files that carry no metadata are left untouched (and not re-encoded). Otherwise the cleaned
+ * image is staged as a new temp file, which the caller owns along with the original.
+ */
+export async function stripImageMetadata(
+  staged: StagedFile,
+  mimeType: ImageMimeType,
+  { keepCameraMetadata = false }: MetadataOptions = {}
+): Promise<{ staged: StagedFile; width: number | null; height: number | null } | null> {
+  const metadata = await sharp(staged.path).metadata();
+  const rotated = metadata.orientation !== undefined && metadata.orientation !== 1;
+  if (!metadata.exif && !metadata.xmp && !metadata.iptc && !metadata.comments?.length && !rotated) {
+    return null;
+  }
+
+  const animated = mimeType === 'image/gif' || mimeType === 'image/webp';
+  // Without withMetadata()/withExif(), sharp writes no metadata to the output at all
+  let pipeline = sharp(staged.path, { animated }).rotate();
+  if (keepCameraMetadata && metadata.exif) {
+    const cameraExif = pickCameraExif(metadata.exif);
+    if (Object.keys(cameraExif).length > 0) {
+      pipeline = pipeline.withExif(cameraExif);
+    }
+  }
+
+  // Re-encoding may grow the file a little, which is fine: the size limit applied to the upload
+  const cleaned = await stageToTempFile(encodeLike(pipeline, mimeType), Number.POSITIVE_INFINITY);
+  const { width, height, pageHeight } = await sharp(cleaned.path).metadata();
+  return { staged: cleaned, width: width ?? null, height: (animated ? pageHeight ?? height : height) ?? null };
+}
@@ -0,0 +1,55 @@
+import type { ImageVariantRecord } from '@/lib/image-store';
+
+// What the browser needs to know about a stored variant to pick one from a srcset
+export interface ImageVariant {
+  name: string; // 'thumb' or 'w<width>'
+  url: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+export function uploadUrl(storedFilename: string) {
+  return `/uploads/${storedFilename}`;
+}
+
+export function shortUrl(shortId: string) {
+  return `/s/${shortId}`;
+}
+
+// A page that deletes the image when opened with its deletion token. The token goes in the
+// fragment, which browsers never send to the server, so it stays out of access logs.
+export function deletionPageUrl(imageId: string, deletionToken: string) {
+  return `/delete/${imageId}#${deletionToken}`;
+}
+
+export function toImageVariants(records: ImageVariantRecord[]): ImageVariant[] {
+  return records.map((record) => ({
+    name: record.name,
+    url: uploadUrl(record.storedFilename),
+    mimeType: record.mimeType,
+    width: record.width,
+    height: record.height,
+  }));
+}
+
+/**
+ * Builds a `srcset` from the responsive-width variants in one format. The original is appended
+ * as the widest candidate when its width is known. Returns undefined when there is nothing to pick from.
+ */
+export function buildSrcSet(variants: ImageVariant[], mimeType: string, original?: { url: string; width: number | null }) {
+  const candidates = variants
+    .filter((variant) => variant.name !== 'thumb' && variant.mimeType === mimeType)
+    .map((variant) => `${variant.url} ${variant.width}w`);
+  if (candidates.length === 0) {
+    return undefined;
+  }
+  if (original?.width) {
+    candidates.push(`${original.url} ${original.width}w`);
+  }
+  return candidates.join(', ');
+}
+
+export function thumbnailUrl(variants: ImageVariant[], mimeType = 'image/webp') {
+  return variants.find((variant) => variant.name === 'thumb' && variant.mimeType === mimeType)?.url;
+}
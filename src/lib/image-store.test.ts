@@ -0,0 +1,97 @@
+import crypto from 'node:crypto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { allocateShortId, insertImage, searchImages, setImageTags } from '@/lib/image-store';
+import { toFullTextQuery, type TagMatchMode } from '@/lib/image-tags';
+import { createSignedInUser } from '@/test/users';
+
+let userId: string;
+
+function addImage(originalName: string, tags: string[], owner: string | null = userId): void {
+  const id = crypto.randomUUID();
+  insertImage({
+    id,
+    shortId: allocateShortId(),
+    originalName,
+    storedFilename: `${id}.jpg`,
+    mimeType: 'image/jpeg',
+    size: 1,
+    width: 1,
+    height: 1,
+    checksum: id,
+    uploadedAt: new Date().toISOString(),
+    deletionTokenHash: null,
+    userId: owner,
+    altText: null,
+    caption: null,
+    moderationStatus: 'approved',
+    moderationReason: null,
+    moderatedAt: null,
+  });
+  setImageTags(id, tags);
+}
+
+const search = (text: string, tags: string[] = [], tagMode: TagMatchMode = 'and') =>
+  searchImages(userId, { text, tags, tagMode, limit: 50 })
+    .map(({ originalName }) => originalName)
+    .sort();
+
+beforeAll(async () => {
+  userId = (await createSignedInUser()).user.id;
+  addImage('sunset-beach.jpg', ['beach', 'holiday']);
+  addImage('mountain.jpg', ['holiday', 'snow']);
+  addImage('city at night.png', ['night']);
+  addImage('Café.jpg', []);
+  addImage('someone elses beach.jpg', ['beach'], (await createSignedInUser()).user.id);
+});
+
+describe('toFullTextQuery', () => {
+  it('turns each word into a quoted prefix term', () => {
+    expect(toFullTextQuery('sun bea')).toBe('"sun"* "bea"*');
+    expect(toFullTextQuery('  Café  ')).toBe('"Café"*');
+  });
+
+  it("drops everything that isn't a letter or digit, including FTS5 syntax", () => {
+    expect(toFullTextQuery('beach OR name:x* NEAR("a" b) -c ^d')).toBe('"beach"* "OR"* "name"* "x"* "NEAR"* "a"* "b"* "c"* "d"*');
+    expect(toFullTextQuery('"; DROP TABLE images; --')).toBe('"DROP"* "TABLE"* "images"*');
+    expect(toFullTextQuery('*"()-:^')).toBeNull();
+    expect(toFullTextQuery('')).toBeNull();
+  });
+
+  it('keeps at most ten terms', () => {
+    expect(toFullTextQuery('a b c d e f g h i j k l')?.split(' ')).toHaveLength(10);
+  });
+});
+
+describe('searchImages', () => {
+  it('matches word prefixes in names and tags', () => {
+    expect(search('sun bea')).toEqual(['sunset-beach.jpg']);
+    expect(search('holi')).toEqual(['mountain.jpg', 'sunset-beach.jpg']);
+    expect(search('nig')).toEqual(['city at night.png']);
+    expect(search('cafe')).toEqual(['Café.jpg']);
+  });
+
+  it('treats query syntax as plain words', () => {
+    expect(search('beach OR mountain')).toEqual([]);
+    expect(search('"beach')).toEqual(['sunset-beach.jpg']);
+    expect(search('name:mountain')).toEqual([]);
+    expect(search('*')).toHaveLength(4); // Nothing to search for: no text filter at all
+  });
+
+  it('requires every tag in "and" mode and any of them in "or" mode', () => {
+    expect(search('', ['holiday', 'beach'])).toEqual(['sunset-beach.jpg']);
+    expect(search('', ['holiday', 'beach'], 'or')).toEqual(['mountain.jpg', 'sunset-beach.jpg']);
+    expect(search('', ['holiday', 'night'])).toEqual([]);
+    expect(search('', ['holiday', 'night'], 'or')).toEqual(['city at night.png', 'mountain.jpg', 'sunset-beach.jpg']);
+    expect(search('', ['holiday', 'holiday'])).toEqual(['mountain.jpg', 'sunset-beach.jpg']);
+  });
+
+  it('combines text and tags', () => {
+    expect(search('mount', ['holiday'])).toEqual(['mountain.jpg']);
+    expect(search('mount', ['beach'], 'or')).toEqual([]);
+  });
+
+  it("only finds the owner's own images", () => {
+    expect(search('beach')).toEqual(['sunset-beach.jpg']);
+    expect(searchImages(null, { text: 'beach', limit: 50 })).toEqual([]);
+  });
+});
@@ -0,0 +1,358 @@
+import { getDb } from '@/lib/db';
+import { toFullTextQuery, type TagMatchMode } from '@/lib/image-tags';
+import { generateShortId } from '@/lib/short-id';
+
+// Quarantined images were flagged when they were uploaded and aren't served until an admin approves them
+export type ModerationStatus = 'approved' | 'quarantined';
+
+export interface ImageRecord {
+  id: string;
+  shortId: string; // For short links, see short-id.ts
+  originalName: string;
+  storedFilename: string;
+  mimeType: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  checksum: string; // SHA-256, hex encoded
+  uploadedAt: string; // ISO 8601
+  deletionTokenHash: string | null; // SHA-256 of the secret handed to the uploader, see image-deletion.ts
+  userId: string | null; // Owner, for images uploaded while signed in
+  altText: string | null; // Generated after upload (see image-analysis.ts) or written by the uploader
+  caption: string | null;
+  moderationStatus: ModerationStatus;
+  moderationReason: string | null; // Why the classifier flagged the image
+  moderatedAt: string | null; // ISO 8601, when an admin reviewed the image
+}
+
+export interface ImageVariantRecord {
+  imageId: string;
+  name: string; // 'thumb' or 'w<width>'
+  format: string; // sharp output format, e.g. 'webp' or 'jpeg'
+  storedFilename: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+interface ImageRow {
+  id: string;
+  short_id: string;
+  original_name: string;
+  stored_filename: string;
+  mime_type: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  checksum: string;
+  uploaded_at: string;
+  deletion_token_hash: string | null;
+  user_id: string | null;
+  alt_text: string | null;
+  caption: string | null;
+  moderation_status: ModerationStatus;
+  moderation_reason: string | null;
+  moderated_at: string | null;
+}
+
+function toRecord(row: ImageRow): ImageRecord {
+  return {
+    id: row.id,
+    shortId: row.short_id,
+    originalName: row.original_name,
+    storedFilename: row.stored_filename,
+    mimeType: row.mime_type,
+    size: row.size,
+    width: row.width,
+    height: row.height,
+    checksum: row.checksum,
+    uploadedAt: row.uploaded_at,
+    deletionTokenHash: row.deletion_token_hash,
+    userId: row.user_id,
+    altText: row.alt_text,
+    caption: row.caption,
+    moderationStatus: row.moderation_status,
+    moderationReason: row.moderation_reason,
+    moderatedAt: row.moderated_at,
+  };
+}
+
+interface ImageVariantRow {
+  image_id: string;
+  name: string;
+  format: string;
+  stored_filename: string;
+  mime_type: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+function toVariantRecord(row: ImageVariantRow): ImageVariantRecord {
+  return {
+    imageId: row.image_id,
+    name: row.name,
+    format: row.format,
+    storedFilename: row.stored_filename,
+    mimeType: row.mime_type,
+    width: row.width,
+    height: row.height,
+    size: row.size,
+  };
+}
+
+// The image and its variants are written together, so the gallery never sees one without the other
+export function insertImage(record: ImageRecord, variants: ImageVariantRecord[] = []): void {
+  const db = getDb();
+  const insertImageRow = db.prepare(
+    `INSERT INTO images (id, short_id, original_name, stored_filename, mime_type, size, width, height, checksum, uploaded_at, deletion_token_hash, user_id,
+       moderation_status, moderation_reason, moderated_at)
+     VALUES (@id, @shortId, @originalName, @storedFilename, @mimeType, @size, @width, @height, @checksum, @uploadedAt, @deletionTokenHash, @userId,
+       @moderationStatus, @moderationReason, @moderatedAt)`
+  );
+  const insertVariantRow = db.prepare(
+    `INSERT INTO image_variants (image_id, name, format, stored_filename, mime_type, width, height, size)
+     VALUES (@imageId, @name, @format, @storedFilename, @mimeType, @width, @height, @size)`
+  );
+  db.transaction(() => {
+    insertImageRow.run(record);
+    variants.forEach((variant) => insertVariantRow.run(variant));
+  })();
+}
+
+export function updateImageDescription(id: string, { altText, caption }: { altText: string | null; caption: string | null }): void {
+  getDb().prepare('UPDATE images SET alt_text = ?, caption = ? WHERE id = ?').run(altText, caption, id);
+}
+
+// Fills in a generated description without overwriting anything the uploader has written meanwhile
+export function setGeneratedImageDescription(id: string, { altText, caption }: { altText: string; caption: string }): void {
+  getDb()
+    .prepare('UPDATE images SET alt_text = coalesce(alt_text, ?), caption = coalesce(caption, ?) WHERE id = ?')
+    .run(altText, caption, id);
+}
+
+// Releases a quarantined image. Returns false if there was no such image waiting for review.
+export function approveQuarantinedImage(id: string, moderatedAt: string): boolean {
+  return getDb()
+    .prepare("UPDATE images SET moderation_status = 'approved', moderated_at = ? WHERE id = ? AND moderation_status = 'quarantined'")
+    .run(moderatedAt, id).changes > 0;
+}
+
+// The admin review queue, oldest first so nothing waits forever
+export function listQuarantinedImages(): ImageRecord[] {
+  const rows = getDb().prepare("SELECT * FROM images WHERE moderation_status = 'quarantined' ORDER BY uploaded_at").all() as ImageRow[];
+  return rows.map(toRecord);
+}
+
+// Variants go with it through ON DELETE CASCADE. Returns false if there was no such image.
+export function deleteImageRecord(id: string): boolean {
+  return getDb().prepare('DELETE FROM images WHERE id = ?').run(id).changes > 0;
+}
+
+export function getImage(id: string): ImageRecord | null {
+  const row = getDb().prepare('SELECT * FROM images WHERE id = ?').get(id) as ImageRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+export function getImageByShortId(shortId: string): ImageRecord | null {
+  const row = getDb().prepare('SELECT * FROM images WHERE short_id = ?').get(shortId) as ImageRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+// A short id no image uses yet. The unique index on short_id still guards against a concurrent insert.
+export function allocateShortId(): string {
+  const isTaken = getDb().prepare('SELECT 1 FROM images WHERE short_id = ?');
+  let shortId: string;
+  do {
+    shortId = generateShortId();
+  } while (isTaken.get(shortId));
+  return shortId;
+}
+
+export function getImageByStoredFilename(storedFilename: string): ImageRecord | null {
+  const row = getDb().prepare('SELECT * FROM images WHERE stored_filename = ?').get(storedFilename) as ImageRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+export function getImageVariantByStoredFilename(storedFilename: string): ImageVariantRecord | null {
+  const row = getDb().prepare('SELECT * FROM image_variants WHERE stored_filename = ?').get(storedFilename) as ImageVariantRow | undefined;
+  return row ? toVariantRecord(row) : null;
+}
+
+// Variants for several images at once, grouped by image id
+export function listImageVariants(imageIds: string[]): Map<string, ImageVariantRecord[]> {
+  const rows = getDb()
+    .prepare('SELECT * FROM image_variants WHERE image_id IN (SELECT value FROM json_each(?)) ORDER BY width')
+    .all(JSON.stringify(imageIds)) as ImageVariantRow[];
+  const variantsByImage = new Map<string, ImageVariantRecord[]>();
+  for (const row of rows) {
+    const variants = variantsByImage.get(row.image_id) ?? [];
+    variants.push(toVariantRecord(row));
+    variantsByImage.set(row.image_id, variants);
+  }
+  return variantsByImage;
+}
+
+// Anonymous uploads are listed to every visitor, so only approved ones; owners see all of theirs
+const LISTED_FOR_OWNER = "images.user_id IS @userId AND (images.user_id IS NOT NULL OR images.moderation_status = 'approved')";
+
+// Newest first, matching the order the gallery shows fresh uploads in. A null owner lists
+// anonymous uploads, so nobody sees images that belong to an account other than their own.
+export function listImages(userId: string | null): ImageRecord[] {
+  const rows = getDb().prepare(`SELECT * FROM images WHERE ${LISTED_FOR_OWNER} ORDER BY uploaded_at DESC`).all({ userId }) as ImageRow[];
+  return rows.map(toRecord);
+}
+
+// Where a page of listImagesPage() left off: the last image on it
+export interface ImageListCursor {
+  uploadedAt: string;
+  id: string;
+}
+
+// listImages() one page at a time. Pages continue after a cursor rather than an offset, so
+// images uploaded while a client pages through don't push others onto the next page twice.
+export function listImagesPage(userId: string | null, { after, limit }: { after?: ImageListCursor | null; limit: number }): ImageRecord[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT * FROM images WHERE ${LISTED_FOR_OWNER} AND (@uploadedAt IS NULL OR (uploaded_at, id) < (@uploadedAt, @id))
+       ORDER BY uploaded_at DESC, id DESC LIMIT @limit`
+    )
+    .all({ userId, uploadedAt: after?.uploadedAt ?? null, id: after?.id ?? null, limit }) as ImageRow[];
+  return rows.map(toRecord);
+}
+
+export interface ImageTag {
+  tag: string;
+  suggested: boolean; // Proposed by the auto-tagger and not reviewed yet
+}
+
+/**
+ * Replaces an image's confirmed tags, which are expected to be normalized already. Pending
+ * suggestions are kept, except for any that are now in `tags`, which become confirmed.
+ */
+export function setImageTags(imageId: string, tags: string[]): void {
+  const db = getDb();
+  const deleteTags = db.prepare('DELETE FROM image_tags WHERE image_id = ? AND suggested = 0');
+  const insertTag = db.prepare(
+    'INSERT INTO image_tags (image_id, tag, suggested) VALUES (?, ?, 0) ON CONFLICT (image_id, tag) DO UPDATE SET suggested = 0'
+  );
+  db.transaction(() => {
+    deleteTags.run(imageId);
+    tags.forEach((tag) => insertTag.run(imageId, tag));
+  })();
+}
+
+// Adds machine-suggested tags, leaving tags the image already has alone
+export function addSuggestedImageTags(imageId: string, tags: string[]): void {
+  const db = getDb();
+  const insertTag = db.prepare('INSERT OR IGNORE INTO image_tags (image_id, tag, suggested) VALUES (?, ?, 1)');
+  db.transaction(() => tags.forEach((tag) => insertTag.run(imageId, tag)))();
+}
+
+// Accepting keeps a suggested tag as a confirmed one, rejecting removes it. Returns false if there was no such suggestion.
+export function reviewSuggestedImageTag(imageId: string, tag: string, accept: boolean): boolean {
+  const statement = accept
+    ? 'UPDATE image_tags SET suggested = 0 WHERE image_id = ? AND tag = ? AND suggested = 1'
+    : 'DELETE FROM image_tags WHERE image_id = ? AND tag = ? AND suggested = 1';
+  return getDb().prepare(statement).run(imageId, tag).changes > 0;
+}
+
+// Tags for several images at once, grouped by image id and sorted alphabetically
+export function listImageTags(imageIds: string[]): Map<string, ImageTag[]> {
+  const rows = getDb()
+    .prepare('SELECT image_id, tag, suggested FROM image_tags WHERE image_id IN (SELECT value FROM json_each(?)) ORDER BY tag')
+    .all(JSON.stringify(imageIds)) as { image_id: string; tag: string; suggested: number }[];
+  const tagsByImage = new Map<string, ImageTag[]>();
+  for (const row of rows) {
+    const tags = tagsByImage.get(row.image_id) ?? [];
+    tags.push({ tag: row.tag, suggested: row.suggested === 1 });
+    tagsByImage.set(row.image_id, tags);
+  }
+  return tagsByImage;
+}
+
+// Every tag in use among the images listImages() would return for the same owner, most used first
+export function listTagCounts(userId: string | null): { tag: string; count: number }[] {
+  return getDb()
+    .prepare(
+      `SELECT image_tags.tag AS tag, COUNT(*) AS count FROM image_tags JOIN images ON images.id = image_tags.image_id
+       WHERE ${LISTED_FOR_OWNER} GROUP BY image_tags.tag ORDER BY count DESC, tag`
+    )
+    .all({ userId }) as { tag: string; count: number }[];
+}
+
+export interface ImageSearchOptions {
+  text?: string; // Matched against names and tags, by word prefix
+  tags?: string[]; // Exact, normalized tags
+  tagMode?: TagMatchMode; // Whether images need all of `tags` or any of them
+  limit: number;
+}
+
+/**
+ * Images of one owner (null for anonymous uploads, as in listImages()) that match the
+ * search text and tag filter. Text matches come best match first, otherwise newest first.
+ */
+export function searchImages(userId: string | null, { text = '', tags = [], tagMode = 'and', limit }: ImageSearchOptions): ImageRecord[] {
+  const conditions = [LISTED_FOR_OWNER];
+  const ftsQuery = toFullTextQuery(text);
+  if (ftsQuery) {
+    conditions.push('image_search MATCH @ftsQuery');
+  }
+  if (tags.length > 0) {
+    const taggedImages = 'SELECT image_id FROM image_tags WHERE tag IN (SELECT value FROM json_each(@tags))';
+    conditions.push(
+      tagMode === 'and'
+        ? `images.id IN (${taggedImages} GROUP BY image_id HAVING COUNT(*) = @tagCount)`
+        : `images.id IN (${taggedImages})`
+    );
+  }
+
+  const rows = getDb()
+    .prepare(
+      `SELECT images.* FROM images ${ftsQuery ? 'JOIN image_search ON image_search.image_id = images.id' : ''}
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ${ftsQuery ? 'image_search.rank, ' : ''}images.uploaded_at DESC LIMIT @limit`
+    )
+    .all({ userId, ftsQuery, tags: JSON.stringify(tags), tagCount: new Set(tags).size, limit }) as ImageRow[];
+  return rows.map(toRecord);
+}
+
+// An album's images in their display order
+export function listAlbumImages(albumId: string): ImageRecord[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT images.* FROM album_images JOIN images ON images.id = album_images.image_id
+       WHERE album_images.album_id = ? ORDER BY album_images.position`
+    )
+    .all(albumId) as ImageRow[];
+  return rows.map(toRecord);
+}
+
+export type ImageSortField = 'date' | 'size' | 'name';
+export type SortOrder = 'asc' | 'desc';
+
+const SORT_COLUMNS: Record<ImageSortField, string> = {
+  date: 'uploaded_at',
+  size: 'size',
+  name: 'original_name COLLATE NOCASE',
+};
+
+interface ImagePageOptions {
+  sort: ImageSortField;
+  order: SortOrder;
+  limit: number;
+  offset: number;
+}
+
+// One page of a user's images plus their total count, for the library's pagination
+export function listUserImagesPage(userId: string, { sort, order, limit, offset }: ImagePageOptions): { images: ImageRecord[]; total: number } {
+  const db = getDb();
+  const direction = order === 'asc' ? 'ASC' : 'DESC';
+  // The column comes from SORT_COLUMNS, never from the request. The id keeps ties in a stable order across pages.
+  const rows = db
+    .prepare(`SELECT * FROM images WHERE user_id = ? ORDER BY ${SORT_COLUMNS[sort]} ${direction}, id ${direction} LIMIT ? OFFSET ?`)
+    .all(userId, limit, offset) as ImageRow[];
+  const { total } = db.prepare('SELECT COUNT(*) AS total FROM images WHERE user_id = ?').get(userId) as { total: number };
+  return { images: rows.map(toRecord), total };
+}
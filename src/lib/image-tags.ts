@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+export const MAX_TAGS_PER_IMAGE = 20;
+export const MAX_TAG_LENGTH = 32;
+
+export type TagMatchMode = 'and' | 'or';
+
+/**
+ * Tags are free-form but stored in one canonical spelling, so "Beach", " beach" and "BEACH"
+ * are the same tag: lower case, with runs of whitespace turned into single dashes and
+ * anything other than letters, digits, dashes and underscores dropped.
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}_-]/gu, '')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+// Normalized, without empties or duplicates, in the order given
+export const TagListSchema = z
+  .array(z.string())
+  .transform((tags) => [...new Set(tags.map(normalizeTag).filter(Boolean))])
+  .refine((tags) => tags.length <= MAX_TAGS_PER_IMAGE, `An image can have at most ${MAX_TAGS_PER_IMAGE} tags.`);
+
+/**
+ * Turns what someone typed into the search box into an FTS5 query. Every word has to match
+ * the start of a word in the name or tags, so "sun bea" finds "sunset-beach.jpg". Only
+ * letters and digits survive, which keeps FTS5's own query syntax out of reach.
+ */
+export function toFullTextQuery(text: string): string | null {
+  const terms = text.split(/[^\p{L}\p{N}]+/u).filter(Boolean).slice(0, 10);
+  return terms.length > 0 ? terms.map((term) => `"${term}"*`).join(' ') : null;
+}
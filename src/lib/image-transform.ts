@@ -0,0 +1,123 @@
+import sharp from 'sharp';
+import { z } from 'zod';
+import type { ImageRecord } from '@/lib/image-store';
+import { getStorage } from '@/lib/storage';
+import {
+  getCachedTransform,
+  putCachedTransform,
+  transformCacheKey,
+  type CachedTransform,
+} from '@/lib/transform-cache';
+
+// Only these values are accepted, which caps how many distinct renditions (and how much
+// resize work) a single image can cost us, no matter what URLs someone generates.
+export const ALLOWED_DIMENSIONS = [16, 32, 48, 64, 96, 128, 160, 200, 240, 256, 300, 320, 400, 480, 512, 600, 640, 720, 800, 960, 1024, 1080, 1200, 1280, 1440, 1600, 1920] as const;
+export const ALLOWED_QUALITIES = [40, 50, 60, 70, 75, 80, 90] as const;
+export const ALLOWED_FITS = ['cover', 'contain', 'fill', 'inside', 'outside'] as const;
+export const ALLOWED_FORMATS = ['original', 'webp', 'avif', 'jpeg', 'png'] as const;
+
+const MAX_CONCURRENT_TRANSFORMS = 2;
+
+const allowedNumber = (allowed: readonly number[], label: string) =>
+  z.coerce
+    .number()
+    .refine((value) => allowed.includes(value), `${label} must be one of ${allowed.join(', ')}.`);
+
+export const TransformParamsSchema = z
+  .object({
+    w: allowedNumber(ALLOWED_DIMENSIONS, 'w').optional(),
+    h: allowedNumber(ALLOWED_DIMENSIONS, 'h').optional(),
+    fit: z.enum(ALLOWED_FITS).default('cover'),
+    fmt: z.enum(ALLOWED_FORMATS).default('original'),
+    q: allowedNumber(ALLOWED_QUALITIES, 'q').default(75),
+  })
+  .strict(); // Unknown parameters are rejected rather than silently creating new cache entries
+
+export type TransformParams = z.infer<typeof TransformParamsSchema>;
+
+const FORMAT_CONTENT_TYPES: Record<Exclude<TransformParams['fmt'], 'original'>, string> = {
+  webp: 'image/webp',
+  avif: 'image/avif',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+};
+
+const SHARP_FORMATS_BY_MIME_TYPE: Record<string, keyof sharp.FormatEnum> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+// A tiny semaphore: resizing is CPU-bound, so queue requests instead of running them all at once
+let activeTransforms = 0;
+const waitingTransforms: (() => void)[] = [];
+
+async function withTransformSlot<T>(work: () => Promise<T>): Promise<T> {
+  if (activeTransforms >= MAX_CONCURRENT_TRANSFORMS) {
+    await new Promise<void>((resolve) => waitingTransforms.push(resolve));
+  }
+  activeTransforms++;
+  try {
+    return await work();
+  } finally {
+    activeTransforms--;
+    waitingTransforms.shift()?.();
+  }
+}
+
+// Identical requests that arrive while a rendition is being produced share the same work
+const inFlight = new Map<string, Promise<CachedTransform | null>>();
+
+async function render(image: ImageRecord, params: TransformParams): Promise<CachedTransform | null> {
+  const source = await getStorage().get(image.storedFilename);
+  if (!source) return null;
+
+  const format = params.fmt === 'original' ? SHARP_FORMATS_BY_MIME_TYPE[image.mimeType] : params.fmt;
+  const contentType = params.fmt === 'original' ? image.mimeType : FORMAT_CONTENT_TYPES[params.fmt];
+
+  // Every frame is only read when the output can hold them; a still format gets the first frame,
+  // rather than all of them stacked into one tall picture
+  const animated = (image.mimeType === 'image/gif' || image.mimeType === 'image/webp') && (format === 'gif' || format === 'webp');
+  let pipeline = sharp({ animated, failOn: 'error' }).rotate();
+  if (params.w || params.h) {
+    pipeline = pipeline.resize({ width: params.w, height: params.h, fit: params.fit, withoutEnlargement: true });
+  }
+
+  // GIF has no quality setting; every other format takes the requested quality
+  pipeline = format === 'gif' ? pipeline.gif() : pipeline.toFormat(format, { quality: params.q });
+
+  source.pipe(pipeline);
+  source.on('error', (error) => pipeline.destroy(error));
+  return { data: await pipeline.toBuffer(), contentType };
+}
+
+/**
+ * Returns the requested rendition of an image, from the disk cache when possible.
+ * Resolves to null if the original is missing from storage.
+ */
+export async function getTransformedImage(
+  image: ImageRecord,
+  params: TransformParams
+): Promise<CachedTransform & { cacheHit: boolean } | null> {
+  const cacheKey = transformCacheKey(image.id, `${params.w ?? ''}x${params.h ?? ''}:${params.fit}:${params.fmt}:${params.q}`);
+  const cached = await getCachedTransform(cacheKey);
+  if (cached) {
+    return { ...cached, cacheHit: true };
+  }
+
+  let pending = inFlight.get(cacheKey);
+  if (!pending) {
+    pending = withTransformSlot(async () => {
+      const rendered = await render(image, params);
+      if (rendered) {
+        await putCachedTransform(cacheKey, image.id, rendered);
+      }
+      return rendered;
+    }).finally(() => inFlight.delete(cacheKey));
+    inFlight.set(cacheKey, pending);
+  }
+
+  const rendered = await pending;
+  return rendered ? { ...rendered, cacheHit: false } : null;
+}
@@ -0,0 +1,63 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import sharp from 'sharp';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { listImagesPage } from '@/lib/image-store';
+import { sniffImageType, verifyImageContent } from '@/lib/image-validation';
+import { processIncomingUpload } from '@/lib/upload-service';
+
+const JPEG = fs.readFileSync(path.join(__dirname, '__fixtures__/gps-upright.jpg'));
+let PNG: Buffer;
+
+beforeAll(async () => {
+  PNG = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#808080' } }).png().toBuffer();
+});
+
+describe('sniffImageType', () => {
+  it('recognises the supported formats by their leading bytes', async () => {
+    expect(sniffImageType(JPEG)).toBe('image/jpeg');
+    expect(sniffImageType(PNG)).toBe('image/png');
+    expect(sniffImageType(await sharp(PNG).gif().toBuffer())).toBe('image/gif');
+    expect(sniffImageType(await sharp(PNG).webp().toBuffer())).toBe('image/webp');
+  });
+
+  it('returns null for anything else', () => {
+    expect(sniffImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+    expect(sniffImageType(Buffer.from('RIFF\0\0\0\0WAVE'))).toBeNull();
+    expect(sniffImageType(Buffer.from([0xff, 0xd8]))).toBeNull();
+    expect(sniffImageType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe('verifyImageContent', () => {
+  it('accepts an image whose content, type and extension agree', async () => {
+    expect(await verifyImageContent(JPEG, 'image/jpeg', '.jpeg')).toEqual({ ok: true, mimeType: 'image/jpeg', width: 64, height: 32 });
+  });
+
+  it('rejects content that is not the claimed type', async () => {
+    expect(await verifyImageContent(PNG, 'image/jpeg', '.jpg')).toEqual({
+      ok: false,
+      reason: 'File content is image/png, but it was uploaded as image/jpeg.',
+    });
+    expect(await verifyImageContent(Buffer.from('<?php echo 1; ?>'), 'image/png', '.png')).toMatchObject({ ok: false, reason: 'File content is not a supported image format.' });
+  });
+
+  it('rejects an extension that does not match the content', async () => {
+    expect(await verifyImageContent(JPEG, 'image/jpeg', '.png')).toMatchObject({ ok: false, reason: 'File extension .png does not match its image/jpeg content.' });
+  });
+
+  it('rejects a valid signature followed by data that does not decode', async () => {
+    expect(await verifyImageContent(JPEG.subarray(0, JPEG.length / 2), 'image/jpeg', '.jpg')).toMatchObject({ ok: false });
+    expect(await verifyImageContent(Buffer.concat([PNG.subarray(0, 8), Buffer.from('not really a png')]), 'image/png', '.png')).toMatchObject({ ok: false });
+  });
+});
+
+describe('uploads with mismatched content', () => {
+  it('are refused before anything is stored', async () => {
+    const result = await processIncomingUpload({ name: 'renamed.jpg', type: 'image/jpeg', body: Readable.from([PNG]) });
+
+    expect(result).toMatchObject({ success: false, code: 'CONTENT_MISMATCH', error: 'File content is image/png, but it was uploaded as image/jpeg.' });
+    expect(listImagesPage(null, { after: null, limit: 10 })).toEqual([]);
+  });
+});
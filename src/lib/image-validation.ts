@@ -0,0 +1,94 @@
+import fs from 'node:fs/promises';
+import sharp from 'sharp';
+
+export type ImageMimeType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+// Extensions we accept for each MIME type. The uploaded filename must agree with the claimed type.
+export const EXTENSIONS_BY_MIME_TYPE: Record<ImageMimeType, string[]> = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/gif': ['.gif'],
+  'image/webp': ['.webp'],
+};
+
+// Format names as reported by sharp/libvips for each MIME type
+const SHARP_FORMATS: Record<ImageMimeType, string> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0) {
+  return bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+/**
+ * Identifies an image by its leading bytes (file signature), ignoring whatever the client claimed.
+ * Returns null for anything that is not one of the supported formats.
+ */
+export function sniffImageType(bytes: Uint8Array): ImageMimeType | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg'; // SOI marker followed by another marker
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  return null;
+}
+
+export type ImageVerificationResult =
+  | { ok: true; mimeType: ImageMimeType; width: number | null; height: number | null }
+  | { ok: false; reason: string };
+
+const SIGNATURE_LENGTH = 12; // Enough for the longest signature we check (RIFF....WEBP)
+
+async function readSignature(source: Buffer | string): Promise<Uint8Array> {
+  if (Buffer.isBuffer(source)) {
+    return source.subarray(0, SIGNATURE_LENGTH);
+  }
+  const handle = await fs.open(source, 'r');
+  try {
+    const signature = Buffer.alloc(SIGNATURE_LENGTH);
+    const { bytesRead } = await handle.read(signature, 0, SIGNATURE_LENGTH, 0);
+    return signature.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Checks that the bytes really are the image the client said they were: the signature must match
+ * the claimed MIME type and extension, and the whole image must decode without errors.
+ * `source` is either the image bytes or the path of a file holding them.
+ */
+export async function verifyImageContent(
+  source: Buffer | string,
+  claimedMimeType: string,
+  extension: string
+): Promise<ImageVerificationResult> {
+  const sniffedType = sniffImageType(await readSignature(source));
+  if (!sniffedType) {
+    return { ok: false, reason: 'File content is not a supported image format.' };
+  }
+  if (sniffedType !== claimedMimeType) {
+    return { ok: false, reason: `File content is ${sniffedType}, but it was uploaded as ${claimedMimeType || 'an unknown type'}.` };
+  }
+  if (!EXTENSIONS_BY_MIME_TYPE[sniffedType].includes(extension)) {
+    return { ok: false, reason: `File extension ${extension || '(none)'} does not match its ${sniffedType} content.` };
+  }
+
+  try {
+    // failOn 'error' makes truncated or corrupt data fail instead of decoding to a partial image.
+    // stats() forces every pixel to be decoded, not just the header to be parsed.
+    const image = sharp(source, { failOn: 'error' });
+    const { format, width, height } = await image.metadata();
+    if (format !== SHARP_FORMATS[sniffedType]) {
+      return { ok: false, reason: 'File content could not be decoded as the claimed image format.' };
+    }
+    await image.stats();
+    return { ok: true, mimeType: sniffedType, width: width ?? null, height: height ?? null };
+  } catch {
+    return { ok: false, reason: 'File content could not be decoded as an image.' };
+  }
+}
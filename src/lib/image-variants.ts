@@ -0,0 +1,95 @@
+import path from 'node:path';
+import sharp from 'sharp';
+import type { ImageMimeType } from '@/lib/image-validation';
+
+// Responsive widths offered through srcset, plus a square thumbnail
+export const VARIANT_WIDTHS = [320, 640, 1280];
+const THUMBNAIL_SIZE = 256;
+
+type OutputFormat = 'webp' | 'jpeg' | 'png' | 'gif';
+
+const OUTPUT_FORMATS: Record<OutputFormat, { mimeType: string; extension: string }> = {
+  webp: { mimeType: 'image/webp', extension: '.webp' },
+  jpeg: { mimeType: 'image/jpeg', extension: '.jpg' },
+  png: { mimeType: 'image/png', extension: '.png' },
+  gif: { mimeType: 'image/gif', extension: '.gif' },
+};
+
+const ORIGINAL_FORMATS: Record<ImageMimeType, OutputFormat> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+export interface GeneratedVariant {
+  name: string;
+  format: OutputFormat;
+  mimeType: string;
+  storedFilename: string;
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// Variants live next to the original: photo_123.png -> photo_123.w640.webp, photo_123.thumb.png
+export function variantFilename(storedFilename: string, name: string, format: OutputFormat) {
+  const base = storedFilename.slice(0, storedFilename.length - path.extname(storedFilename).length);
+  return `${base}.${name}${OUTPUT_FORMATS[format].extension}`;
+}
+
+function encode(image: sharp.Sharp, format: OutputFormat) {
+  switch (format) {
+    case 'webp':
+      return image.webp({ quality: 80 });
+    case 'jpeg':
+      return image.jpeg({ quality: 82, mozjpeg: true });
+    case 'png':
+      return image.png({ compressionLevel: 9 });
+    case 'gif':
+      return image.gif();
+  }
+}
+
+/**
+ * Renders the thumbnail and every responsive width narrower than the original, each as WebP
+ * and in the original's format. Outputs are small, so they are returned as buffers.
+ */
+export async function generateVariants(
+  source: string | Buffer,
+  storedFilename: string,
+  mimeType: ImageMimeType,
+  originalWidth: number | null
+): Promise<GeneratedVariant[]> {
+  const formats = Array.from(new Set<OutputFormat>(['webp', ORIGINAL_FORMATS[mimeType]]));
+  const specs: { name: string; resize: sharp.ResizeOptions }[] = [
+    { name: 'thumb', resize: { width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'cover' } },
+    ...VARIANT_WIDTHS.filter((width) => !originalWidth || width < originalWidth).map((width) => ({
+      name: `w${width}`,
+      resize: { width, withoutEnlargement: true },
+    })),
+  ];
+  // Keep GIF/WebP animations animated in their variants
+  const animated = mimeType === 'image/gif' || mimeType === 'image/webp';
+
+  const variants: GeneratedVariant[] = [];
+  for (const spec of specs) {
+    for (const format of formats) {
+      // rotate() applies the EXIF orientation, which would otherwise be lost with the metadata
+      const pipeline = sharp(source, { animated }).rotate().resize(spec.resize);
+      const { data, info } = await encode(pipeline, format).toBuffer({ resolveWithObject: true });
+      // For animations the output height is all frames stacked together; ask for a single frame's
+      const height = animated ? (await sharp(data).metadata()).pageHeight ?? info.height : info.height;
+      variants.push({
+        name: spec.name,
+        format,
+        mimeType: OUTPUT_FORMATS[format].mimeType,
+        storedFilename: variantFilename(storedFilename, spec.name, format),
+        data,
+        width: info.width,
+        height,
+      });
+    }
+  }
+  return variants;
+}
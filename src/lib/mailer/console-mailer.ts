@@ -0,0 +1,11 @@
+import type { MailMessage, Mailer } from './types';
+
+// Prints messages to the server log instead of sending them. Handy in development,
+// where the reset link can be copied straight from the terminal.
+export class ConsoleMailer implements Mailer {
+  constructor(private readonly from: string) {}
+
+  async send({ to, subject, text }: MailMessage): Promise<void> {
+    console.info(`[mail] From: ${this.from}\n[mail] To: ${to}\n[mail] Subject: ${subject}\n\n${text}\n`);
+  }
+}
@@ -0,0 +1,24 @@
+import crypto from 'node:crypto';
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import type { MailMessage, Mailer } from './types';
+
+// Writes each message as an .eml file into a directory, where tests and scripts can pick it up
+export class FileMailer implements Mailer {
+  constructor(private readonly outboxDir: string, private readonly from: string) {}
+
+  async send({ to, subject, text }: MailMessage): Promise<void> {
+    await fsp.mkdir(this.outboxDir, { recursive: true });
+    const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.eml`;
+    const contents = [
+      `From: ${this.from}`,
+      `To: ${to}`,
+      `Subject: ${subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      text,
+    ].join('\r\n');
+    await fsp.writeFile(path.join(this.outboxDir, filename), contents, { flag: 'wx' });
+  }
+}
@@ -0,0 +1,31 @@
+import path from 'node:path';
+import { ConsoleMailer } from './console-mailer';
+import { FileMailer } from './file-mailer';
+import type { Mailer } from './types';
+
+export type { Mailer, MailMessage } from './types';
+
+// process.cwd() is the root of the Next.js project
+const DEFAULT_MAIL_OUTBOX_DIR = path.join(process.cwd(), 'data/outbox');
+
+function createMailer(): Mailer {
+  const from = process.env.MAIL_FROM || 'ImageDrop <no-reply@localhost>';
+  const driver = process.env.MAILER || 'console';
+  switch (driver) {
+    case 'console':
+      return new ConsoleMailer(from);
+    case 'file':
+      return new FileMailer(process.env.MAIL_OUTBOX_DIR || DEFAULT_MAIL_OUTBOX_DIR, from);
+    default:
+      throw new Error(`Server configuration error: Unknown MAILER "${driver}".`);
+  }
+}
+
+let mailer: Mailer | undefined;
+
+export function getMailer(): Mailer {
+  if (!mailer) {
+    mailer = createMailer();
+  }
+  return mailer;
+}
@@ -0,0 +1,13 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string; // Plain-text body
+}
+
+/**
+ * Sends transactional email such as password reset links. Implementations only need to
+ * deliver the message; retries and templating are up to the caller.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
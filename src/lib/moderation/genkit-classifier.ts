@@ -0,0 +1,25 @@
+import sharp from 'sharp';
+import type { ModerationClassifier, ModerationInput, ModerationVerdict } from './types';
+
+// The same downscaled rendition the other image flows get (see image-analysis.ts). Animated
+// images are judged by their first frame.
+async function toModelInputDataUri(filePath: string): Promise<string> {
+  const data = await sharp(filePath, { failOn: 'error' })
+    .rotate()
+    .resize({ width: 1024, height: 1024, fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+  return `data:image/jpeg;base64,${data.toString('base64')}`;
+}
+
+// Asks the configured model (see src/ai/config.ts) whether the image is fit to publish
+export class GenkitClassifier implements ModerationClassifier {
+  readonly name = 'genkit';
+
+  async classify({ path, originalName }: ModerationInput): Promise<ModerationVerdict> {
+    // Loaded on first use, so nothing from Genkit is pulled in while this classifier isn't selected
+    const { moderateImage } = await import('@/ai/flows/moderate-image');
+    const { flagged, categories, reason } = await moderateImage({ photoDataUri: await toModelInputDataUri(path), fileName: originalName });
+    return { flagged, categories: flagged ? categories : [], reason: reason.trim() || undefined };
+  }
+}
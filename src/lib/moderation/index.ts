@@ -0,0 +1,70 @@
+import { isAiConfigured } from '@/ai/config';
+import type { ModerationStatus } from '@/lib/image-store';
+import { GenkitClassifier } from './genkit-classifier';
+import { RulesClassifier } from './rules-classifier';
+import type { ModerationClassifier, ModerationInput, ModerationVerdict } from './types';
+
+export type { ModerationClassifier, ModerationInput, ModerationVerdict } from './types';
+
+const parseList = (value: string | undefined) =>
+  (value ?? '')
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+
+// Null when moderation is switched off and every upload is published straight away
+function createClassifier(): ModerationClassifier | null {
+  const driver = process.env.MODERATION_CLASSIFIER || (isAiConfigured() ? 'genkit' : 'rules');
+  switch (driver) {
+    case 'genkit':
+      return new GenkitClassifier();
+    case 'rules':
+      return new RulesClassifier({
+        blockedTerms: parseList(process.env.MODERATION_BLOCKED_TERMS),
+        blockedChecksums: parseList(process.env.MODERATION_BLOCKED_CHECKSUMS),
+      });
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Server configuration error: Unknown MODERATION_CLASSIFIER "${driver}".`);
+  }
+}
+
+let classifier: ModerationClassifier | null | undefined;
+
+export function getModerationClassifier(): ModerationClassifier | null {
+  if (classifier === undefined) {
+    classifier = createClassifier();
+  }
+  return classifier;
+}
+
+export interface ModerationDecision {
+  status: ModerationStatus;
+  reason: string | null; // Shown in the review queue
+}
+
+function describeVerdict(classifierName: string, { categories, reason }: ModerationVerdict): string {
+  const flaggedFor = categories.length > 0 ? ` (${categories.join(', ')})` : '';
+  return `Flagged by ${classifierName}${flaggedFor}${reason ? `: ${reason}` : '.'}`;
+}
+
+/**
+ * Runs an upload past the configured classifier before it is stored. Fails closed: an upload
+ * the classifier couldn't judge is quarantined too, so an outage never publishes anything unchecked.
+ */
+export async function moderateUpload(input: ModerationInput): Promise<ModerationDecision> {
+  const activeClassifier = getModerationClassifier();
+  if (!activeClassifier) {
+    return { status: 'approved', reason: null };
+  }
+  try {
+    const verdict = await activeClassifier.classify(input);
+    return verdict.flagged
+      ? { status: 'quarantined', reason: describeVerdict(activeClassifier.name, verdict) }
+      : { status: 'approved', reason: null };
+  } catch (error) {
+    console.error(`Error moderating upload ${input.originalName}:`, error);
+    return { status: 'quarantined', reason: `The ${activeClassifier.name} classifier failed, so the upload needs a manual review.` };
+  }
+}
@@ -0,0 +1,34 @@
+import path from 'node:path';
+import type { ModerationClassifier, ModerationInput, ModerationVerdict } from './types';
+
+export interface ModerationRules {
+  blockedTerms: string[]; // Lower-cased words that flag an upload when they appear in its filename
+  blockedChecksums: string[]; // SHA-256 of known bad files, as stored for earlier uploads
+}
+
+/**
+ * Flags uploads by filename and checksum alone, without looking at the pixels. Works offline
+ * and is cheap enough to run on every upload; with no rules configured it flags nothing.
+ */
+export class RulesClassifier implements ModerationClassifier {
+  readonly name = 'rules';
+  private readonly blockedChecksums: Set<string>;
+
+  constructor(private readonly rules: ModerationRules) {
+    this.blockedChecksums = new Set(rules.blockedChecksums);
+  }
+
+  async classify({ originalName, checksum }: ModerationInput): Promise<ModerationVerdict> {
+    if (this.blockedChecksums.has(checksum)) {
+      return { flagged: true, categories: ['blocklist'], reason: 'The file matches a blocked checksum.' };
+    }
+
+    // Split on anything that isn't a letter or digit, so "my-blocked_term.png" matches "blocked"
+    const words = new Set(path.parse(originalName).name.toLowerCase().split(/[^\p{L}\p{N}]+/u));
+    const matched = this.rules.blockedTerms.filter((term) => words.has(term));
+    if (matched.length > 0) {
+      return { flagged: true, categories: ['filename'], reason: `The filename contains blocked terms: ${matched.join(', ')}.` };
+    }
+    return { flagged: false, categories: [] };
+  }
+}
@@ -0,0 +1,23 @@
+// An upload that has passed validation but hasn't been stored yet
+export interface ModerationInput {
+  path: string; // Staged file, already stripped of metadata
+  mimeType: string; // Verified from the content
+  originalName: string;
+  checksum: string; // SHA-256 of the staged file, hex encoded
+}
+
+export interface ModerationVerdict {
+  flagged: boolean;
+  categories: string[]; // What the image was flagged for, e.g. "violence"; empty when it wasn't
+  reason?: string; // A short explanation for the admin reviewing it
+}
+
+/**
+ * Decides whether an upload may be published straight away. Flagged uploads are stored but
+ * quarantined until an admin reviews them. Implementations throw when they can't reach a
+ * verdict; the caller decides what happens to the upload then.
+ */
+export interface ModerationClassifier {
+  readonly name: string; // Shown to admins next to the verdict
+  classify(input: ModerationInput): Promise<ModerationVerdict>;
+}
@@ -0,0 +1,72 @@
+import busboy from 'busboy';
+import { toNodeReadable } from '@/lib/upload-staging';
+import { type IncomingUpload, MAX_FILE_SIZE, processIncomingUpload, type UploadImageResponse } from '@/lib/upload-service';
+
+/**
+ * Streams the `file` part of a multipart/form-data request straight into the upload pipeline.
+ * A `keepCameraMetadata=true` field must come before the file part to apply.
+ * Unlike `request.formData()`, this never holds the whole body in memory, and it stops reading
+ * as soon as the file is rejected (for example for exceeding MAX_FILE_SIZE).
+ */
+export function processMultipartUpload(request: Request, { userId }: Pick<IncomingUpload, 'userId'> = {}): Promise<UploadImageResponse> {
+  return new Promise((resolve) => {
+    if (!request.body) {
+      resolve({ success: false, code: 'INVALID_FILE', error: 'No file provided or file is empty.' });
+      return;
+    }
+
+    const body = toNodeReadable(request.body);
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({
+        headers: Object.fromEntries(request.headers),
+        // One byte over the limit is enough for the pipeline to notice and reject the file
+        limits: { files: 1, fileSize: MAX_FILE_SIZE + 1 },
+      });
+    } catch {
+      resolve({ success: false, code: 'INVALID_FILE', error: 'Expected a multipart/form-data body.' });
+      return;
+    }
+
+    let upload: Promise<UploadImageResponse> | null = null;
+    let keepCameraMetadata = false;
+
+    // Options only take effect when they are sent before the file part
+    parser.on('field', (field, value) => {
+      if (field === 'keepCameraMetadata') {
+        keepCameraMetadata = value === 'true';
+      }
+    });
+    parser.on('file', (field, stream, info) => {
+      if (field !== 'file' || upload) {
+        stream.resume(); // Discard anything we don't expect
+        return;
+      }
+      upload = processIncomingUpload({ name: info.filename, type: info.mimeType, body: stream, keepCameraMetadata, userId });
+      upload
+        .catch((error): UploadImageResponse => {
+          console.error('Error processing multipart upload:', error);
+          return { success: false, code: 'SERVER_ERROR', error: 'Failed to save file on server. Please try again later.' };
+        })
+        .then((result) => {
+          if (!result.success) {
+            body.destroy(); // No point reading the rest of a rejected upload
+          }
+          resolve(result);
+        });
+    });
+    parser.on('close', () => {
+      if (!upload) {
+        resolve({ success: false, code: 'INVALID_FILE', error: 'No file provided or file is empty.' });
+      }
+    });
+    parser.on('error', () => {
+      body.destroy();
+      if (!upload) {
+        resolve({ success: false, code: 'INVALID_FILE', error: 'Malformed multipart/form-data body.' });
+      }
+    });
+
+    body.pipe(parser);
+  });
+}
@@ -0,0 +1,184 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { z } from 'zod';
+import * as imageRoute from '@/app/api/v1/images/[id]/route';
+import * as imagesRoute from '@/app/api/v1/images/route';
+import * as screenshotsRoute from '@/app/api/v1/screenshots/route';
+import { createApiKey } from '@/lib/api-keys';
+import type { ApiKeyScope } from '@/lib/api-key-scopes';
+import type { ImageListResponseSchema, UploadedImageResponseSchema } from '@/lib/api-v1';
+import { buildOpenApiDocument } from '@/lib/openapi';
+import { MAX_FILE_SIZE } from '@/lib/upload-service';
+import { runInRequest } from '@/test/next-headers';
+import { createSignedInUser } from '@/test/users';
+
+// Calls the real /api/v1 handlers and checks every answer against the OpenAPI document: its status
+// has to be one the operation lists, and its body has to match that response's schema.
+
+const ORIGIN = 'http://localhost:9002';
+const PHOTO = fs.readFileSync(path.join(__dirname, '__fixtures__/gps-upright.jpg'));
+
+type JsonSchema = Record<string, unknown>;
+interface Operation {
+  responses: Record<string, { content?: Record<string, { schema: JsonSchema }> }>;
+}
+
+const document = buildOpenApiDocument(ORIGIN) as { paths: Record<string, Record<string, Operation>> };
+const ajv = new Ajv({ strict: false, allErrors: true });
+addFormats(ajv);
+ajv.addSchema(document, 'openapi.json');
+
+const pointer = (...segments: (string | number)[]) => segments.map((segment) => String(segment).replaceAll('~', '~0').replaceAll('/', '~1')).join('/');
+
+// Every documented response that a test has produced, as "METHOD path status"
+const seen = new Set<string>();
+
+async function expectDocumented(method: string, route: string, response: Response): Promise<unknown> {
+  const operation = document.paths[route]?.[method.toLowerCase()];
+  expect(operation, `${method} ${route} isn't in the document`).toBeDefined();
+  const documented = operation.responses[response.status];
+  expect(documented, `${method} ${route} answered ${response.status}, which the document doesn't list`).toBeDefined();
+  seen.add(`${method} ${route} ${response.status}`);
+
+  const text = await response.text();
+  if (!documented.content) {
+    expect(text).toBe('');
+    return null;
+  }
+  const mediaType = response.headers.get('content-type')?.split(';')[0] ?? '';
+  expect(Object.keys(documented.content)).toContain(mediaType);
+  const body = mediaType === 'application/json' ? JSON.parse(text) : text;
+  const validate = ajv.getSchema(`openapi.json#/${pointer('paths', route, method.toLowerCase(), 'responses', response.status, 'content', mediaType, 'schema')}`)!;
+  expect(validate(body) ? null : validate.errors, `${method} ${route} ${response.status} doesn't match its schema`).toBeNull();
+  return body;
+}
+
+type Handler = (request: Request, context: { params: Promise<{ id: string }> }) => Promise<Response>;
+
+// Sends a request to the route's handler the way Next.js would, and checks the answer. `Body` is
+// what a successful answer holds; it has just been validated against the document.
+async function call<Body = unknown>(
+  handler: Handler,
+  method: string,
+  route: string,
+  { id, query = '', ...init }: RequestInit & { id?: string; query?: string } = {}
+): Promise<{ status: number; body: Body }> {
+  const request = new Request(`${ORIGIN}${route.replace('{id}', id ?? '')}${query}`, { method, ...init });
+  const response = await runInRequest(request, () => handler(request, { params: Promise.resolve({ id: id ?? '' }) }));
+  return { status: response.status, body: (await expectDocumented(method, route, response)) as Body };
+}
+
+type UploadedImage = z.infer<typeof UploadedImageResponseSchema>;
+
+const bearer = (key: string) => ({ Authorization: `Bearer ${key}` });
+const rawJpeg = (headers: Record<string, string> = {}) => ({ headers: { 'Content-Type': 'image/jpeg', ...headers }, body: PHOTO });
+const multipartJpeg = () => {
+  const form = new FormData();
+  form.set('file', new File([PHOTO], 'photo.jpg', { type: 'image/jpeg' }));
+  return form;
+};
+
+let keys: Record<'all' | ApiKeyScope, string>;
+let otherUserKey: string;
+
+beforeAll(async () => {
+  const { user } = await createSignedInUser();
+  const newKey = (userId: string, scopes: ApiKeyScope[]) => {
+    const result = createApiKey(userId, { name: scopes.join(' '), scopes });
+    if (!result.success) throw new Error(result.error);
+    return result.key;
+  };
+  keys = { all: newKey(user.id, ['read', 'upload', 'delete']), read: newKey(user.id, ['read']), upload: newKey(user.id, ['upload']), delete: newKey(user.id, ['delete']) };
+  otherUserKey = newKey((await createSignedInUser()).user.id, ['read', 'upload', 'delete']);
+});
+
+describe('the OpenAPI document', () => {
+  it('is checked strictly enough to catch drift', () => {
+    const validate = ajv.getSchema(`openapi.json#/${pointer('paths', '/api/v1/images/{id}', 'get', 'responses', 200, 'content', 'application/json', 'schema')}`)!;
+    expect(validate({ data: { id: 'abc', url: 'not a url' } })).toBe(false);
+    const validateError = ajv.getSchema(`openapi.json#/${pointer('paths', '/api/v1/images/{id}', 'get', 'responses', 404, 'content', 'application/json', 'schema')}`)!;
+    expect(validateError({ error: { code: 'TEAPOT', message: 'Not found.' } })).toBe(false);
+  });
+
+  describe('/api/v1/images', () => {
+    const route = '/api/v1/images';
+
+    it('POST', async () => {
+      expect((await call(imagesRoute.POST, 'POST', route, rawJpeg(bearer(keys.all)))).status).toBe(201);
+      expect((await call(imagesRoute.POST, 'POST', route, { body: multipartJpeg() })).status).toBe(201);
+      expect((await call(imagesRoute.POST, 'POST', route, { headers: { 'Content-Type': 'text/plain' }, body: 'hello' })).status).toBe(400);
+      expect((await call(imagesRoute.POST, 'POST', route, rawJpeg({ 'Content-Length': String(MAX_FILE_SIZE + 1) }))).status).toBe(413);
+      expect((await call(imagesRoute.POST, 'POST', route, rawJpeg(bearer('idk_revoked')))).status).toBe(401);
+      expect((await call(imagesRoute.POST, 'POST', route, rawJpeg(bearer(keys.read)))).status).toBe(403);
+      expect((await call(imagesRoute.POST, 'POST', route, rawJpeg({ Origin: 'https://evil.example', Host: 'localhost:9002' }))).status).toBe(403);
+    });
+
+    it('GET', async () => {
+      const firstPage = await call(imagesRoute.GET, 'GET', route, { headers: bearer(keys.read), query: '?limit=1' });
+      expect(firstPage).toMatchObject({ status: 200, body: { data: [expect.anything()], nextCursor: null } });
+      const anonymous = await call<z.infer<typeof ImageListResponseSchema>>(imagesRoute.GET, 'GET', route);
+      expect(anonymous.body.data).toHaveLength(1);
+
+      expect((await call(imagesRoute.GET, 'GET', route, { query: '?limit=0' })).status).toBe(400);
+      expect((await call(imagesRoute.GET, 'GET', route, { query: '?cursor=nonsense' })).status).toBe(400);
+      expect((await call(imagesRoute.GET, 'GET', route, { headers: bearer('idk_revoked') })).status).toBe(401);
+      expect((await call(imagesRoute.GET, 'GET', route, { headers: bearer(keys.upload) })).status).toBe(403);
+    });
+  });
+
+  describe('/api/v1/images/{id}', () => {
+    const route = '/api/v1/images/{id}';
+
+    it('GET', async () => {
+      const { body } = await call<UploadedImage>(imagesRoute.POST, 'POST', '/api/v1/images', rawJpeg(bearer(keys.all)));
+      const { id } = body.data;
+
+      expect(await call(imageRoute.GET, 'GET', route, { id, headers: bearer(keys.read) })).toMatchObject({ status: 200, body: { data: { id } } });
+      expect((await call(imageRoute.GET, 'GET', route, { id: 'missing' })).status).toBe(404);
+      expect((await call(imageRoute.GET, 'GET', route, { id, headers: bearer('idk_revoked') })).status).toBe(401);
+      expect((await call(imageRoute.GET, 'GET', route, { id, headers: bearer(keys.upload) })).status).toBe(403);
+    });
+
+    it('DELETE', async () => {
+      const { body: owned } = await call<UploadedImage>(imagesRoute.POST, 'POST', '/api/v1/images', rawJpeg(bearer(keys.all)));
+      const { body: anonymous } = await call<UploadedImage>(imagesRoute.POST, 'POST', '/api/v1/images', rawJpeg());
+
+      expect((await call(imageRoute.DELETE, 'DELETE', route, { id: owned.data.id, headers: bearer(otherUserKey) })).status).toBe(403);
+      expect((await call(imageRoute.DELETE, 'DELETE', route, { id: owned.data.id, headers: bearer(keys.read) })).status).toBe(403);
+      expect((await call(imageRoute.DELETE, 'DELETE', route, { id: owned.data.id, headers: bearer('idk_revoked') })).status).toBe(401);
+      expect((await call(imageRoute.DELETE, 'DELETE', route, { id: owned.data.id, headers: bearer(keys.delete) })).status).toBe(204);
+      expect((await call(imageRoute.DELETE, 'DELETE', route, { id: owned.data.id, headers: bearer(keys.delete) })).status).toBe(404);
+
+      expect((await call(imageRoute.DELETE, 'DELETE', route, { id: anonymous.data.id, headers: { 'X-Deletion-Token': 'wrong' } })).status).toBe(403);
+      const deleted = await call(imageRoute.DELETE, 'DELETE', route, { id: anonymous.data.id, headers: { 'X-Deletion-Token': anonymous.data.deletionToken } });
+      expect(deleted.status).toBe(204);
+    });
+  });
+
+  describe('/api/v1/screenshots', () => {
+    const route = '/api/v1/screenshots';
+
+    it('POST', async () => {
+      const json = await call(screenshotsRoute.POST, 'POST', route, { body: multipartJpeg() });
+      expect(json).toMatchObject({ status: 201, body: { id: expect.any(String) } });
+      const text = await call(screenshotsRoute.POST, 'POST', route, { ...rawJpeg(bearer(keys.upload)), query: '?format=text' });
+      expect(text).toMatchObject({ status: 201, body: expect.stringMatching(/^http:\/\/localhost:9002\/.+\n$/) });
+
+      expect((await call(screenshotsRoute.POST, 'POST', route, { headers: { 'Content-Type': 'image/jpeg' }, body: 'not a jpeg' })).status).toBe(400);
+      expect((await call(screenshotsRoute.POST, 'POST', route, rawJpeg({ 'Content-Length': String(MAX_FILE_SIZE + 1) }))).status).toBe(413);
+      expect((await call(screenshotsRoute.POST, 'POST', route, rawJpeg(bearer('idk_revoked')))).status).toBe(401);
+      expect((await call(screenshotsRoute.POST, 'POST', route, rawJpeg(bearer(keys.delete)))).status).toBe(403);
+    });
+  });
+});
+
+// Fails when the document promises a response the tests above never saw, e.g. after adding one
+afterAll(() => {
+  const documented = Object.entries(document.paths).flatMap(([route, operations]) =>
+    Object.entries(operations).flatMap(([method, { responses }]) => Object.keys(responses).map((status) => `${method.toUpperCase()} ${route} ${status}`))
+  );
+  expect(documented.filter((response) => !seen.has(response))).toEqual([]);
+});
@@ -0,0 +1,212 @@
+import type { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { ApiKeyScope } from '@/lib/api-key-scopes';
+import {
+  ApiErrorBodySchema,
+  ApiImageSchema,
+  ApiImageVariantSchema,
+  ImageListParamsSchema,
+  ImageListResponseSchema,
+  ImageResponseSchema,
+  ScreenshotResponseSchema,
+  UploadedImageResponseSchema,
+} from '@/lib/api-v1';
+import { ACCEPTED_IMAGE_TYPES, MAX_FILE_SIZE } from '@/lib/upload-service';
+
+// Describes /api/v1 as an OpenAPI 3.1 document, served at /api/openapi.json. Schemas come from the
+// same zod definitions the routes answer with, so the two can't disagree.
+
+type JsonSchema = Record<string, unknown>;
+
+// Shared schemas that get a name under components.schemas, and are referenced rather than repeated
+const COMPONENT_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  Image: ApiImageSchema,
+  ImageVariant: ApiImageVariantSchema,
+  Error: ApiErrorBodySchema,
+};
+
+function toJsonSchema(schema: z.ZodTypeAny, components: JsonSchema): JsonSchema {
+  const definitions = Object.fromEntries(Object.entries(COMPONENT_SCHEMAS).filter(([, component]) => component !== schema));
+  const { $schema: _, schemas, ...json } = zodToJsonSchema(schema, {
+    target: 'jsonSchema7',
+    // Clients should expect new fields over time, and the upload response adds one to Image
+    removeAdditionalStrategy: 'strict',
+    basePath: ['#', 'components'],
+    definitionPath: 'schemas',
+    definitions,
+  }) as JsonSchema & { schemas?: JsonSchema };
+  Object.assign(components, schemas);
+  return json;
+}
+
+const MAX_FILE_SIZE_MB = MAX_FILE_SIZE / 1024 / 1024;
+const FILE_LIMITS = `At most ${MAX_FILE_SIZE_MB}MB, and one of ${ACCEPTED_IMAGE_TYPES.join(', ')}.`;
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'The request or the file was rejected.',
+  401: 'The API key is missing, malformed or revoked.',
+  403: 'Not allowed: the API key lacks the scope, or a signed-in browser made a cross-origin request.',
+  404: 'No such image, or not one the caller can see.',
+  413: `The file is larger than ${MAX_FILE_SIZE_MB}MB.`,
+};
+
+function errorResponses(statuses: number[]) {
+  return Object.fromEntries(
+    statuses.map((status) => [
+      status,
+      { description: ERROR_DESCRIPTIONS[status], content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } },
+    ])
+  );
+}
+
+function jsonResponse(description: string, schema: z.ZodTypeAny, components: JsonSchema) {
+  return { description, content: { 'application/json': { schema: toJsonSchema(schema, components) } } };
+}
+
+// Keys need the scope; signed-in browsers, and anonymous callers where the route allows them, don't
+function withScope(scope: ApiKeyScope, operation: JsonSchema & { description?: string }) {
+  const note = `API keys need the \`${scope}\` scope.`;
+  return { ...operation, description: operation.description ? `${operation.description} ${note}` : note, security: [{ apiKey: [] }, {}] };
+}
+
+function queryParameters(schema: z.AnyZodObject, components: JsonSchema) {
+  const { properties } = toJsonSchema(schema, components) as { properties: Record<string, JsonSchema> };
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, field]) => ({
+    name,
+    in: 'query',
+    required: !field.isOptional(),
+    description: field.description,
+    schema: properties[name],
+  }));
+}
+
+// Uploads come as multipart/form-data, or as the raw file with its type in Content-Type
+const UPLOAD_REQUEST_BODY = {
+  required: true,
+  description: FILE_LIMITS,
+  content: {
+    'multipart/form-data': {
+      schema: {
+        type: 'object',
+        properties: {
+          file: { type: 'string', contentMediaType: 'application/octet-stream' },
+          keepCameraMetadata: { type: 'string', enum: ['true', 'false'], description: 'Keep EXIF camera details. GPS data is always removed.' },
+        },
+        required: ['file'],
+      },
+    },
+    ...Object.fromEntries(ACCEPTED_IMAGE_TYPES.map((type) => [type, { schema: { type: 'string', contentMediaType: type } }])),
+  },
+};
+
+// Only read for raw bodies; multipart bodies carry their own file name
+const RAW_UPLOAD_PARAMETERS = [
+  { name: 'filename', in: 'query', required: false, description: 'The name to store a raw upload under.', schema: { type: 'string' } },
+  {
+    name: 'keepCameraMetadata',
+    in: 'query',
+    required: false,
+    description: 'Keep EXIF camera details of a raw upload. GPS data is always removed.',
+    schema: { type: 'string', enum: ['true', 'false'] },
+  },
+];
+
+export function buildOpenApiDocument(origin: string): JsonSchema {
+  const components: JsonSchema = {};
+  const idParameter = { name: 'id', in: 'path', required: true, schema: { type: 'string' } };
+
+  const paths = {
+    '/api/v1/images': {
+      get: withScope('read', {
+        operationId: 'listImages',
+        summary: 'List images',
+        description: "The caller's own images, or anonymous uploads for anonymous callers, newest first.",
+        parameters: queryParameters(ImageListParamsSchema, components),
+        responses: {
+          200: jsonResponse('A page of images.', ImageListResponseSchema, components),
+          ...errorResponses([400, 401, 403]),
+        },
+      }),
+      post: withScope('upload', {
+        operationId: 'uploadImage',
+        summary: 'Upload an image',
+        parameters: RAW_UPLOAD_PARAMETERS,
+        requestBody: UPLOAD_REQUEST_BODY,
+        responses: {
+          201: {
+            ...jsonResponse('The stored image, with its deletion token.', UploadedImageResponseSchema, components),
+            headers: { Location: { description: 'Where to GET the image.', schema: { type: 'string' } } },
+          },
+          ...errorResponses([400, 401, 403, 413]),
+        },
+      }),
+    },
+    '/api/v1/images/{id}': {
+      get: withScope('read', {
+        operationId: 'getImage',
+        summary: 'Get an image',
+        parameters: [idParameter],
+        responses: {
+          200: jsonResponse('The image.', ImageResponseSchema, components),
+          ...errorResponses([401, 403, 404]),
+        },
+      }),
+      delete: withScope('delete', {
+        operationId: 'deleteImage',
+        summary: 'Delete an image',
+        description: 'Owners can delete their images. Anonymous uploads need the deletion token returned when they were uploaded.',
+        parameters: [
+          idParameter,
+          { name: 'X-Deletion-Token', in: 'header', required: false, schema: { type: 'string' } },
+        ],
+        responses: {
+          204: { description: 'Deleted.' },
+          ...errorResponses([401, 403, 404]),
+        },
+      }),
+    },
+    '/api/v1/screenshots': {
+      post: withScope('upload', {
+        operationId: 'uploadScreenshot',
+        summary: 'Upload a screenshot',
+        description: 'Takes the same bodies as uploading an image, and answers with a flat object of links for screenshot tools.',
+        parameters: [
+          ...RAW_UPLOAD_PARAMETERS,
+          { name: 'format', in: 'query', required: false, description: 'Answer with just the image URL as text.', schema: { type: 'string', enum: ['text'] } },
+        ],
+        requestBody: UPLOAD_REQUEST_BODY,
+        responses: {
+          201: {
+            description: 'Links to the stored image.',
+            content: {
+              'application/json': { schema: toJsonSchema(ScreenshotResponseSchema, components) },
+              'text/plain': { schema: { type: 'string' } },
+            },
+          },
+          ...errorResponses([400, 401, 403, 413]),
+        },
+      }),
+    },
+  };
+
+  for (const [name, schema] of Object.entries(COMPONENT_SCHEMAS)) {
+    components[name] = toJsonSchema(schema, components);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'ImageDrop API',
+      version: '1',
+      description: 'Upload, list, read and delete images. Create API keys under Settings → API keys.',
+    },
+    servers: [{ url: origin }],
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: {
+        apiKey: { type: 'http', scheme: 'bearer', description: 'An API key, sent as `Authorization: Bearer idk_…`.' },
+      },
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import crypto from 'node:crypto';
+
+// scrypt cost parameters for new hashes. They are stored with each hash, so raising them later
+// only affects passwords set from then on. N=2^15, r=8 needs 32MB of memory per hash.
+const SCRYPT_COST = { N: 32768, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+function scrypt(password: string, salt: Buffer, keyLength: number, cost: crypto.ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // maxmem must cover 128 * N * r bytes, plus some headroom
+    crypto.scrypt(password, salt, keyLength, { ...cost, maxmem: 256 * cost.N! * cost.r! }, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+// Format: scrypt$<N>$<r>$<p>$<salt, base64>$<key, base64>
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = await scrypt(password, salt, KEY_LENGTH, SCRYPT_COST);
+  const { N, r, p } = SCRYPT_COST;
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [algorithm, N, r, p, salt, key] = storedHash.split('$');
+  if (algorithm !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, { N: Number(N), r: Number(r), p: Number(p) });
+  return crypto.timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,39 @@
+import { EXTENSIONS_BY_MIME_TYPE, type ImageMimeType } from '@/lib/image-validation';
+import { type IncomingUpload, MAX_FILE_SIZE, processIncomingUpload, UploadFileInfoSchema, type UploadImageResponse } from '@/lib/upload-service';
+
+// Raw bodies are named by the `filename` query parameter, or after their type when it's missing
+function rawUploadFilename(searchParams: URLSearchParams, type: string): string {
+  const filename = searchParams.get('filename')?.trim();
+  if (filename) return filename;
+  const extension = EXTENSIONS_BY_MIME_TYPE[type as ImageMimeType]?.[0] ?? '';
+  return `upload${extension}`;
+}
+
+/**
+ * Streams an upload sent as the raw request body, with its type in Content-Type, into the
+ * upload pipeline. Size and type are checked against the request headers before the body is
+ * read. `filename` and `keepCameraMetadata` come from the query string.
+ */
+export async function processRawUpload(request: Request, { userId = null }: Pick<IncomingUpload, 'userId'> = {}): Promise<UploadImageResponse> {
+  const type = request.headers.get('content-type')?.split(';')[0].trim().toLowerCase() ?? '';
+  // Chunked bodies have no Content-Length; the pipeline still enforces the limit while reading
+  const contentLength = request.headers.get('content-length');
+  const size = contentLength === null ? undefined : Number(contentLength);
+  const declared = UploadFileInfoSchema.partial({ size: true }).safeParse({ type, size });
+  if (!declared.success) {
+    const code = size !== undefined && size > MAX_FILE_SIZE ? 'FILE_TOO_LARGE' : 'INVALID_FILE';
+    return { success: false, code, error: declared.error.issues[0]?.message };
+  }
+  if (!request.body) {
+    return { success: false, code: 'INVALID_FILE', error: 'No file provided or file is empty.' };
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  return processIncomingUpload({
+    name: rawUploadFilename(searchParams, type),
+    type,
+    body: request.body,
+    keepCameraMetadata: searchParams.get('keepCameraMetadata') === 'true',
+    userId,
+  });
+}
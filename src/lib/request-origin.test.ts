@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getAppOrigin, getClientIp, getTrustedAppOrigin, safeRedirectPath } from '@/lib/request-origin';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getAppOrigin', () => {
+  const forwarded = new Headers({ host: 'app:9002', 'x-forwarded-host': 'evil.example', 'x-forwarded-proto': 'http' });
+
+  it('uses APP_URL whatever the headers say', () => {
+    vi.stubEnv('APP_URL', 'https://img.example.com/some/path');
+    vi.stubEnv('TRUST_PROXY', '1');
+
+    expect(getAppOrigin(forwarded)).toBe('https://img.example.com');
+  });
+
+  it('ignores forwarded headers unless proxies are trusted', () => {
+    expect(getAppOrigin(forwarded)).toBe('https://app:9002');
+    expect(getAppOrigin(new Headers({ host: 'localhost:9002', 'x-forwarded-proto': 'https' }))).toBe('http://localhost:9002');
+
+    vi.stubEnv('TRUST_PROXY', '1');
+    expect(getAppOrigin(forwarded)).toBe('http://evil.example');
+    expect(getAppOrigin(new Headers({ host: 'img.example.com' }))).toBe('https://img.example.com');
+  });
+});
+
+describe('getTrustedAppOrigin', () => {
+  it('uses APP_URL whatever the Host header says', () => {
+    vi.stubEnv('APP_URL', 'https://img.example.com/some/path');
+
+    expect(getTrustedAppOrigin(new Headers({ host: 'evil.example' }))).toBe('https://img.example.com');
+  });
+
+  it('picks the trusted origin the request was sent to', () => {
+    vi.stubEnv('APP_TRUSTED_ORIGINS', 'https://img.example.com, https://images.example.org');
+
+    expect(getTrustedAppOrigin(new Headers({ host: 'images.example.org' }))).toBe('https://images.example.org');
+    expect(getTrustedAppOrigin(new Headers({ host: 'evil.example', 'x-forwarded-host': 'img.example.com' }))).toBe('https://img.example.com');
+  });
+
+  it('never falls back to the Host header', () => {
+    expect(getTrustedAppOrigin(new Headers({ host: 'evil.example' }))).toBeNull();
+
+    vi.stubEnv('APP_TRUSTED_ORIGINS', 'https://img.example.com');
+    expect(getTrustedAppOrigin(new Headers({ host: 'evil.example' }))).toBeNull();
+    expect(getTrustedAppOrigin(new Headers())).toBeNull();
+  });
+});
+
+describe('safeRedirectPath', () => {
+  it('keeps paths on this site', () => {
+    expect(safeRedirectPath('/gallery')).toBe('/gallery');
+    expect(safeRedirectPath('/settings/api-keys?tab=new#top')).toBe('/settings/api-keys?tab=new#top');
+  });
+
+  it.each([
+    'https://evil.com',
+    '//evil.com',
+    '/\\evil.com',
+    '\\\\evil.com',
+    '/\t/evil.com',
+    '/\n/evil.com',
+    'javascript:alert(1)',
+    'gallery',
+    '',
+  ])('sends %j home instead', (value) => {
+    expect(safeRedirectPath(value)).toBe('/');
+  });
+
+  it('ignores values that are not strings', () => {
+    expect(safeRedirectPath(null)).toBe('/');
+    expect(safeRedirectPath(new File([], '/gallery'))).toBe('/');
+  });
+});
+
+describe('getClientIp', () => {
+  const forwarded = new Headers({ 'x-forwarded-for': '6.6.6.6, 203.0.113.7, 10.0.0.2', 'x-real-ip': '10.0.0.2' });
+
+  it('records nothing unless proxies are trusted', () => {
+    expect(getClientIp(forwarded)).toBeNull();
+
+    vi.stubEnv('TRUST_PROXY', 'yes');
+    expect(getClientIp(forwarded)).toBeNull();
+  });
+
+  it('skips as many hops from the right as there are trusted proxies', () => {
+    vi.stubEnv('TRUST_PROXY', '1');
+    expect(getClientIp(forwarded)).toBe('10.0.0.2');
+
+    vi.stubEnv('TRUST_PROXY', '2');
+    expect(getClientIp(forwarded)).toBe('203.0.113.7');
+
+    vi.stubEnv('TRUST_PROXY', '5');
+    expect(getClientIp(forwarded)).toBe('6.6.6.6');
+  });
+
+  it('falls back to X-Real-IP from a trusted proxy', () => {
+    vi.stubEnv('TRUST_PROXY', '1');
+
+    expect(getClientIp(new Headers({ 'x-real-ip': '203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getClientIp(new Headers())).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Browser-facing route handlers don't get the CSRF protection Server Actions have, so they
+ * should only accept requests whose Origin (sent by browsers on every POST) matches the host
+ * they were sent to. Requests without an Origin header come from non-browser clients.
+ */
+export function isSameOriginRequest(request: Request): boolean {
+  const origin = request.headers.get('origin');
+  if (!origin) {
+    return true;
+  }
+  const host = request.headers.get('x-forwarded-host') ?? request.headers.get('host');
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+// How many reverse proxies TRUST_PROXY says sit in front of the app; 0 when it isn't a positive count
+function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUST_PROXY);
+  return Number.isSafeInteger(hops) && hops > 0 ? hops : 0;
+}
+
+/**
+ * The absolute origin (e.g. https://img.example.com) to use in links that leave the app, such
+ * as API responses. APP_URL takes precedence, since the Host header is client-controlled. The
+ * X-Forwarded-Host and X-Forwarded-Proto headers are only read when TRUST_PROXY is set, as
+ * without a proxy to overwrite them they're whatever the client sent. Links sent by email or
+ * webhook use getTrustedAppOrigin() instead.
+ */
+export function getAppOrigin(headers: Headers): string {
+  if (process.env.APP_URL) {
+    return new URL(process.env.APP_URL).origin;
+  }
+  const forwarded = trustedProxyHops() > 0;
+  const host = (forwarded && headers.get('x-forwarded-host')) || headers.get('host') || 'localhost:9002';
+  const protocol = (forwarded && headers.get('x-forwarded-proto')) || (host.startsWith('localhost') ? 'http' : 'https');
+  return `${protocol}://${host}`;
+}
+
+/**
+ * The origin for links sent by email, which must not come from the Host header: otherwise anyone
+ * could have the app mail a reset link pointing at their own site. That's APP_URL, or the entry of
+ * APP_TRUSTED_ORIGINS (comma-separated) whose host the request was sent to. Null if neither applies.
+ */
+export function getTrustedAppOrigin(headers: Headers): string | null {
+  if (process.env.APP_URL) {
+    return new URL(process.env.APP_URL).origin;
+  }
+  const host = headers.get('x-forwarded-host') ?? headers.get('host');
+  const trustedOrigins = (process.env.APP_TRUSTED_ORIGINS ?? '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean)
+    .map((origin) => new URL(origin));
+  return trustedOrigins.find((origin) => origin.host === host)?.origin ?? null;
+}
+
+// Stands in for this site's origin when checking that a path stays on it
+const PLACEHOLDER_ORIGIN = 'http://app.invalid';
+
+/**
+ * `value` if it's a path on this site, and '/' otherwise, so a crafted link can't bounce users
+ * elsewhere after signing in. Browsers read `\` as `/` and drop tabs and newlines from URLs, so
+ * `/\evil.com` would leave the site; those characters are refused outright.
+ */
+export function safeRedirectPath(value: unknown): string {
+  if (typeof value !== 'string' || !value.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(value)) {
+    return '/';
+  }
+  const url = new URL(value, PLACEHOLDER_ORIGIN);
+  return url.origin === PLACEHOLDER_ORIGIN ? `${url.pathname}${url.search}${url.hash}` : '/';
+}
+
+/**
+ * The client's address as reported by the reverse proxies in front of the app, for audit trails
+ * only. TRUST_PROXY says how many there are. Each one appends the address it was reached from
+ * to X-Forwarded-For, so the entry that many places from the right is the first one a client
+ * couldn't have written itself. Without TRUST_PROXY the headers could be anyone's, and this is null.
+ */
+export function getClientIp(headers: Headers): string | null {
+  const trustedHops = trustedProxyHops();
+  if (trustedHops === 0) {
+    return null;
+  }
+  const forwardedFor = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (forwardedFor.length > 0) {
+    return forwardedFor[Math.max(0, forwardedFor.length - trustedHops)];
+  }
+  return headers.get('x-real-ip')?.trim() || null;
+}
@@ -0,0 +1,42 @@
+import crypto from 'node:crypto';
+import { cookies } from 'next/headers';
+import { deleteExpiredSessions, deleteSession, getSessionUser, insertSession, type UserRecord } from '@/lib/auth-store';
+
+const SESSION_COOKIE = 'imagedrop_session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Signs the user in on this browser. Only usable where cookies can be set: Server Actions
+ * and route handlers.
+ */
+export async function startSession(userId: string): Promise<void> {
+  deleteExpiredSessions();
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  insertSession(hashToken(token), userId, expiresAt.toISOString());
+
+  (await cookies()).set(SESSION_COOKIE, token, {
+    httpOnly: true, // Out of reach of scripts, so an XSS bug can't steal the session
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export async function endSession(): Promise<void> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+  if (token) {
+    deleteSession(hashToken(token));
+  }
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+// The signed-in user for the current request, or null for anonymous visitors
+export async function getCurrentUser(): Promise<UserRecord | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? getSessionUser(hashToken(token)) : null;
+}
@@ -0,0 +1,15 @@
+import crypto from 'node:crypto';
+
+const ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+export const SHORT_ID_LENGTH = 7; // 62^7 ≈ 3.5 trillion ids
+
+export const SHORT_ID_PATTERN = new RegExp(`^[0-9A-Za-z]{${SHORT_ID_LENGTH}}$`);
+
+// Random rather than sequential, so short links can't be enumerated to discover other uploads
+export function generateShortId(): string {
+  let id = '';
+  for (let i = 0; i < SHORT_ID_LENGTH; i++) {
+    id += ALPHABET[crypto.randomInt(ALPHABET.length)];
+  }
+  return id;
+}
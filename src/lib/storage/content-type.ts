@@ -0,0 +1,14 @@
+import path from 'node:path';
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+// Local disk has nowhere to keep a content type, so it is derived from the key instead.
+export function contentTypeForKey(key: string): string {
+  return CONTENT_TYPES_BY_EXTENSION[path.extname(key).toLowerCase()] ?? 'application/octet-stream';
+}
@@ -0,0 +1,44 @@
+import path from 'node:path';
+import { LocalDiskDriver } from './local-driver';
+import { S3Driver } from './s3-driver';
+import type { StorageDriver } from './types';
+
+export type { StorageDriver, StorageObjectInfo, PutOptions } from './types';
+export { InvalidStorageKeyError } from './types';
+
+// process.cwd() is the root of the Next.js project
+const DEFAULT_LOCAL_STORAGE_DIR = path.join(process.cwd(), 'uploads');
+
+function createStorageDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+  switch (driver) {
+    case 'local':
+      return new LocalDiskDriver(process.env.LOCAL_STORAGE_DIR || DEFAULT_LOCAL_STORAGE_DIR);
+    case 's3': {
+      const bucket = process.env.S3_BUCKET;
+      if (!bucket) {
+        throw new Error('Server configuration error: S3_BUCKET must be set when STORAGE_DRIVER=s3.');
+      }
+      return new S3Driver({
+        bucket,
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        prefix: process.env.S3_PREFIX,
+      });
+    }
+    default:
+      throw new Error(`Server configuration error: Unknown STORAGE_DRIVER "${driver}".`);
+  }
+}
+
+let storage: StorageDriver | undefined;
+
+export function getStorage(): StorageDriver {
+  if (!storage) {
+    storage = createStorageDriver();
+  }
+  return storage;
+}
@@ -0,0 +1,100 @@
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { contentTypeForKey } from './content-type';
+import { assertValidKey, InvalidStorageKeyError, type PutOptions, type StorageDriver, type StorageObjectInfo } from './types';
+
+export class LocalDiskDriver implements StorageDriver {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    assertValidKey(key);
+    const filePath = path.resolve(this.rootDir, key);
+    // Belt and braces: the key check above should already prevent this
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new InvalidStorageKeyError(key);
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer | Readable, _options?: PutOptions): Promise<void> {
+    const filePath = this.resolve(key);
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+    if (Buffer.isBuffer(body)) {
+      await fsp.writeFile(filePath, body);
+    } else {
+      await pipeline(body, fs.createWriteStream(filePath));
+    }
+  }
+
+  async putFile(key: string, filePath: string, _options?: PutOptions): Promise<void> {
+    const destination = this.resolve(key);
+    await fsp.mkdir(path.dirname(destination), { recursive: true });
+    try {
+      await fsp.rename(filePath, destination);
+    } catch (error: any) {
+      if (error.code !== 'EXDEV') throw error;
+      // Temp dir is on another filesystem: copy next to the destination, then rename into place
+      const partialPath = `${destination}.partial`;
+      await fsp.copyFile(filePath, partialPath);
+      await fsp.rename(partialPath, destination);
+      await fsp.rm(filePath, { force: true });
+    }
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const filePath = this.resolve(key);
+    if (!(await this.exists(key))) {
+      return null;
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fsp.rm(filePath, { force: true });
+    // Tidy up directories left empty by nested keys such as tus chunks
+    const root = path.resolve(this.rootDir);
+    for (let dir = path.dirname(filePath); dir !== root; dir = path.dirname(dir)) {
+      try {
+        await fsp.rmdir(dir);
+      } catch {
+        break; // Not empty (or already gone)
+      }
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.stat(key)) !== null;
+  }
+
+  async list(prefix = ''): Promise<StorageObjectInfo[]> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fsp.readdir(this.rootDir, { recursive: true, withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    const keys = entries
+      .filter((entry) => entry.isFile())
+      .map((entry) => path.relative(this.rootDir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'))
+      .filter((key) => key.startsWith(prefix))
+      .sort();
+    const infos = await Promise.all(keys.map((key) => this.stat(key)));
+    return infos.filter((info): info is StorageObjectInfo => info !== null);
+  }
+
+  async stat(key: string): Promise<StorageObjectInfo | null> {
+    try {
+      const stats = await fsp.stat(this.resolve(key));
+      if (!stats.isFile()) return null;
+      return { key, size: stats.size, contentType: contentTypeForKey(key), lastModified: stats.mtime };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
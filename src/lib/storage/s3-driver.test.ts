@@ -0,0 +1,164 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { text } from 'node:stream/consumers';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { S3Driver } from '@/lib/storage/s3-driver';
+import { InvalidStorageKeyError } from '@/lib/storage/types';
+
+const BUCKET = 'imagedrop';
+const LIST_PAGE_SIZE = 2; // Small, so listing has to follow continuation tokens
+const FORBIDDEN_KEY = 'app/forbidden.jpg';
+
+interface StoredObject {
+  body: Buffer;
+  contentType?: string;
+  lastModified: Date;
+}
+
+// Just enough of the S3 REST API (path-style, unsigned) for the driver: PUT, GET, HEAD and DELETE
+// on objects, and ListObjectsV2 on the bucket
+const objects = new Map<string, StoredObject>();
+
+const xmlError = (response: http.ServerResponse, status: number, code: string) =>
+  response.writeHead(status, { 'Content-Type': 'application/xml' }).end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${code}</Message></Error>`);
+
+function listObjects(url: URL, response: http.ServerResponse) {
+  const prefix = url.searchParams.get('prefix') ?? '';
+  const after = url.searchParams.get('continuation-token') ?? '';
+  const keys = [...objects.keys()].filter((key) => key.startsWith(prefix) && key > after).sort();
+  const page = keys.slice(0, LIST_PAGE_SIZE);
+  const truncated = keys.length > page.length;
+  const contents = page
+    .map((key) => `<Contents><Key>${key}</Key><Size>${objects.get(key)!.body.length}</Size><LastModified>${objects.get(key)!.lastModified.toISOString()}</LastModified></Contents>`)
+    .join('');
+  response.writeHead(200, { 'Content-Type': 'application/xml' }).end(
+    `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>${BUCKET}</Name><Prefix>${prefix}</Prefix><KeyCount>${page.length}</KeyCount>` +
+      `<IsTruncated>${truncated}</IsTruncated>${truncated ? `<NextContinuationToken>${page.at(-1)}</NextContinuationToken>` : ''}${contents}</ListBucketResult>`
+  );
+}
+
+const s3 = http.createServer(async (request, response) => {
+  const url = new URL(request.url!, 'http://s3.invalid');
+  const [, bucket, ...keyPath] = url.pathname.split('/');
+  const key = decodeURIComponent(keyPath.join('/'));
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk);
+
+  if (bucket !== BUCKET) return xmlError(response, 404, 'NoSuchBucket');
+  if (key === FORBIDDEN_KEY) return request.method === 'HEAD' ? response.writeHead(403).end() : xmlError(response, 403, 'AccessDenied');
+  if (request.method === 'GET' && !key) return listObjects(url, response);
+
+  const object = objects.get(key);
+  switch (request.method) {
+    case 'PUT':
+      objects.set(key, { body: Buffer.concat(chunks), contentType: request.headers['content-type'], lastModified: new Date() });
+      return response.writeHead(200, { ETag: '"stub"' }).end();
+    case 'DELETE':
+      objects.delete(key);
+      return response.writeHead(204).end();
+    case 'HEAD':
+    case 'GET': {
+      if (!object) return request.method === 'HEAD' ? response.writeHead(404).end() : xmlError(response, 404, 'NoSuchKey');
+      response.writeHead(200, {
+        'Content-Length': object.body.length,
+        'Content-Type': object.contentType ?? 'application/octet-stream',
+        'Last-Modified': object.lastModified.toUTCString(),
+      });
+      return response.end(request.method === 'GET' ? object.body : undefined);
+    }
+    default:
+      return xmlError(response, 405, 'MethodNotAllowed');
+  }
+});
+
+let storage: S3Driver;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => s3.listen(0, '127.0.0.1', resolve));
+  storage = new S3Driver({
+    bucket: BUCKET,
+    region: 'us-east-1',
+    endpoint: `http://127.0.0.1:${(s3.address() as AddressInfo).port}`,
+    accessKeyId: 'test',
+    secretAccessKey: 'test',
+    forcePathStyle: true,
+    prefix: 'app/',
+  });
+});
+
+afterAll(async () => {
+  s3.closeAllConnections();
+  await new Promise((resolve) => s3.close(resolve));
+});
+
+beforeEach(() => {
+  objects.clear();
+});
+
+const read = async (key: string) => {
+  const body = await storage.get(key);
+  return body && text(body);
+};
+
+describe('S3Driver', () => {
+  it('stores buffers and streams under its prefix, and reads them back', async () => {
+    await storage.put('photo.jpg', Buffer.from('jpeg bytes'), { contentType: 'image/jpeg' });
+    await storage.put('nested/stream.png', Readable.from([Buffer.from('png '), Buffer.from('bytes')]), { contentType: 'image/png' });
+
+    expect([...objects.keys()].sort()).toEqual(['app/nested/stream.png', 'app/photo.jpg']);
+    expect(await read('photo.jpg')).toBe('jpeg bytes');
+    expect(await read('nested/stream.png')).toBe('png bytes');
+    expect(await storage.stat('nested/stream.png')).toEqual({ key: 'nested/stream.png', size: 9, contentType: 'image/png', lastModified: expect.any(Date) });
+  });
+
+  it('moves local files into the bucket', async () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'imagedrop-s3-')), 'upload.tmp');
+    fs.writeFileSync(filePath, 'staged bytes');
+
+    await storage.putFile('staged.webp', filePath, { contentType: 'image/webp' });
+
+    expect(await read('staged.webp')).toBe('staged bytes');
+    expect(fs.existsSync(filePath)).toBe(false);
+    fs.rmSync(path.dirname(filePath), { recursive: true });
+  });
+
+  it('answers null and false for missing objects, and deletes idempotently', async () => {
+    expect(await storage.get('missing.jpg')).toBeNull();
+    expect(await storage.stat('missing.jpg')).toBeNull();
+    expect(await storage.exists('missing.jpg')).toBe(false);
+    await expect(storage.delete('missing.jpg')).resolves.toBeUndefined();
+
+    await storage.put('photo.jpg', Buffer.from('jpeg bytes'));
+    expect(await storage.exists('photo.jpg')).toBe(true);
+    await storage.delete('photo.jpg');
+    expect(await storage.exists('photo.jpg')).toBe(false);
+  });
+
+  it('lists every page of objects under a prefix, relative to its own prefix', async () => {
+    for (const key of ['chunks/a/1', 'chunks/a/2', 'chunks/a/3', 'chunks/b/1', 'photo.jpg']) {
+      await storage.put(key, Buffer.from(key));
+    }
+    objects.set('elsewhere/chunks/a/4', { body: Buffer.from('another app'), lastModified: new Date() });
+
+    const listed = await storage.list('chunks/a/');
+    expect(listed.map(({ key }) => key)).toEqual(['chunks/a/1', 'chunks/a/2', 'chunks/a/3']);
+    expect(listed[0]).toEqual({ key: 'chunks/a/1', size: 10, lastModified: expect.any(Date) });
+    expect(await storage.list()).toHaveLength(5);
+  });
+
+  it('passes on errors other than a missing object', async () => {
+    await expect(storage.stat('forbidden.jpg')).rejects.toMatchObject({ $metadata: { httpStatusCode: 403 } });
+    await expect(storage.get('forbidden.jpg')).rejects.toMatchObject({ name: 'AccessDenied' });
+  });
+
+  it('rejects keys that escape its prefix', async () => {
+    for (const key of ['../other-app/photo.jpg', '/photo.jpg', 'a//b.jpg', '']) {
+      await expect(storage.get(key)).rejects.toBeInstanceOf(InvalidStorageKeyError);
+      await expect(storage.put(key, Buffer.from('x'))).rejects.toBeInstanceOf(InvalidStorageKeyError);
+    }
+  });
+});
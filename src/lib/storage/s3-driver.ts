@@ -0,0 +1,128 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  NotFound,
+  S3Client,
+  type S3ClientConfig,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import { Readable } from 'node:stream';
+import { assertValidKey, type PutOptions, type StorageDriver, type StorageObjectInfo } from './types';
+
+export interface S3DriverOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean; // MinIO and most self-hosted S3 clones need path-style URLs
+  prefix?: string; // Optional key prefix so several apps can share one bucket
+}
+
+// HEAD responses have no body to name the error, so some only show up as a 404 status
+function isNotFound(error: unknown) {
+  return error instanceof NotFound || error instanceof NoSuchKey || (error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404);
+}
+
+export class S3Driver implements StorageDriver {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  constructor(options: S3DriverOptions) {
+    const config: S3ClientConfig = {
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+    };
+    if (options.accessKeyId && options.secretAccessKey) {
+      config.credentials = { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey };
+    }
+    this.client = new S3Client(config);
+    this.bucket = options.bucket;
+    this.prefix = options.prefix ? options.prefix.replace(/\/+$/, '') + '/' : '';
+  }
+
+  private objectKey(key: string): string {
+    assertValidKey(key);
+    return this.prefix + key;
+  }
+
+  async put(key: string, body: Buffer | Readable, options?: PutOptions): Promise<void> {
+    // lib-storage switches to multipart uploads for large or unknown-length streams
+    const upload = new Upload({
+      client: this.client,
+      params: { Bucket: this.bucket, Key: this.objectKey(key), Body: body, ContentType: options?.contentType },
+    });
+    await upload.done();
+  }
+
+  async putFile(key: string, filePath: string, options?: PutOptions): Promise<void> {
+    // S3 only makes an object visible once the upload completes, so this is already atomic
+    await this.put(key, fs.createReadStream(filePath), options);
+    await fsp.rm(filePath, { force: true });
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      return result.Body instanceof Readable ? result.Body : null;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.stat(key)) !== null;
+  }
+
+  async list(prefix = ''): Promise<StorageObjectInfo[]> {
+    const objects: StorageObjectInfo[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: this.prefix + prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+      for (const object of page.Contents ?? []) {
+        if (!object.Key) continue;
+        objects.push({
+          key: object.Key.slice(this.prefix.length),
+          size: object.Size ?? 0,
+          lastModified: object.LastModified ?? new Date(0),
+        });
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return objects;
+  }
+
+  async stat(key: string): Promise<StorageObjectInfo | null> {
+    try {
+      const head = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      return {
+        key,
+        size: head.ContentLength ?? 0,
+        contentType: head.ContentType,
+        lastModified: head.LastModified ?? new Date(0),
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+}
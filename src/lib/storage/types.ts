@@ -0,0 +1,47 @@
+import type { Readable } from 'node:stream';
+
+export interface StorageObjectInfo {
+  key: string;
+  size: number;
+  contentType?: string;
+  lastModified: Date;
+}
+
+export interface PutOptions {
+  contentType?: string;
+}
+
+/**
+ * A place to keep uploaded bytes. Keys are slash-separated relative paths such as
+ * `photo_1715000000000.png`; drivers must reject keys that escape their root.
+ */
+export interface StorageDriver {
+  put(key: string, body: Buffer | Readable, options?: PutOptions): Promise<void>;
+  /**
+   * Moves a file from the local filesystem into storage. The object appears atomically — readers
+   * never see a partial file — and `filePath` no longer exists once this resolves.
+   */
+  putFile(key: string, filePath: string, options?: PutOptions): Promise<void>;
+  /** Returns null when the object does not exist. */
+  get(key: string): Promise<Readable | null>;
+  /** Deleting a missing object is not an error. */
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  list(prefix?: string): Promise<StorageObjectInfo[]>;
+  /** Returns null when the object does not exist. */
+  stat(key: string): Promise<StorageObjectInfo | null>;
+}
+
+export class InvalidStorageKeyError extends Error {
+  constructor(key: string) {
+    super(`Invalid storage key: ${key}`);
+    this.name = 'InvalidStorageKeyError';
+  }
+}
+
+export function assertValidKey(key: string) {
+  const segments = key.split('/');
+  if (!key || key.startsWith('/') || segments.some((segment) => segment === '' || segment === '.' || segment === '..')) {
+    throw new InvalidStorageKeyError(key);
+  }
+}
@@ -0,0 +1,52 @@
+import { type ImageVariant, shortUrl, toImageVariants, uploadUrl } from '@/lib/image-sources';
+import { listImageTags, listImageVariants, type ImageRecord, type ImageTag, type ModerationStatus } from '@/lib/image-store';
+
+// An image as the gallery and library pages display it
+export interface StoredImage {
+  id: string;
+  name: string;
+  url: string;
+  shortUrl: string;
+  mimeType: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  uploadedAt: string;
+  variants: ImageVariant[];
+  tags: string[];
+  suggestedTags: string[]; // Attached by the auto-tagger, waiting for the owner to accept or reject them
+  altText: string | null;
+  caption: string | null;
+  moderationStatus: ModerationStatus; // Quarantined images can't be loaded until an admin approves them
+}
+
+// Confirmed tags and pending suggestions, as StoredImage keeps them apart
+export function splitImageTags(imageTags: ImageTag[]): { tags: string[]; suggestedTags: string[] } {
+  return {
+    tags: imageTags.filter(({ suggested }) => !suggested).map(({ tag }) => tag),
+    suggestedTags: imageTags.filter(({ suggested }) => suggested).map(({ tag }) => tag),
+  };
+}
+
+// Looks up the variants and tags of all images in one query each
+export function toStoredImages(images: ImageRecord[]): StoredImage[] {
+  const imageIds = images.map((image) => image.id);
+  const variantsByImage = listImageVariants(imageIds);
+  const tagsByImage = listImageTags(imageIds);
+  return images.map((image) => ({
+    id: image.id,
+    name: image.originalName,
+    url: uploadUrl(image.storedFilename),
+    shortUrl: shortUrl(image.shortId),
+    mimeType: image.mimeType,
+    size: image.size,
+    width: image.width,
+    height: image.height,
+    uploadedAt: image.uploadedAt,
+    variants: toImageVariants(variantsByImage.get(image.id) ?? []),
+    ...splitImageTags(tagsByImage.get(image.id) ?? []),
+    altText: image.altText,
+    caption: image.caption,
+    moderationStatus: image.moderationStatus,
+  }));
+}
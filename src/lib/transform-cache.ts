@@ -0,0 +1,90 @@
+import crypto from 'node:crypto';
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import { getDb } from '@/lib/db';
+
+// process.cwd() is the root of the Next.js project
+const CACHE_DIR = process.env.TRANSFORM_CACHE_DIR || path.join(process.cwd(), 'data/transform-cache');
+const MAX_CACHE_BYTES = Number(process.env.TRANSFORM_CACHE_MAX_BYTES) || 512 * 1024 * 1024; // 512MB
+
+export interface CachedTransform {
+  data: Buffer;
+  contentType: string;
+}
+
+interface CacheRow {
+  cache_key: string;
+  content_type: string;
+  size: number;
+}
+
+// Cache keys are hashes, so they are always safe to use as filenames
+const cacheFilePath = (cacheKey: string) => path.join(CACHE_DIR, cacheKey.slice(0, 2), cacheKey);
+
+export function transformCacheKey(imageId: string, variant: string) {
+  return crypto.createHash('sha256').update(`${imageId}:${variant}`).digest('hex');
+}
+
+export async function getCachedTransform(cacheKey: string): Promise<CachedTransform | null> {
+  const db = getDb();
+  const row = db.prepare('SELECT cache_key, content_type, size FROM transform_cache WHERE cache_key = ?').get(cacheKey) as CacheRow | undefined;
+  if (!row) return null;
+
+  try {
+    const data = await fsp.readFile(cacheFilePath(cacheKey));
+    db.prepare('UPDATE transform_cache SET last_accessed_at = ? WHERE cache_key = ?').run(Date.now(), cacheKey);
+    return { data, contentType: row.content_type };
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') throw error;
+    // The file was removed behind our back; forget the entry and regenerate
+    db.prepare('DELETE FROM transform_cache WHERE cache_key = ?').run(cacheKey);
+    return null;
+  }
+}
+
+export async function putCachedTransform(cacheKey: string, imageId: string, entry: CachedTransform): Promise<void> {
+  const filePath = cacheFilePath(cacheKey);
+  await fsp.mkdir(path.dirname(filePath), { recursive: true });
+  // Write then rename, so a concurrent reader never sees a half-written file
+  const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+  await fsp.writeFile(tempPath, entry.data);
+  await fsp.rename(tempPath, filePath);
+
+  getDb()
+    .prepare(
+      `INSERT INTO transform_cache (cache_key, image_id, content_type, size, last_accessed_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (cache_key) DO UPDATE SET size = excluded.size, last_accessed_at = excluded.last_accessed_at`
+    )
+    .run(cacheKey, imageId, entry.contentType, entry.data.length, Date.now());
+
+  await evictLeastRecentlyUsed();
+}
+
+async function removeEntries(rows: { cache_key: string }[]) {
+  const deleteRow = getDb().prepare('DELETE FROM transform_cache WHERE cache_key = ?');
+  for (const row of rows) {
+    deleteRow.run(row.cache_key);
+    await fsp.rm(cacheFilePath(row.cache_key), { force: true });
+  }
+}
+
+// Drops the least recently used entries until the cache fits in MAX_CACHE_BYTES again
+async function evictLeastRecentlyUsed() {
+  const db = getDb();
+  const { total } = db.prepare('SELECT COALESCE(SUM(size), 0) AS total FROM transform_cache').get() as { total: number };
+  if (total <= MAX_CACHE_BYTES) return;
+
+  let excess = total - MAX_CACHE_BYTES;
+  const victims: CacheRow[] = [];
+  for (const row of db.prepare('SELECT cache_key, content_type, size FROM transform_cache ORDER BY last_accessed_at').iterate() as Iterable<CacheRow>) {
+    if (excess <= 0) break;
+    victims.push(row);
+    excess -= row.size;
+  }
+  await removeEntries(victims);
+}
+
+export async function deleteCachedTransformsForImage(imageId: string): Promise<void> {
+  const rows = getDb().prepare('SELECT cache_key FROM transform_cache WHERE image_id = ?').all(imageId) as { cache_key: string }[];
+  await removeEntries(rows);
+}
@@ -0,0 +1,29 @@
+import { TUS_EXTENSIONS, TUS_MAX_SIZE, TUS_VERSION, TusError } from '@/lib/tus-service';
+
+export const tusHeaders = {
+  'Tus-Resumable': TUS_VERSION,
+  'Cache-Control': 'no-store',
+};
+
+export const tusDiscoveryHeaders = {
+  ...tusHeaders,
+  'Tus-Version': TUS_VERSION,
+  'Tus-Extension': TUS_EXTENSIONS,
+  'Tus-Max-Size': String(TUS_MAX_SIZE),
+};
+
+// Every request except OPTIONS must declare the protocol version it speaks
+export function checkTusResumable(request: Request): Response | null {
+  if (request.headers.get('tus-resumable') !== TUS_VERSION) {
+    return new Response('Unsupported tus version.', { status: 412, headers: { ...tusHeaders, 'Tus-Version': TUS_VERSION } });
+  }
+  return null;
+}
+
+export function tusErrorResponse(error: unknown): Response {
+  if (error instanceof TusError) {
+    return new Response(error.message, { status: error.status, headers: tusHeaders });
+  }
+  console.error('Error handling tus request:', error);
+  return new Response('Internal server error', { status: 500, headers: tusHeaders });
+}
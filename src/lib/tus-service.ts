@@ -0,0 +1,187 @@
+import crypto from 'node:crypto';
+import { Readable } from 'node:stream';
+import { getStorage } from '@/lib/storage';
+import {
+  advanceTusUploadOffset,
+  deleteTusUpload,
+  getTusUpload,
+  insertTusUpload,
+  listExpiredTusUploads,
+  setTusUploadResult,
+  type TusUploadRecord,
+} from '@/lib/tus-store';
+import { MAX_FILE_SIZE, processIncomingUpload, type UploadImageResponse } from '@/lib/upload-service';
+import { discardStagedFile, FileTooLargeError, stageToTempFile, type StagedFile, type UploadSource } from '@/lib/upload-staging';
+
+// Server side of the tus resumable upload protocol (https://tus.io/protocols/resumable-upload),
+// core protocol plus the creation, termination and expiration extensions.
+export const TUS_VERSION = '1.0.0';
+export const TUS_EXTENSIONS = 'creation,termination,expiration';
+export const TUS_MAX_SIZE = MAX_FILE_SIZE;
+
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000; // Unfinished uploads can be resumed for a day
+
+export class TusError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'TusError';
+  }
+}
+
+// Each PATCH body is kept as its own object, because S3-compatible stores can't append. Every
+// attempt gets a key of its own, so PATCHes racing for the same offset never touch each other's bytes.
+// Offsets are zero-padded so listing the prefix returns the chunks in upload order.
+const chunkPrefix = (id: string) => `tus/${id}/`;
+const chunkKey = (id: string, offset: number) => `${chunkPrefix(id)}${String(offset).padStart(12, '0')}-${crypto.randomUUID()}`;
+
+/** Decodes `Upload-Metadata`: comma-separated `key base64value` pairs, where the value is optional. */
+export function parseUploadMetadata(header: string | null): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) return metadata;
+  for (const pair of header.split(',')) {
+    const [key, value] = pair.trim().split(' ');
+    if (!key) continue;
+    metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+  }
+  return metadata;
+}
+
+async function deleteChunks(id: string) {
+  const storage = getStorage();
+  const chunks = await storage.list(chunkPrefix(id));
+  await Promise.all(chunks.map((chunk) => storage.delete(chunk.key)));
+}
+
+export function getActiveTusUpload(id: string): TusUploadRecord {
+  const upload = getTusUpload(id);
+  if (!upload || new Date(upload.expiresAt) <= new Date()) {
+    throw new TusError(404, 'Upload not found.');
+  }
+  return upload;
+}
+
+/** The upload, if `userId` created it; someone else's upload looks the same as a missing one. */
+export function getOwnTusUpload(id: string, userId: string | null): TusUploadRecord {
+  const upload = getActiveTusUpload(id);
+  if (upload.userId !== userId) {
+    throw new TusError(404, 'Upload not found.');
+  }
+  return upload;
+}
+
+export function createTusUpload(uploadLength: number, metadata: Record<string, string>, userId: string | null = null): TusUploadRecord {
+  if (!Number.isSafeInteger(uploadLength) || uploadLength <= 0) {
+    throw new TusError(400, 'Upload-Length must be a positive integer.');
+  }
+  if (uploadLength > TUS_MAX_SIZE) {
+    throw new TusError(413, 'File size should be less than 10MB.');
+  }
+
+  const now = new Date();
+  const record = {
+    id: crypto.randomUUID(),
+    uploadLength,
+    metadata,
+    userId,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + UPLOAD_TTL_MS).toISOString(),
+  };
+  insertTusUpload(record);
+
+  // Opportunistically clean up after abandoned uploads
+  purgeExpiredTusUploads().catch((error) => console.error('Error purging expired tus uploads:', error));
+
+  return { ...record, uploadOffset: 0, result: null, chunkKeys: [] };
+}
+
+/**
+ * Streams one PATCH body into storage at `offset`. When the last byte arrives, the chunks are
+ * assembled and run through the regular upload pipeline, and the returned record carries the
+ * outcome. Only this return value includes the deletion token: the stored outcome leaves it out.
+ */
+export async function appendTusChunk(id: string, offset: number, body: UploadSource): Promise<TusUploadRecord> {
+  const upload = getActiveTusUpload(id);
+  if (offset !== upload.uploadOffset) {
+    throw new TusError(409, `Upload-Offset ${offset} does not match the current offset ${upload.uploadOffset}.`);
+  }
+
+  let staged: StagedFile;
+  try {
+    // Rejects the body as soon as it runs past the declared Upload-Length
+    staged = await stageToTempFile(body, upload.uploadLength - offset);
+  } catch (error) {
+    if (error instanceof FileTooLargeError) {
+      throw new TusError(413, 'Chunk exceeds the declared Upload-Length.');
+    }
+    throw error;
+  }
+  if (staged.size === 0) {
+    await discardStagedFile(staged);
+    return upload;
+  }
+
+  const storage = getStorage();
+  const key = chunkKey(id, offset);
+  await storage.putFile(key, staged.path, { contentType: 'application/offset+octet-stream' });
+
+  const newOffset = offset + staged.size;
+  if (!advanceTusUploadOffset(id, offset, newOffset, key)) {
+    // A concurrent PATCH for the same offset got there first and its chunk is the one recorded.
+    // This one was written under its own key, so removing it leaves the other chunk alone.
+    await storage.delete(key).catch(() => {});
+    throw new TusError(409, 'Upload-Offset changed while this chunk was being written.');
+  }
+
+  const updated: TusUploadRecord = { ...upload, uploadOffset: newOffset, chunkKeys: upload.chunkKeys && [...upload.chunkKeys, key] };
+  if (newOffset === upload.uploadLength) {
+    updated.result = await finalizeTusUpload(updated);
+  }
+  return updated;
+}
+
+async function finalizeTusUpload(upload: TusUploadRecord): Promise<UploadImageResponse> {
+  const storage = getStorage();
+  let result: UploadImageResponse;
+  try {
+    // Only the chunks that moved the offset, never a leftover from a PATCH that lost a race
+    const chunkKeys = upload.chunkKeys ?? (await storage.list(chunkPrefix(upload.id))).map((chunk) => chunk.key).sort();
+    // Feed the chunks through one after another, so the assembled file is never in memory at once
+    const assembled = Readable.from((async function* () {
+      for (const key of chunkKeys) {
+        const body = await storage.get(key);
+        if (!body) throw new Error(`Missing tus chunk ${key}`);
+        yield* body;
+      }
+    })());
+
+    result = await processIncomingUpload({
+      name: upload.metadata.filename || 'upload',
+      type: upload.metadata.filetype || '',
+      body: assembled,
+      keepCameraMetadata: upload.metadata.keepcamerametadata === 'true',
+      userId: upload.userId,
+    });
+  } catch (error) {
+    // The offset is already complete, so the client can't retry this; record the failure instead
+    console.error(`Error assembling tus upload ${upload.id}:`, error);
+    result = { success: false, code: 'SERVER_ERROR', error: 'Failed to save file on server. Please try again later.' };
+  }
+  // The token is only handed out once, in the response to this PATCH, so it's never stored in plain text
+  const { deletionToken: _, ...storedResult } = result;
+  setTusUploadResult(upload.id, storedResult);
+  await deleteChunks(upload.id).catch((error) => console.error(`Error deleting tus chunks for ${upload.id}:`, error));
+  return result;
+}
+
+export async function terminateTusUpload(id: string): Promise<void> {
+  getActiveTusUpload(id);
+  await deleteChunks(id);
+  deleteTusUpload(id);
+}
+
+export async function purgeExpiredTusUploads(): Promise<void> {
+  for (const upload of listExpiredTusUploads(new Date())) {
+    await deleteChunks(upload.id);
+    deleteTusUpload(upload.id);
+  }
+}
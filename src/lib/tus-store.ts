@@ -0,0 +1,81 @@
+import { getDb } from '@/lib/db';
+import type { UploadImageResponse } from '@/lib/upload-service';
+
+export interface TusUploadRecord {
+  id: string;
+  uploadLength: number;
+  uploadOffset: number;
+  metadata: Record<string, string>; // Decoded Upload-Metadata header
+  userId: string | null; // Signed-in user who created the upload; the finished image belongs to them
+  result: UploadImageResponse | null; // Set once the chunks have been assembled and processed, without the deletion token
+  chunkKeys: string[] | null; // Storage keys of the accepted chunks, in upload order; null for uploads from before these were kept
+  createdAt: string; // ISO 8601
+  expiresAt: string; // ISO 8601
+}
+
+interface TusUploadRow {
+  id: string;
+  upload_length: number;
+  upload_offset: number;
+  metadata: string;
+  user_id: string | null;
+  result: string | null;
+  chunk_keys: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+function toRecord(row: TusUploadRow): TusUploadRecord {
+  return {
+    id: row.id,
+    uploadLength: row.upload_length,
+    uploadOffset: row.upload_offset,
+    metadata: JSON.parse(row.metadata),
+    userId: row.user_id,
+    result: row.result ? JSON.parse(row.result) : null,
+    chunkKeys: row.chunk_keys ? JSON.parse(row.chunk_keys) : null,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+export function insertTusUpload(record: Omit<TusUploadRecord, 'uploadOffset' | 'result' | 'chunkKeys'>): void {
+  getDb()
+    .prepare(
+      `INSERT INTO tus_uploads (id, upload_length, metadata, user_id, chunk_keys, created_at, expires_at)
+       VALUES (@id, @uploadLength, @metadata, @userId, '[]', @createdAt, @expiresAt)`
+    )
+    .run({ ...record, metadata: JSON.stringify(record.metadata) });
+}
+
+export function getTusUpload(id: string): TusUploadRecord | null {
+  const row = getDb().prepare('SELECT * FROM tus_uploads WHERE id = ?').get(id) as TusUploadRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+/**
+ * Moves the offset forward and records `chunkKey` as the chunk that got it there, only if nobody
+ * else has moved it since `expectedOffset` was read. Returns false when another request won the race.
+ */
+export function advanceTusUploadOffset(id: string, expectedOffset: number, newOffset: number, chunkKey: string): boolean {
+  const { changes } = getDb()
+    .prepare(
+      `UPDATE tus_uploads SET upload_offset = @newOffset, chunk_keys = json_insert(chunk_keys, '$[#]', @chunkKey)
+       WHERE id = @id AND upload_offset = @expectedOffset`
+    )
+    .run({ id, expectedOffset, newOffset, chunkKey });
+  return changes === 1;
+}
+
+export function setTusUploadResult(id: string, result: UploadImageResponse): void {
+  getDb().prepare('UPDATE tus_uploads SET result = ? WHERE id = ?').run(JSON.stringify(result), id);
+}
+
+export function deleteTusUpload(id: string): void {
+  getDb().prepare('DELETE FROM tus_uploads WHERE id = ?').run(id);
+}
+
+export function listExpiredTusUploads(now: Date): TusUploadRecord[] {
+  const rows = getDb().prepare('SELECT * FROM tus_uploads WHERE expires_at <= ?').all(now.toISOString()) as TusUploadRow[];
+  return rows.map(toRecord);
+}
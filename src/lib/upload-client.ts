@@ -0,0 +1,79 @@
+import * as tus from 'tus-js-client';
+import type { UploadImageResponse } from '@/lib/upload-service';
+
+const TUS_ENDPOINT = '/api/tus';
+const CHUNK_SIZE = 1024 * 1024; // 1MB, so a dropped connection loses at most one chunk
+// Delays between automatic retries after a network error, before giving up
+const RETRY_DELAYS_MS = [0, 1000, 3000, 5000, 10000, 20000];
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+interface UploadWithProgressOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+  keepCameraMetadata?: boolean;
+}
+
+/**
+ * Uploads a file through the tus endpoint, reporting byte-level progress. Interrupted uploads
+ * resume where they stopped: automatically after a network drop, and after a page reload as
+ * soon as the same file is selected again (tus-js-client remembers the upload URL in
+ * localStorage). Rejects with an AbortError DOMException if `signal` is aborted.
+ */
+export function uploadWithProgress(file: File, { onProgress, signal, keepCameraMetadata = false }: UploadWithProgressOptions = {}): Promise<UploadImageResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Upload cancelled.', 'AbortError'));
+      return;
+    }
+
+    const upload = new tus.Upload(file, {
+      endpoint: TUS_ENDPOINT,
+      chunkSize: CHUNK_SIZE,
+      retryDelays: RETRY_DELAYS_MS,
+      metadata: { filename: file.name, filetype: file.type, keepcamerametadata: String(keepCameraMetadata) },
+      removeFingerprintOnSuccess: true,
+      onProgress: (bytesSent, bytesTotal) => onProgress?.({ loaded: bytesSent, total: bytesTotal }),
+      onError: (error) => {
+        signal?.removeEventListener('abort', abort);
+        const status = error instanceof tus.DetailedError ? error.originalResponse?.getStatus() : undefined;
+        reject(new Error(status ? `Upload failed with status ${status}.` : 'Network error. Please try again.'));
+      },
+      onSuccess: async ({ lastResponse }) => {
+        signal?.removeEventListener('abort', abort);
+        try {
+          // The PATCH that completes the upload answers with its outcome. If the upload finished
+          // without one (e.g. that response was lost), fetch the outcome, less the deletion token.
+          const body = lastResponse.getStatus() === 200 ? lastResponse.getBody() : '';
+          if (body) {
+            resolve(JSON.parse(body) as UploadImageResponse);
+            return;
+          }
+          const response = await fetch(upload.url!, { cache: 'no-store' });
+          resolve((await response.json()) as UploadImageResponse);
+        } catch {
+          reject(new Error('Network error. Please try again.'));
+        }
+      },
+    });
+
+    // Cancelling also terminates the upload so the server can discard the partial chunks
+    const abort = () => {
+      upload.abort(true).catch(() => {});
+      reject(new DOMException('Upload cancelled.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+
+    upload.findPreviousUploads().then((previousUploads) => {
+      if (previousUploads.length > 0) {
+        upload.resumeFromPreviousUpload(previousUploads[0]);
+      }
+      if (!signal?.aborted) {
+        upload.start();
+      }
+    });
+  });
+}
@@ -0,0 +1,218 @@
+import crypto from 'node:crypto';
+import path from 'node:path';
+import { z } from 'zod';
+import { analyzeImageInBackground } from '@/lib/image-analysis';
+import { type ImageVariant, shortUrl, toImageVariants, uploadUrl } from '@/lib/image-sources';
+import { createDeletionToken } from '@/lib/image-deletion';
+import { stripImageMetadata } from '@/lib/image-metadata';
+import { allocateShortId, insertImage, type ImageRecord, type ImageVariantRecord, type ModerationStatus } from '@/lib/image-store';
+import { EXTENSIONS_BY_MIME_TYPE, verifyImageContent } from '@/lib/image-validation';
+import { generateVariants, type GeneratedVariant } from '@/lib/image-variants';
+import { moderateUpload } from '@/lib/moderation';
+import { getStorage } from '@/lib/storage';
+import { discardStagedFile, FileTooLargeError, stageToTempFile, type StagedFile, type UploadSource } from '@/lib/upload-staging';
+import { emitWebhookEvent, toWebhookImage } from '@/lib/webhooks';
+
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+const FILE_TOO_LARGE_MESSAGE = 'File size should be less than 10MB.';
+const UNSUPPORTED_TYPE_MESSAGE = 'Only .jpg, .jpeg, .png, .gif and .webp formats are supported.';
+
+/**
+ * What the client declares about a file, checked before any of its bytes are read: the type
+ * and length of a streamed body, as given by its request headers.
+ */
+export const UploadFileInfoSchema = z.object({
+  size: z
+    .number()
+    .refine((size) => size > 0, 'File cannot be empty.')
+    .refine((size) => size <= MAX_FILE_SIZE, FILE_TOO_LARGE_MESSAGE),
+  type: z.string().refine((type) => ACCEPTED_IMAGE_TYPES.includes(type), UNSUPPORTED_TYPE_MESSAGE),
+});
+
+// Machine-readable reason for a failed upload, for errors the client may want to tell apart
+export type UploadErrorCode = 'INVALID_FILE' | 'FILE_TOO_LARGE' | 'CONTENT_MISMATCH' | 'SERVER_ERROR';
+
+export interface UploadImageResponse {
+  success: boolean;
+  id?: string;
+  name?: string;
+  url?: string; // Direct URL of the stored file
+  shortUrl?: string; // Short link for sharing, e.g. /s/Ab3dE9x
+  mimeType?: string;
+  size?: number; // Bytes, after metadata stripping
+  width?: number | null;
+  height?: number | null;
+  variants?: ImageVariant[];
+  deletionToken?: string; // Secret for DELETE /api/images/<id>; only ever returned here
+  moderationStatus?: ModerationStatus; // 'quarantined' uploads aren't served until an admin approves them
+  error?: string;
+  code?: UploadErrorCode;
+  errors?: { file?: string[]; _form?: string[] }; // Zod error flattening
+}
+
+// An upload whose bytes have not been read yet
+export interface IncomingUpload {
+  name: string;
+  type: string; // Claimed by the client; verified against the content before anything is stored
+  body: UploadSource;
+  keepCameraMetadata?: boolean; // Keep camera model and exposure EXIF; everything else is always stripped
+  userId?: string | null; // Signed-in uploader, who will own the image
+}
+
+/**
+ * The validation and storage pipeline every upload ends in, whether it arrived as a form,
+ * a streamed multipart body or was assembled from resumable chunks. The body is streamed to
+ * a temp file — hashed and size-checked on the way — and only moved into storage once the
+ * content has been verified, so memory use doesn't grow with file size or concurrency.
+ */
+export async function processIncomingUpload({ name: originalFilename, type, body, keepCameraMetadata, userId = null }: IncomingUpload): Promise<UploadImageResponse> {
+  if (!UploadFileInfoSchema.shape.type.safeParse(type).success) {
+    return { success: false, code: 'INVALID_FILE', error: UNSUPPORTED_TYPE_MESSAGE };
+  }
+
+  // Sanitize filename: take base, replace spaces, remove unsafe chars, add timestamp and original extension
+  const filenameBase = path.basename(originalFilename, path.extname(originalFilename));
+  const sanitizedFilenameBase = filenameBase
+    .replace(/\s+/g, '_') // Replace spaces with underscores
+    .replace(/[^a-zA-Z0-9_.-]/g, ''); // Remove potentially unsafe characters
+
+  const extension = path.extname(originalFilename).toLowerCase();
+  if (!Object.values(EXTENSIONS_BY_MIME_TYPE).flat().includes(extension)) {
+     // Double check extension based on MIME type from client, though server MIME check is primary.
+     // This handles cases where file.type might be image/jpeg but extension is .jfif etc.
+     // We stick to common extensions.
+     return { success: false, code: 'INVALID_FILE', error: `File extension ${extension} is not supported based on its type.` };
+  }
+
+
+  // The image's random id keeps keys unique, even for same-named uploads arriving at the same moment
+  const id = crypto.randomUUID();
+  const uniqueFilename = `${sanitizedFilenameBase}_${id}${extension}`;
+
+  let staged: StagedFile;
+  try {
+    staged = await stageToTempFile(body, MAX_FILE_SIZE);
+  } catch (e) {
+    if (e instanceof FileTooLargeError) {
+      return { success: false, code: 'FILE_TOO_LARGE', error: FILE_TOO_LARGE_MESSAGE };
+    }
+    console.error('Error receiving uploaded file:', e);
+    return { success: false, code: 'SERVER_ERROR', error: 'Failed to receive file. Please try again.' };
+  }
+
+  try {
+    if (staged.size === 0) {
+      return { success: false, code: 'INVALID_FILE', error: 'No file provided or file is empty.' };
+    }
+
+    // The claimed type comes from the client, so check the bytes themselves before storing anything
+    const verification = await verifyImageContent(staged.path, type, extension);
+    if (!verification.ok) {
+      return { success: false, code: 'CONTENT_MISMATCH', error: verification.reason };
+    }
+    let { width, height } = verification;
+
+    // Uploads are published as-is, so drop location and device metadata before storing anything.
+    // From here on the cleaned copy is what gets hashed, measured and stored.
+    const stripped = await stripImageMetadata(staged, verification.mimeType, { keepCameraMetadata });
+    if (stripped) {
+      await discardStagedFile(staged);
+      ({ staged, width, height } = stripped);
+    }
+
+    const moderation = await moderateUpload({
+      path: staged.path,
+      mimeType: verification.mimeType,
+      originalName: originalFilename,
+      checksum: staged.checksum,
+    });
+
+    // Variants are rendered from the temp file, before it is moved into storage. Without them
+    // the gallery just falls back to the original, so a failure here doesn't fail the upload.
+    let generatedVariants: GeneratedVariant[] = [];
+    try {
+      generatedVariants = await generateVariants(staged.path, uniqueFilename, verification.mimeType, width);
+    } catch (variantError) {
+      console.error(`Error generating variants for ${uniqueFilename}:`, variantError);
+    }
+
+    const shortId = allocateShortId();
+    const deletionToken = createDeletionToken();
+    const variantRecords: ImageVariantRecord[] = generatedVariants.map(({ data, ...variant }) => ({
+      ...variant,
+      imageId: id,
+      size: data.length,
+    }));
+
+    const record: ImageRecord = {
+      id,
+      shortId,
+      originalName: originalFilename,
+      storedFilename: uniqueFilename,
+      mimeType: verification.mimeType,
+      size: staged.size,
+      width,
+      height,
+      checksum: staged.checksum,
+      uploadedAt: new Date().toISOString(),
+      deletionTokenHash: deletionToken.hash,
+      userId,
+      altText: null,
+      caption: null,
+      moderationStatus: moderation.status,
+      moderationReason: moderation.reason,
+      moderatedAt: null,
+    };
+
+    const storage = getStorage();
+    const storedKeys = [uniqueFilename, ...generatedVariants.map((variant) => variant.storedFilename)];
+    try {
+      await storage.putFile(uniqueFilename, staged.path, { contentType: verification.mimeType });
+      for (const variant of generatedVariants) {
+        await storage.put(variant.storedFilename, variant.data, { contentType: variant.mimeType });
+      }
+
+      insertImage(record, variantRecords);
+    } catch (saveError) {
+      // Don't leave orphaned files behind that the gallery can never list
+      await Promise.all(storedKeys.map((key) => storage.delete(key).catch(() => {})));
+      throw saveError;
+    }
+
+    const publicUrl = uploadUrl(uniqueFilename);
+    analyzeImageInBackground(id);
+
+    // Every upload path ends here, so this is the one place uploads are announced
+    const webhookImage = await toWebhookImage(record);
+    emitWebhookEvent('image.created', { image: webhookImage });
+    if (moderation.status === 'quarantined') {
+      emitWebhookEvent('image.moderated', { image: webhookImage, decision: 'quarantined', reason: moderation.reason });
+    }
+
+    return {
+      success: true,
+      id,
+      name: originalFilename, // Return original name for display purposes
+      url: publicUrl,
+      shortUrl: shortUrl(shortId),
+      mimeType: verification.mimeType,
+      size: staged.size,
+      width,
+      height,
+      variants: toImageVariants(variantRecords),
+      deletionToken: deletionToken.token,
+      moderationStatus: moderation.status,
+    };
+  } catch (e: any) {
+    console.error('Error uploading file to server:', e);
+    if (e.message.includes('Server configuration error')) {
+        return { success: false, code: 'SERVER_ERROR', error: e.message };
+    }
+    return { success: false, code: 'SERVER_ERROR', error: 'Failed to save file on server. Please try again later.' };
+  } finally {
+    // Already gone if it was moved into storage
+    await discardStagedFile(staged);
+  }
+}
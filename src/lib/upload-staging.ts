@@ -0,0 +1,81 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable, Transform, type TransformCallback } from 'node:stream';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import { pipeline } from 'node:stream/promises';
+
+// Where request bodies are written while they are validated. Keep this on the same filesystem
+// as LOCAL_STORAGE_DIR so the final move into place is a cheap, atomic rename.
+const UPLOAD_TMP_DIR = process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), 'imagedrop-uploads');
+
+export type UploadSource = Readable | ReadableStream<Uint8Array>;
+
+export class FileTooLargeError extends Error {
+  constructor(public readonly maxBytes: number) {
+    super(`File exceeds the ${maxBytes} byte limit.`);
+    this.name = 'FileTooLargeError';
+  }
+}
+
+/**
+ * Pass-through stream that counts and hashes the bytes flowing through it, and fails with
+ * FileTooLargeError the moment more than `maxBytes` have been seen.
+ */
+class MeteredStream extends Transform {
+  bytes = 0;
+  private readonly hash = crypto.createHash('sha256');
+
+  constructor(private readonly maxBytes: number) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+    this.bytes += chunk.length;
+    if (this.bytes > this.maxBytes) {
+      callback(new FileTooLargeError(this.maxBytes));
+      return;
+    }
+    this.hash.update(chunk);
+    callback(null, chunk);
+  }
+
+  /** SHA-256 of everything seen so far, hex encoded. Only call once the stream has finished. */
+  checksum(): string {
+    return this.hash.digest('hex');
+  }
+}
+
+export function toNodeReadable(source: UploadSource): Readable {
+  return source instanceof Readable ? source : Readable.fromWeb(source as WebReadableStream<Uint8Array>);
+}
+
+export interface StagedFile {
+  path: string;
+  size: number;
+  checksum: string; // SHA-256, hex encoded
+}
+
+/**
+ * Streams `source` into a fresh temp file without holding it in memory. The temp file is
+ * removed again if the stream fails or exceeds `maxBytes`.
+ */
+export async function stageToTempFile(source: UploadSource, maxBytes: number): Promise<StagedFile> {
+  await fsp.mkdir(UPLOAD_TMP_DIR, { recursive: true });
+  const tempPath = path.join(UPLOAD_TMP_DIR, `${crypto.randomUUID()}.part`);
+  const meter = new MeteredStream(maxBytes);
+
+  try {
+    await pipeline(toNodeReadable(source), meter, fs.createWriteStream(tempPath, { flags: 'wx' }));
+  } catch (error) {
+    await fsp.rm(tempPath, { force: true });
+    throw error;
+  }
+  return { path: tempPath, size: meter.bytes, checksum: meter.checksum() };
+}
+
+export async function discardStagedFile(staged: StagedFile) {
+  await fsp.rm(staged.path, { force: true });
+}
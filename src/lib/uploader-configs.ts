@@ -0,0 +1,72 @@
+// Ready-to-use configurations for screenshot tools, pointed at /api/v1/screenshots
+
+export type UploaderTool = 'sharex' | 'flameshot';
+
+export const UPLOADER_TOOL_NAMES: Record<UploaderTool, string> = {
+  sharex: 'ShareX',
+  flameshot: 'Flameshot',
+};
+
+export interface UploaderConfigFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+// A ShareX custom uploader (https://getsharex.com/docs/custom-uploader), imported by opening the file
+function shareXConfig(origin: string, apiKey: string): UploaderConfigFile {
+  const config = {
+    Version: '15.0.0',
+    Name: `ImageDrop (${new URL(origin).host})`,
+    DestinationType: 'ImageUploader',
+    RequestMethod: 'POST',
+    RequestURL: `${origin}/api/v1/screenshots`,
+    Headers: { Authorization: `Bearer ${apiKey}` },
+    Body: 'MultipartFormData',
+    FileFormName: 'file',
+    URL: '{json:url}',
+    ThumbnailURL: '{json:thumbnailUrl}',
+    DeletionURL: '{json:deletionUrl}',
+    ErrorMessage: '{json:error.message}',
+  };
+  return { filename: 'imagedrop.sxcu', mimeType: 'application/json', content: `${JSON.stringify(config, null, 2)}\n` };
+}
+
+// Flameshot has no custom uploaders, so this wraps it in a script meant for a keyboard shortcut.
+// API keys and origins contain no quotes, so single-quoting them is enough.
+function flameshotScript(origin: string, apiKey: string): UploaderConfigFile {
+  const content = `#!/bin/sh
+# Takes a screenshot with Flameshot, uploads it to ImageDrop at ${origin} and copies the link.
+# Bind it to a keyboard shortcut. Needs curl, and wl-copy or xclip for the clipboard.
+set -eu
+
+IMAGEDROP_URL='${origin}'
+IMAGEDROP_API_KEY='${apiKey}'
+
+screenshot=$(mktemp)
+trap 'rm -f "$screenshot"' EXIT
+flameshot gui --raw > "$screenshot"
+[ -s "$screenshot" ] || exit 0 # Cancelled
+
+url=$(curl -fsS \\
+  -H "Authorization: Bearer $IMAGEDROP_API_KEY" \\
+  -H 'Content-Type: image/png' \\
+  --data-binary "@$screenshot" \\
+  "$IMAGEDROP_URL/api/v1/screenshots?format=text&filename=screenshot_$(date +%Y-%m-%d_%H-%M-%S).png")
+
+if command -v wl-copy >/dev/null 2>&1; then
+  printf %s "$url" | wl-copy
+elif command -v xclip >/dev/null 2>&1; then
+  printf %s "$url" | xclip -selection clipboard
+fi
+if command -v notify-send >/dev/null 2>&1; then
+  notify-send 'Screenshot uploaded' "$url"
+fi
+echo "$url"
+`;
+  return { filename: 'imagedrop-flameshot.sh', mimeType: 'text/x-shellscript', content };
+}
+
+export function buildUploaderConfig(tool: UploaderTool, origin: string, apiKey: string): UploaderConfigFile {
+  return tool === 'sharex' ? shareXConfig(origin, apiKey) : flameshotScript(origin, apiKey);
+}
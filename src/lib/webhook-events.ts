@@ -0,0 +1,10 @@
+// What webhooks can subscribe to. Shared with the admin page, so no server-only imports here.
+export const WEBHOOK_EVENTS = ['image.created', 'image.deleted', 'image.moderated'] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEvent, string> = {
+  'image.created': 'An image was uploaded',
+  'image.deleted': 'An image was deleted',
+  'image.moderated': 'An upload was held for review, or an admin approved or rejected it',
+};
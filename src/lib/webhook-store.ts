@@ -0,0 +1,203 @@
+import { getDb } from '@/lib/db';
+import type { WebhookEvent } from '@/lib/webhook-events';
+
+export interface WebhookRecord {
+  id: string;
+  url: string;
+  secret: string; // Signs every payload, so unlike API keys it has to be kept as it is
+  events: WebhookEvent[];
+  createdBy: string | null;
+  createdAt: string; // ISO 8601
+}
+
+interface WebhookRow {
+  id: string;
+  url: string;
+  secret: string;
+  events: string; // Comma separated
+  created_by: string | null;
+  created_at: string;
+}
+
+// 'dead' deliveries ran out of attempts; they stay until someone redelivers them
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'dead';
+
+export interface WebhookDeliveryRecord {
+  id: string;
+  webhookId: string;
+  eventId: string; // The same for every endpoint and every attempt, so receivers can drop duplicates
+  event: WebhookEvent;
+  payload: string; // The exact JSON body sent on every attempt
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: string;
+}
+
+interface WebhookDeliveryRow {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event: string;
+  payload: string;
+  status: string;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+function toWebhookRecord(row: WebhookRow): WebhookRecord {
+  return {
+    id: row.id,
+    url: row.url,
+    secret: row.secret,
+    events: row.events.split(',').filter(Boolean) as WebhookEvent[],
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+function toDeliveryRecord(row: WebhookDeliveryRow): WebhookDeliveryRecord {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    eventId: row.event_id,
+    event: row.event as WebhookEvent,
+    payload: row.payload,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastAttemptAt: row.last_attempt_at,
+    responseStatus: row.response_status,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+  };
+}
+
+export function insertWebhook(record: WebhookRecord): void {
+  getDb()
+    .prepare(
+      `INSERT INTO webhooks (id, url, secret, events, created_by, created_at)
+       VALUES (@id, @url, @secret, @events, @createdBy, @createdAt)`
+    )
+    .run({ ...record, events: record.events.join(',') });
+}
+
+export function listWebhooks(): WebhookRecord[] {
+  const rows = getDb().prepare('SELECT * FROM webhooks ORDER BY created_at DESC').all() as WebhookRow[];
+  return rows.map(toWebhookRecord);
+}
+
+export function getWebhook(id: string): WebhookRecord | null {
+  const row = getDb().prepare('SELECT * FROM webhooks WHERE id = ?').get(id) as WebhookRow | undefined;
+  return row ? toWebhookRecord(row) : null;
+}
+
+// Its deliveries go with it, pending or not
+export function deleteWebhook(id: string): boolean {
+  return getDb().prepare('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0;
+}
+
+// New deliveries are pending and due straight away
+export function insertWebhookDeliveries(deliveries: Pick<WebhookDeliveryRecord, 'id' | 'webhookId' | 'eventId' | 'event' | 'payload' | 'createdAt'>[]): void {
+  const db = getDb();
+  const insert = db.prepare(
+    `INSERT INTO webhook_deliveries (id, webhook_id, event_id, event, payload, status, next_attempt_at, created_at)
+     VALUES (@id, @webhookId, @eventId, @event, @payload, 'pending', @createdAt, @createdAt)`
+  );
+  db.transaction(() => {
+    for (const delivery of deliveries) {
+      insert.run(delivery);
+    }
+  })();
+}
+
+// Newest first, optionally only those in one state
+export function listWebhookDeliveries({ status, limit }: { status?: WebhookDeliveryStatus; limit: number }): WebhookDeliveryRecord[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT * FROM webhook_deliveries
+       WHERE @status IS NULL OR status = @status
+       ORDER BY created_at DESC, id DESC
+       LIMIT @limit`
+    )
+    .all({ status: status ?? null, limit }) as WebhookDeliveryRow[];
+  return rows.map(toDeliveryRecord);
+}
+
+export function getWebhookDelivery(id: string): WebhookDeliveryRecord | null {
+  const row = getDb().prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id) as WebhookDeliveryRow | undefined;
+  return row ? toDeliveryRecord(row) : null;
+}
+
+export function listDueWebhookDeliveries(now: string, limit: number): WebhookDeliveryRecord[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT * FROM webhook_deliveries
+       WHERE status = 'pending' AND next_attempt_at <= ?
+       ORDER BY next_attempt_at
+       LIMIT ?`
+    )
+    .all(now, limit) as WebhookDeliveryRow[];
+  return rows.map(toDeliveryRecord);
+}
+
+// When the next pending delivery is due, or null if nothing is waiting
+export function getNextWebhookAttemptAt(): string | null {
+  const row = getDb().prepare(`SELECT MIN(next_attempt_at) AS next FROM webhook_deliveries WHERE status = 'pending'`).get() as { next: string | null };
+  return row.next;
+}
+
+/**
+ * Takes a due delivery for one attempt by pushing its next attempt back to `leaseUntil`, so no
+ * other worker picks it up meanwhile. Returns false if it isn't due any more.
+ */
+export function claimWebhookDelivery(id: string, now: string, leaseUntil: string): boolean {
+  return (
+    getDb()
+      .prepare(`UPDATE webhook_deliveries SET next_attempt_at = ? WHERE id = ? AND status = 'pending' AND next_attempt_at <= ?`)
+      .run(leaseUntil, id, now).changes > 0
+  );
+}
+
+export function recordWebhookAttempt(
+  id: string,
+  attempt: { status: WebhookDeliveryStatus; attemptedAt: string; nextAttemptAt: string | null; responseStatus: number | null; error: string | null }
+): void {
+  getDb()
+    .prepare(
+      `UPDATE webhook_deliveries
+       SET status = @status, attempts = attempts + 1, last_attempt_at = @attemptedAt, next_attempt_at = @nextAttemptAt,
+           response_status = @responseStatus, last_error = @error
+       WHERE id = @id`
+    )
+    .run({ id, ...attempt });
+}
+
+/**
+ * Starts a dead delivery over with a fresh set of attempts, due straight away. Pending ones only
+ * qualify while they're due: a later next_attempt_at is either a retry that's already scheduled
+ * or the lease of an attempt in flight, whose outcome would otherwise overwrite the fresh start.
+ * Returns false if the delivery doesn't qualify.
+ */
+export function requeueWebhookDelivery(id: string, now: string): boolean {
+  return (
+    getDb()
+      .prepare(
+        `UPDATE webhook_deliveries SET status = 'pending', attempts = 0, next_attempt_at = @now
+         WHERE id = @id AND (status = 'dead' OR (status = 'pending' AND next_attempt_at <= @now))`
+      )
+      .run({ id, now }).changes > 0
+  );
+}
+
+// Dead deliveries are kept until they are redelivered or their webhook is deleted
+export function deleteSucceededWebhookDeliveries(before: string): number {
+  return getDb().prepare(`DELETE FROM webhook_deliveries WHERE status = 'succeeded' AND created_at < ?`).run(before).changes;
+}
@@ -0,0 +1,211 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ApiImage } from '@/lib/api-image';
+import { processIncomingUpload } from '@/lib/upload-service';
+import { deleteWebhook, getWebhookDelivery, listWebhookDeliveries, type WebhookDeliveryRecord, type WebhookRecord } from '@/lib/webhook-store';
+import { createWebhook, emitWebhookEvent, redeliverWebhook, scheduleWebhookDeliveries, type WebhookPayload } from '@/lib/webhooks';
+import { runInRequest } from '@/test/next-headers';
+import { createSignedInUser } from '@/test/users';
+
+const MINUTE = 60 * 1000;
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// A local endpoint that records what it's sent and answers however the test says
+let respond: (response: http.ServerResponse) => void;
+const received: ReceivedRequest[] = [];
+const receiver = http.createServer((request, response) => {
+  const chunks: Buffer[] = [];
+  request.on('data', (chunk: Buffer) => chunks.push(chunk));
+  request.on('end', () => {
+    received.push({ headers: request.headers, body: Buffer.concat(chunks).toString('utf8') });
+    respond(response);
+  });
+});
+const answer = (status: number) => (response: http.ServerResponse) => response.writeHead(status).end();
+
+let receiverUrl: string;
+let adminId: string;
+let webhook: WebhookRecord;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+  receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+  adminId = (await createSignedInUser()).user.id;
+});
+
+afterAll(async () => {
+  receiver.closeAllConnections();
+  await new Promise((resolve) => receiver.close(resolve));
+});
+
+beforeEach(() => {
+  // Only Date is faked: retries are made due by moving the clock, while sockets keep real timers
+  vi.useFakeTimers({ toFake: ['Date'] });
+  received.length = 0;
+  respond = answer(204);
+  const result = createWebhook(adminId, { url: receiverUrl, events: ['image.created'] });
+  if (!result.success) throw new Error(result.error);
+  webhook = result.webhook;
+});
+
+afterEach(() => {
+  deleteWebhook(webhook.id);
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+function emitImageCreated(): WebhookDeliveryRecord {
+  emitWebhookEvent('image.created', { image: { id: crypto.randomUUID() } as ApiImage });
+  return listWebhookDeliveries({ limit: 1 })[0];
+}
+
+// Waits for the delivery's next attempt to be recorded
+async function nextAttempt(delivery: WebhookDeliveryRecord): Promise<WebhookDeliveryRecord> {
+  return vi.waitFor(() => {
+    const current = getWebhookDelivery(delivery.id)!;
+    expect(current.attempts).toBe(delivery.attempts + 1);
+    expect(current.lastAttemptAt).not.toBeNull();
+    return current;
+  });
+}
+
+// Moves the clock to when the delivery is due again, and lets the scheduler send it
+async function retry(delivery: WebhookDeliveryRecord): Promise<WebhookDeliveryRecord> {
+  vi.setSystemTime(new Date(delivery.nextAttemptAt!));
+  scheduleWebhookDeliveries();
+  return nextAttempt(delivery);
+}
+
+// Whole minutes until the next attempt; the time the attempt itself took (vi.waitFor ticks the clock) rounds away
+const retryDelayMinutes = (delivery: WebhookDeliveryRecord) =>
+  Math.round((Date.parse(delivery.nextAttemptAt!) - Date.parse(delivery.lastAttemptAt!)) / MINUTE);
+
+describe('webhook deliveries', () => {
+  it('signs the timestamp and body with the webhook secret', async () => {
+    const delivery = await nextAttempt(emitImageCreated());
+
+    expect(delivery).toMatchObject({ status: 'succeeded', responseStatus: 204, nextAttemptAt: null });
+    const [{ headers, body }] = received;
+    expect(body).toBe(delivery.payload);
+    expect(JSON.parse(body)).toMatchObject({ id: delivery.eventId, type: 'image.created' });
+    expect(headers['x-imagedrop-event']).toBe('image.created');
+    expect(headers['x-imagedrop-delivery']).toBe(delivery.id);
+
+    const [, timestamp, signature] = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(String(headers['x-imagedrop-signature']))!;
+    expect(Number(timestamp)).toBe(Math.floor(Date.parse(delivery.lastAttemptAt!) / 1000));
+    expect(signature).toBe(crypto.createHmac('sha256', webhook.secret).update(`${timestamp}.${body}`).digest('hex'));
+  });
+
+  it('retries server errors with growing delays', async () => {
+    respond = answer(500);
+    let delivery = await nextAttempt(emitImageCreated());
+    expect(delivery).toMatchObject({ status: 'pending', responseStatus: 500, lastError: 'The endpoint answered with HTTP 500.' });
+    expect(retryDelayMinutes(delivery)).toBe(1);
+
+    respond = answer(503);
+    delivery = await retry(delivery);
+    expect(delivery).toMatchObject({ status: 'pending', responseStatus: 503 });
+    expect(retryDelayMinutes(delivery)).toBe(2);
+
+    respond = answer(200);
+    delivery = await retry(delivery);
+    expect(delivery).toMatchObject({ status: 'succeeded', attempts: 3, responseStatus: 200, lastError: null, nextAttemptAt: null });
+    expect(received).toHaveLength(3);
+    expect(new Set(received.map(({ body }) => body)).size).toBe(1);
+  });
+
+  it('retries endpoints that time out', async () => {
+    const timeout = AbortSignal.timeout.bind(AbortSignal);
+    vi.spyOn(AbortSignal, 'timeout').mockImplementation(() => timeout(100));
+    respond = () => {}; // Never answers
+
+    let delivery = await nextAttempt(emitImageCreated());
+    expect(delivery).toMatchObject({ status: 'pending', responseStatus: null });
+    expect(delivery.lastError).toMatch(/timeout|aborted/i);
+    expect(retryDelayMinutes(delivery)).toBe(1);
+
+    respond = answer(200);
+    delivery = await retry(delivery);
+    expect(delivery).toMatchObject({ status: 'succeeded', attempts: 2 });
+  });
+
+  it('gives up after 8 attempts, about two hours in', async () => {
+    respond = answer(502);
+    let delivery = await nextAttempt(emitImageCreated());
+    const delays = [retryDelayMinutes(delivery)];
+    while (delivery.status === 'pending') {
+      delivery = await retry(delivery);
+      if (delivery.nextAttemptAt) delays.push(retryDelayMinutes(delivery));
+    }
+
+    expect(delivery).toMatchObject({ status: 'dead', attempts: 8, responseStatus: 502, nextAttemptAt: null });
+    expect(delays).toEqual([1, 2, 4, 8, 16, 32, 64]);
+    expect(listWebhookDeliveries({ status: 'dead', limit: 10 }).map(({ id }) => id)).toContain(delivery.id);
+  });
+
+  it('redelivers dead deliveries with a fresh set of attempts', async () => {
+    respond = answer(500);
+    let delivery = await nextAttempt(emitImageCreated());
+    while (delivery.status === 'pending') {
+      delivery = await retry(delivery);
+    }
+
+    respond = answer(200);
+    expect(redeliverWebhook(delivery.id)).toBe(true);
+    delivery = await nextAttempt({ ...delivery, attempts: 0 });
+    expect(delivery).toMatchObject({ status: 'succeeded', attempts: 1, responseStatus: 200 });
+    expect(received).toHaveLength(9);
+
+    expect(redeliverWebhook(delivery.id)).toBe(false);
+    expect(redeliverWebhook(crypto.randomUUID())).toBe(false);
+  });
+
+  it("builds image URLs from the configured origin, never the request's Host header", async () => {
+    const upload = async () => {
+      const request = new Request('http://evil.example/api/v1/images', { method: 'POST', headers: { 'x-forwarded-host': 'evil.example' } });
+      const photo = fs.createReadStream(path.join(__dirname, '__fixtures__/gps-upright.jpg'));
+      const sent = received.length;
+      await runInRequest(request, () => processIncomingUpload({ name: 'photo.jpg', type: 'image/jpeg', body: photo }));
+      await vi.waitFor(() => expect(received).toHaveLength(sent + 1));
+      return (JSON.parse(received[sent].body) as WebhookPayload<'image.created'>).data.image;
+    };
+
+    vi.stubEnv('TRUST_PROXY', '1');
+    expect((await upload()).url).toMatch(/^http:\/\/localhost:9002\//);
+
+    vi.stubEnv('APP_TRUSTED_ORIGINS', 'https://img.example.com');
+    expect((await upload()).url).toMatch(/^http:\/\/localhost:9002\//);
+
+    vi.stubEnv('APP_URL', 'https://img.example.com');
+    const image = await upload();
+    expect(image.url).toMatch(/^https:\/\/img\.example\.com\//);
+    expect(image.shortUrl).toMatch(/^https:\/\/img\.example\.com\//);
+  });
+
+  it("won't requeue a delivery that's being sent or waiting for its retry", async () => {
+    let release!: () => void;
+    respond = (response) => {
+      release = () => response.writeHead(500).end();
+    };
+    let delivery = emitImageCreated();
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    // The attempt in flight holds a lease, and would overwrite a fresh start when it finishes
+    expect(redeliverWebhook(delivery.id)).toBe(false);
+    release();
+    delivery = await nextAttempt(delivery);
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1 });
+
+    expect(redeliverWebhook(delivery.id)).toBe(false);
+    expect(getWebhookDelivery(delivery.id)).toMatchObject({ attempts: 1, nextAttemptAt: delivery.nextAttemptAt });
+  });
+});
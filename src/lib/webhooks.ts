@@ -0,0 +1,279 @@
+import crypto from 'node:crypto';
+import { headers } from 'next/headers';
+import { z } from 'zod';
+import { toApiImages, type ApiImage } from '@/lib/api-image';
+import type { ImageRecord } from '@/lib/image-store';
+import { getAppOrigin, getTrustedAppOrigin } from '@/lib/request-origin';
+import { WEBHOOK_EVENTS, type WebhookEvent } from '@/lib/webhook-events';
+import {
+  claimWebhookDelivery,
+  deleteSucceededWebhookDeliveries,
+  getNextWebhookAttemptAt,
+  getWebhook,
+  insertWebhook,
+  insertWebhookDeliveries,
+  listDueWebhookDeliveries,
+  listWebhooks,
+  recordWebhookAttempt,
+  requeueWebhookDelivery,
+  type WebhookDeliveryRecord,
+  type WebhookDeliveryStatus,
+  type WebhookRecord,
+} from '@/lib/webhook-store';
+
+const SECRET_PREFIX = 'whsec_';
+export const MAX_WEBHOOKS = 20;
+
+// Retries wait 1, 2, 4 … 64 minutes, so an endpoint can be down for about two hours before a
+// delivery ends up in the dead-letter list
+const MAX_ATTEMPTS = 8;
+const FIRST_RETRY_DELAY_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const DELIVERY_BATCH_SIZE = 10;
+const SUCCEEDED_DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_ERROR_LENGTH = 500;
+
+export const WebhookInputSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .url('Enter a valid URL.')
+    .refine((url) => ['http:', 'https:'].includes(new URL(url).protocol), 'Webhook URLs must start with http:// or https://.'),
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS))
+    .min(1, 'Pick at least one event.')
+    .transform((events) => WEBHOOK_EVENTS.filter((event) => events.includes(event))),
+});
+
+// A webhook as the admin page lists it: never its secret
+export interface WebhookSummary {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  createdAt: string;
+}
+
+export function toWebhookSummary({ id, url, events, createdAt }: WebhookRecord): WebhookSummary {
+  return { id, url, events, createdAt };
+}
+
+// A delivery as the admin page's log shows it, with where it was sent
+export interface WebhookDeliverySummary {
+  id: string;
+  webhookUrl: string;
+  event: WebhookEvent;
+  eventId: string;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: string;
+}
+
+export function toWebhookDeliverySummary({ webhookId, ...delivery }: WebhookDeliveryRecord, webhooks: WebhookRecord[]): WebhookDeliverySummary {
+  return { ...delivery, webhookUrl: webhooks.find((webhook) => webhook.id === webhookId)?.url ?? '' };
+}
+
+export type CreateWebhookResult = { success: true; webhook: WebhookRecord } | { success: false; error: string };
+
+/**
+ * Registers an endpoint for the given events, with a fresh signing secret. The secret is only
+ * shown when the webhook is created, though it's stored as is, since every payload is signed with it.
+ */
+export function createWebhook(createdBy: string, input: z.input<typeof WebhookInputSchema>): CreateWebhookResult {
+  const parsed = WebhookInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Invalid webhook settings.' };
+  }
+  if (listWebhooks().length >= MAX_WEBHOOKS) {
+    return { success: false, error: `There can be at most ${MAX_WEBHOOKS} webhooks. Delete one you no longer use first.` };
+  }
+
+  const webhook: WebhookRecord = {
+    id: crypto.randomUUID(),
+    url: parsed.data.url,
+    secret: `${SECRET_PREFIX}${crypto.randomBytes(32).toString('base64url')}`,
+    events: parsed.data.events,
+    createdBy,
+    createdAt: new Date().toISOString(),
+  };
+  insertWebhook(webhook);
+  return { success: true, webhook };
+}
+
+export type ImageModerationDecision = 'quarantined' | 'approved' | 'rejected';
+
+// The `data` of each event's payload
+export interface WebhookEventData {
+  'image.created': { image: ApiImage };
+  'image.deleted': { image: ApiImage }; // As it was just before it was deleted; its URLs no longer work
+  'image.moderated': { image: ApiImage; decision: ImageModerationDecision; reason: string | null };
+}
+
+export interface WebhookPayload<E extends WebhookEvent = WebhookEvent> {
+  id: string; // Receivers should ignore events they've already seen, as deliveries can repeat
+  type: E;
+  createdAt: string;
+  data: WebhookEventData[E];
+}
+
+/**
+ * An image the way webhook payloads describe it: the same shape /api/v1 returns. Receivers act on
+ * these URLs, so they never come from the Host header alone: they use APP_URL, or the entry of
+ * APP_TRUSTED_ORIGINS the event's request was sent to, and point at localhost when neither is set.
+ */
+export async function toWebhookImage(image: ImageRecord): Promise<ApiImage> {
+  let requestHeaders: Headers;
+  try {
+    requestHeaders = await headers();
+  } catch {
+    requestHeaders = new Headers(); // Not called while handling a request
+  }
+  return toApiImages([image], getTrustedAppOrigin(requestHeaders) ?? getAppOrigin(new Headers()))[0];
+}
+
+/**
+ * Queues a delivery of the event to every webhook subscribed to it and starts sending them in
+ * the background. Never throws: a failure here is logged, and mustn't fail what caused the event.
+ */
+export function emitWebhookEvent<E extends WebhookEvent>(event: E, data: WebhookEventData[E]): void {
+  try {
+    const webhooks = listWebhooks().filter((webhook) => webhook.events.includes(event));
+    if (webhooks.length === 0) return;
+
+    const payload: WebhookPayload<E> = { id: `evt_${crypto.randomUUID()}`, type: event, createdAt: new Date().toISOString(), data };
+    const body = JSON.stringify(payload);
+    insertWebhookDeliveries(
+      webhooks.map((webhook) => ({
+        id: crypto.randomUUID(),
+        webhookId: webhook.id,
+        eventId: payload.id,
+        event,
+        payload: body,
+        createdAt: payload.createdAt,
+      }))
+    );
+    scheduleWebhookDeliveries();
+  } catch (error) {
+    console.error(`Error queueing ${event} webhooks:`, error);
+  }
+}
+
+/**
+ * The X-ImageDrop-Signature value receivers check: a hex HMAC-SHA256, keyed with the webhook's
+ * secret, of the timestamp, a dot and the raw body. The timestamp lets them reject replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+interface AttemptResult {
+  responseStatus: number | null;
+  error: string | null; // Null if the endpoint accepted the delivery
+}
+
+async function sendDelivery(webhook: WebhookRecord, delivery: WebhookDeliveryRecord): Promise<AttemptResult> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ImageDrop-Webhooks/1',
+        'X-ImageDrop-Event': delivery.event,
+        'X-ImageDrop-Delivery': delivery.id,
+        'X-ImageDrop-Signature': `t=${timestamp},v1=${signWebhookPayload(webhook.secret, timestamp, delivery.payload)}`,
+      },
+      body: delivery.payload,
+      redirect: 'manual', // A redirect would resend the payload somewhere nobody configured
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    return { responseStatus: response.status, error: response.ok ? null : `The endpoint answered with HTTP ${response.status}.` };
+  } catch (error) {
+    const message = error instanceof Error ? (error.cause instanceof Error ? `${error.message}: ${error.cause.message}` : error.message) : String(error);
+    return { responseStatus: null, error: message.slice(0, MAX_ERROR_LENGTH) };
+  }
+}
+
+async function attemptDelivery(delivery: WebhookDeliveryRecord): Promise<void> {
+  const startedAt = new Date();
+  // Held for longer than a request can take, in case another instance of the app is delivering too
+  const leaseUntil = new Date(startedAt.getTime() + 2 * REQUEST_TIMEOUT_MS);
+  if (!claimWebhookDelivery(delivery.id, startedAt.toISOString(), leaseUntil.toISOString())) {
+    return;
+  }
+  const webhook = getWebhook(delivery.webhookId);
+  if (!webhook) return; // Deleted meanwhile, and its deliveries with it
+
+  const { responseStatus, error } = await sendDelivery(webhook, delivery);
+  const attempts = delivery.attempts + 1;
+  let status: WebhookDeliveryStatus = 'succeeded';
+  let nextAttemptAt: string | null = null;
+  if (error) {
+    status = attempts >= MAX_ATTEMPTS ? 'dead' : 'pending';
+    nextAttemptAt = status === 'pending' ? new Date(Date.now() + FIRST_RETRY_DELAY_MS * 2 ** (attempts - 1)).toISOString() : null;
+    console.warn(`Webhook delivery ${delivery.id} to ${webhook.url} failed (attempt ${attempts} of ${MAX_ATTEMPTS}): ${error}`);
+  }
+  recordWebhookAttempt(delivery.id, { status, attemptedAt: startedAt.toISOString(), nextAttemptAt, responseStatus, error });
+}
+
+// Deliveries live in the database, so this only decides when to look at them again
+let draining = false;
+let drainAgain = false;
+let nextDrain: ReturnType<typeof setTimeout> | null = null;
+
+async function drainDueDeliveries(): Promise<void> {
+  deleteSucceededWebhookDeliveries(new Date(Date.now() - SUCCEEDED_DELIVERY_RETENTION_MS).toISOString());
+  for (;;) {
+    const due = listDueWebhookDeliveries(new Date().toISOString(), DELIVERY_BATCH_SIZE);
+    if (due.length === 0) return;
+    await Promise.all(due.map(attemptDelivery));
+  }
+}
+
+function scheduleNextDrain(): void {
+  const next = getNextWebhookAttemptAt();
+  if (!next) return;
+  nextDrain = setTimeout(scheduleWebhookDeliveries, Math.max(0, Date.parse(next) - Date.now()));
+  nextDrain.unref?.(); // Doesn't keep the process alive; instrumentation.ts resumes retries on the next start
+}
+
+/**
+ * Sends whatever deliveries are due, then sleeps until the next retry. Called whenever one is
+ * queued, and on server start (see instrumentation.ts), which resumes retries after a restart.
+ */
+export function scheduleWebhookDeliveries(): void {
+  if (draining) {
+    drainAgain = true;
+    return;
+  }
+  draining = true;
+  if (nextDrain) {
+    clearTimeout(nextDrain);
+    nextDrain = null;
+  }
+  drainDueDeliveries()
+    .catch((error) => console.error('Error delivering webhooks:', error))
+    .finally(() => {
+      draining = false;
+      if (drainAgain) {
+        drainAgain = false;
+        scheduleWebhookDeliveries();
+      } else {
+        scheduleNextDrain();
+      }
+    });
+}
+
+// Starts a dead delivery over with a full set of attempts. False if it's missing or still being retried.
+export function redeliverWebhook(deliveryId: string): boolean {
+  if (!requeueWebhookDelivery(deliveryId, new Date().toISOString())) {
+    return false;
+  }
+  scheduleWebhookDeliveries();
+  return true;
+}
@@ -0,0 +1,51 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// Stands in for next/headers in tests (see vitest.setup.ts). The real module only works while
+// Next.js is handling a request, so tests wrap calls to route handlers in runInRequest().
+
+interface RequestScope {
+  headers: Headers;
+  cookies: Map<string, string>;
+}
+
+const requestScope = new AsyncLocalStorage<RequestScope>();
+
+function parseCookieHeader(header: string | null): Map<string, string> {
+  const cookies = new Map<string, string>();
+  for (const pair of header?.split(';') ?? []) {
+    const [name, ...value] = pair.trim().split('=');
+    if (name) cookies.set(name, decodeURIComponent(value.join('=')));
+  }
+  return cookies;
+}
+
+/**
+ * Runs `fn` as if Next.js were handling `request`, so headers() and cookies() read from it.
+ * Cookies that `fn` sets end up in `cookieJar`.
+ */
+export function runInRequest<T>(request: Request, fn: () => T, cookieJar = parseCookieHeader(request.headers.get('cookie'))): T {
+  return requestScope.run({ headers: request.headers, cookies: cookieJar }, fn);
+}
+
+function currentScope(name: string): RequestScope {
+  const scope = requestScope.getStore();
+  if (!scope) {
+    throw new Error(`\`${name}\` was called outside a request scope.`);
+  }
+  return scope;
+}
+
+export async function headers(): Promise<Headers> {
+  return currentScope('headers').headers;
+}
+
+export async function cookies() {
+  const jar = currentScope('cookies').cookies;
+  return {
+    get: (name: string) => (jar.has(name) ? { name, value: jar.get(name)! } : undefined),
+    getAll: () => [...jar].map(([name, value]) => ({ name, value })),
+    has: (name: string) => jar.has(name),
+    set: (name: string, value: string) => void jar.set(name, value),
+    delete: (name: string) => void jar.delete(name),
+  };
+}
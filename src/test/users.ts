@@ -0,0 +1,14 @@
+import crypto from 'node:crypto';
+import { insertUser, type UserRecord } from '@/lib/auth-store';
+import { startSession } from '@/lib/session';
+import { runInRequest } from '@/test/next-headers';
+
+/** Creates a user and signs them in, returning the user and the Cookie header to send as them. */
+export async function createSignedInUser(email = `${crypto.randomUUID()}@example.com`): Promise<{ user: UserRecord; cookie: string }> {
+  const user: UserRecord = { id: crypto.randomUUID(), email, passwordHash: '', createdAt: new Date().toISOString() };
+  insertUser(user);
+
+  const jar = new Map<string, string>();
+  await runInRequest(new Request('http://localhost/'), () => startSession(user.id), jar);
+  return { user, cookie: [...jar].map(([name, value]) => `${name}=${value}`).join('; ') };
+}
@@ -0,0 +1,23 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, vi } from 'vitest';
+
+// Route handlers and server code read the request through next/headers, which tests stand in for
+vi.mock('next/headers', () => import('@/test/next-headers'));
+
+// Each test file gets a fresh database, storage and temp directory, so tests never touch the
+// app's real data. Modules read these when they are first imported, after this file runs.
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'imagedrop-test-'));
+process.env.DATABASE_PATH = path.join(workDir, 'db.sqlite');
+process.env.STORAGE_DRIVER = 'local';
+process.env.LOCAL_STORAGE_DIR = path.join(workDir, 'uploads');
+process.env.UPLOAD_TMP_DIR = path.join(workDir, 'tmp');
+process.env.TRANSFORM_CACHE_DIR = path.join(workDir, 'transform-cache');
+process.env.MODERATION_CLASSIFIER = 'none';
+delete process.env.AI_PROVIDER;
+delete process.env.APP_URL;
+
+afterAll(() => {
+  fs.rmSync(workDir, { recursive: true, force: true });
+});